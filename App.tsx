@@ -11,8 +11,11 @@ import { SystemSettings } from './views/SystemSettings';
 import { ProjectManager } from './views/ProjectManager';
 import { UserProfile } from './views/UserProfile';
 import { ActivityLogs } from './views/ActivityLogs';
-import { authService, dataService } from './services/storage';
-import { User, SystemConfig } from './types';
+import { RecycleBin } from './views/RecycleBin';
+import { authService, dataService, trashService } from './services/storage';
+import { SearchResult } from './services/search';
+import { User, SystemConfig, PERMISSIONS } from './types';
+import { subscribeTo } from './services/realtime';
 
 // Simple Toast Component
 const Toast = ({ message, type, onClose }: { message: string, type: 'success' | 'error', onClose: () => void }) => {
@@ -34,7 +37,11 @@ const Toast = ({ message, type, onClose }: { message: string, type: 'success' |
 
 function App() {
   const [user, setUser] = useState<User | null>(null);
-  const [currentPage, setCurrentPage] = useState('dashboard');
+  // Deep links to a saved view (?view=<id>) open the data manager
+  const getStartPage = () => new URLSearchParams(window.location.search).has('view') ? 'data' : 'dashboard';
+  const [currentPage, setCurrentPage] = useState(getStartPage);
+  // Result picked in the global search, opened by the target page
+  const [searchTarget, setSearchTarget] = useState<SearchResult | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [toast, setToast] = useState<{ message: string, type: 'success' | 'error' } | null>(null);
   const [isDarkMode, setIsDarkMode] = useState(false);
@@ -71,6 +78,24 @@ function App() {
     init();
   }, []);
 
+  // Sessions allowed to manage settings purge the recycle bin items past the retention period
+  const canPurgeTrash = !!user && PERMISSIONS.canManageSettings(user);
+  useEffect(() => {
+    if (!canPurgeTrash) return;
+    trashService.purgeExpired(systemConfig.trashRetentionDays).catch(e => console.error("Trash purge failed", e));
+  }, [canPurgeTrash, systemConfig.trashRetentionDays]);
+
+  // Re-resolve the permissions when the user's roles, the role matrix or the project members change
+  useEffect(() => {
+    if (!user) return;
+    const unsubscribeRoles = subscribeTo(['roles', 'projects'], {}, () => loadUser());
+    const unsubscribeProfile = subscribeTo('profiles', { id: user.id }, () => loadUser());
+    return () => {
+      unsubscribeRoles();
+      unsubscribeProfile();
+    };
+  }, [user?.id]);
+
   const loadUser = async () => {
       const currentUser = await authService.getCurrentUser();
       if (currentUser) {
@@ -113,13 +138,25 @@ function App() {
     });
   };
 
+  const handleNavigate = (page: string) => {
+    setSearchTarget(null);
+    setCurrentPage(page);
+  };
+
+  const handleSearchResult = (result: SearchResult) => {
+    setSearchTarget(result);
+    if (result.kind === 'resource') setCurrentPage('data');
+    else if (result.kind === 'project') setCurrentPage('projects');
+    else setCurrentPage('users');
+  };
+
   const showToast = (message: string, type: 'success' | 'error' = 'success') => {
     setToast({ message, type });
   };
 
   const handleLoginSuccess = async () => {
     await loadUser();
-    setCurrentPage('dashboard');
+    setCurrentPage(getStartPage());
     showToast(`Chào mừng trở lại!`);
   };
 
@@ -134,25 +171,29 @@ function App() {
       case 'dashboard':
         return <Dashboard />;
       case 'schema':
-        return user?.role === 'admin' 
-          ? <SchemaBuilder showToast={showToast} /> 
+        return user && PERMISSIONS.canManageSchema(user)
+          ? <SchemaBuilder currentUser={user} showToast={showToast} /> 
           : <div className="flex h-full items-center justify-center text-red-500 bg-red-50 dark:bg-red-900/20 rounded-xl m-4">Bạn không có quyền truy cập trang này.</div>;
       case 'users':
-        return user?.role === 'admin'
-          ? <UserManager currentUser={user} showToast={showToast} />
+        return user && PERMISSIONS.canManageUsers(user)
+          ? <UserManager currentUser={user} showToast={showToast} initialSearch={searchTarget?.user?.username} />
           : <div className="flex h-full items-center justify-center text-red-500 bg-red-50 dark:bg-red-900/20 rounded-xl m-4">Bạn không có quyền truy cập trang này.</div>;
       case 'activity':
-        return user?.role === 'admin'
+        return user && PERMISSIONS.canViewAuditLog(user)
           ? <ActivityLogs />
           : <div className="flex h-full items-center justify-center text-red-500 bg-red-50 dark:bg-red-900/20 rounded-xl m-4">Bạn không có quyền truy cập trang này.</div>;
+      case 'trash':
+        return user && PERMISSIONS.canManageSettings(user)
+          ? <RecycleBin showToast={showToast} />
+          : <div className="flex h-full items-center justify-center text-red-500 bg-red-50 dark:bg-red-900/20 rounded-xl m-4">Bạn không có quyền truy cập trang này.</div>;
       case 'settings':
-        return user?.role === 'admin'
+        return user && PERMISSIONS.canManageSettings(user)
             ? <SystemSettings currentUser={user} showToast={showToast} onConfigUpdate={loadSystemConfig} />
             : <div className="flex h-full items-center justify-center text-red-500 bg-red-50 dark:bg-red-900/20 rounded-xl m-4">Bạn không có quyền truy cập trang này.</div>;
       case 'data':
-        return user ? <DataManager currentUser={user} showToast={showToast} /> : null;
+        return user ? <DataManager currentUser={user} showToast={showToast} openResource={searchTarget?.resource} /> : null;
       case 'projects':
-        return <ProjectManager currentUser={user} showToast={showToast} />;
+        return <ProjectManager currentUser={user} showToast={showToast} initialSearch={searchTarget?.project?.code} />;
       case 'profile':
         return user ? <UserProfile currentUser={user} showToast={showToast} onProfileUpdate={loadUser} /> : null;
       default:
@@ -178,10 +219,11 @@ function App() {
         user={user} 
         onLogout={handleLogout} 
         currentPage={currentPage}
-        onNavigate={setCurrentPage}
+        onNavigate={handleNavigate}
         isDarkMode={isDarkMode}
         toggleTheme={toggleTheme}
         systemConfig={systemConfig}
+        onSearchResult={handleSearchResult}
       >
         {renderContent()}
       </Layout>
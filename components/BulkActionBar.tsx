@@ -0,0 +1,61 @@
+import React from 'react';
+
+interface BulkActionBarProps {
+  count: number;
+  total: number; // records matching the filters
+  busy: boolean;
+  canEdit: boolean; // edit / move need a single category
+  canCreate: boolean;
+  canExport: boolean;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  onEdit: () => void;
+  onMove: () => void;
+  onDuplicate: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+}
+
+const buttonClass = "px-3 py-1.5 rounded-lg text-sm font-semibold flex items-center gap-1.5 transition whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed";
+
+// Actions on the selected records, shown above the list / grid while something is selected
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({ count, total, busy, canEdit, canCreate, canExport, onSelectAllMatching, onClear, onEdit, onMove, onDuplicate, onExport, onDelete }) => (
+  <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-2xl px-4 py-3 flex flex-col lg:flex-row lg:items-center justify-between gap-3 animate-fade-in">
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+      <span className="font-bold text-blue-700 dark:text-blue-300">Đã chọn {count} bản ghi</span>
+      {count < total && (
+        <button onClick={onSelectAllMatching} disabled={busy} className="font-semibold text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50">
+          Chọn tất cả {total} bản ghi khớp bộ lọc
+        </button>
+      )}
+      <button onClick={onClear} disabled={busy} className="text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:underline disabled:opacity-50">
+        Bỏ chọn
+      </button>
+    </div>
+    <div className="flex flex-wrap gap-2">
+      {canEdit && (
+        <>
+          <button onClick={onEdit} disabled={busy} className={`${buttonClass} bg-white dark:bg-slate-800 text-indigo-600 dark:text-indigo-400 border border-indigo-100 dark:border-indigo-900/50 hover:bg-indigo-50 dark:hover:bg-indigo-900/20`}>
+            ✏️ Sửa trường
+          </button>
+          <button onClick={onMove} disabled={busy} className={`${buttonClass} bg-white dark:bg-slate-800 text-teal-600 dark:text-teal-400 border border-teal-100 dark:border-teal-900/50 hover:bg-teal-50 dark:hover:bg-teal-900/20`}>
+            📂 Chuyển danh mục
+          </button>
+        </>
+      )}
+      {canCreate && (
+        <button onClick={onDuplicate} disabled={busy} className={`${buttonClass} bg-white dark:bg-slate-800 text-purple-600 dark:text-purple-400 border border-purple-100 dark:border-purple-900/50 hover:bg-purple-50 dark:hover:bg-purple-900/20`}>
+          📑 Nhân bản
+        </button>
+      )}
+      {canExport && (
+        <button onClick={onExport} disabled={busy} className={`${buttonClass} bg-white dark:bg-slate-800 text-emerald-600 dark:text-emerald-400 border border-emerald-100 dark:border-emerald-900/50 hover:bg-emerald-50 dark:hover:bg-emerald-900/20`}>
+          ⬇️ Xuất
+        </button>
+      )}
+      <button onClick={onDelete} disabled={busy} className={`${buttonClass} bg-red-600 text-white hover:bg-red-700 shadow-sm shadow-red-500/30`}>
+        🗑️ Xóa
+      </button>
+    </div>
+  </div>
+);
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Category, FieldDefinition } from '../types';
+
+interface BulkEditDialogProps {
+  category: Category;
+  count: number;
+  renderInput: (field: FieldDefinition, value: any, onChange: (value: any) => void) => React.ReactNode;
+  onApply: (field: FieldDefinition, value: any) => Promise<void>;
+  onClose: () => void;
+}
+
+// Sets one field to the same value on every selected record; an empty value clears the field
+export const BulkEditDialog: React.FC<BulkEditDialogProps> = ({ category, count, renderInput, onApply, onClose }) => {
+  const editable = category.fields.filter(f => f.type !== 'formula'); // formulas are recomputed
+  const [fieldKey, setFieldKey] = useState(editable[0]?.key || '');
+  const [value, setValue] = useState<any>('');
+  const [applying, setApplying] = useState(false);
+
+  const field = editable.find(f => f.key === fieldKey);
+
+  const handleField = (key: string) => {
+    setFieldKey(key);
+    setValue('');
+  };
+
+  const handleApply = async () => {
+    if (!field) return;
+    setApplying(true);
+    try {
+      await onApply(field, value);
+      onClose();
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity" onClick={() => !applying && onClose()}></div>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-hidden flex flex-col relative z-20 animate-scale-in border border-slate-100 dark:border-slate-700">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700">
+          <h3 className="text-xl font-bold text-slate-900 dark:text-white">Sửa {count} bản ghi</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Bản ghi bạn không có quyền sửa hoặc có giá trị không hợp lệ sẽ được bỏ qua.</p>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-5">
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide">Trường</label>
+            <select
+              value={fieldKey}
+              onChange={(e) => handleField(e.target.value)}
+              className="w-full px-4 py-2.5 border border-slate-300 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+            >
+              {editable.map(f => <option key={f.id} value={f.key}>{f.name}</option>)}
+            </select>
+          </div>
+          {field && (
+            <div key={field.key} className="space-y-1">
+              <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide">Giá trị mới</label>
+              {renderInput(field, value, setValue)}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 dark:border-slate-700 flex flex-col-reverse sm:flex-row justify-end gap-3">
+          <button onClick={onClose} disabled={applying} className="px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-xl font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition disabled:opacity-50">
+            Hủy
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={applying || !field}
+            className="px-6 py-2.5 bg-indigo-600 text-white rounded-xl font-medium hover:bg-indigo-700 shadow-lg shadow-indigo-500/30 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {applying ? 'Đang cập nhật...' : `Áp dụng cho ${count} bản ghi`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
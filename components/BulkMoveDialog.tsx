@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Category } from '../types';
+import { MoveMapping, suggestMoveMapping } from '../services/bulkActions';
+
+interface BulkMoveDialogProps {
+  source: Category;
+  categories: Category[]; // possible targets
+  count: number;
+  onMove: (target: Category, mapping: MoveMapping) => Promise<void>;
+  onClose: () => void;
+}
+
+// Moves the selected records to another category; each field of the target takes the values of a source field
+export const BulkMoveDialog: React.FC<BulkMoveDialogProps> = ({ source, categories, count, onMove, onClose }) => {
+  const targets = categories.filter(c => c.id !== source.id);
+  const [targetId, setTargetId] = useState(targets[0]?.id || '');
+  const [mapping, setMapping] = useState<MoveMapping>(() => targets[0] ? suggestMoveMapping(source, targets[0]) : {});
+  const [moving, setMoving] = useState(false);
+
+  const target = targets.find(c => c.id === targetId);
+  const sourceFields = source.fields.filter(f => f.type !== 'formula');
+  const unmapped = sourceFields.filter(f => !Object.values(mapping).includes(f.key));
+
+  const handleTarget = (id: string) => {
+    setTargetId(id);
+    const next = targets.find(c => c.id === id);
+    setMapping(next ? suggestMoveMapping(source, next) : {});
+  };
+
+  const handleMove = async () => {
+    if (!target) return;
+    setMoving(true);
+    try {
+      await onMove(target, mapping);
+      onClose();
+    } finally {
+      setMoving(false);
+    }
+  };
+
+  const selectClass = "w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity" onClick={() => !moving && onClose()}></div>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col relative z-20 animate-scale-in border border-slate-100 dark:border-slate-700">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700">
+          <h3 className="text-xl font-bold text-slate-900 dark:text-white">Chuyển {count} bản ghi sang danh mục khác</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Giá trị được chuyển đổi sang kiểu của trường đích. Bản ghi không chuyển đổi được hoặc không hợp lệ sẽ được giữ lại trong {source.name}.</p>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-5">
+          {targets.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400 italic">Không có danh mục nào khác để chuyển tới.</p>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide">Danh mục đích</label>
+                <select value={targetId} onChange={(e) => handleTarget(e.target.value)} className={selectClass}>
+                  {targets.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+              </div>
+
+              {target && (
+                <div>
+                  <p className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-2">Ánh xạ trường</p>
+                  <div className="space-y-2">
+                    {target.fields.filter(f => f.type !== 'formula').map(field => (
+                      <div key={field.id} className="grid grid-cols-2 gap-3 items-center">
+                        <select
+                          value={mapping[field.key] || ''}
+                          onChange={(e) => setMapping(prev => ({ ...prev, [field.key]: e.target.value }))}
+                          className={selectClass}
+                        >
+                          <option value="">-- Để trống --</option>
+                          {sourceFields.map(f => <option key={f.id} value={f.key}>{f.name}</option>)}
+                        </select>
+                        <span className="text-sm text-slate-700 dark:text-slate-200 truncate">
+                          → <b>{field.name}</b>{field.required && <span className="text-red-500 ml-0.5">*</span>}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  {unmapped.length > 0 && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400 mt-3">
+                      Dữ liệu của các trường không được ánh xạ sẽ bị mất: {unmapped.map(f => f.name).join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 dark:border-slate-700 flex flex-col-reverse sm:flex-row justify-end gap-3">
+          <button onClick={onClose} disabled={moving} className="px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-xl font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition disabled:opacity-50">
+            Hủy
+          </button>
+          <button
+            onClick={handleMove}
+            disabled={moving || !target}
+            className="px-6 py-2.5 bg-teal-600 text-white rounded-xl font-medium hover:bg-teal-700 shadow-lg shadow-teal-500/30 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {moving ? 'Đang chuyển...' : `Chuyển ${count} bản ghi`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
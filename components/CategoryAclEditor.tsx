@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { CATEGORY_ACTIONS, CategoryAction, CategoryAclEntry, RoleDefinition, User } from '../types';
+import { CATEGORY_ACTION_LABELS, getRoleName } from '../services/roles';
+
+interface CategoryAclEditorProps {
+  acl: CategoryAclEntry[];
+  roles: RoleDefinition[];
+  users: User[];
+  onChange: (acl: CategoryAclEntry[]) => void;
+}
+
+const entryKey = (entry: Pick<CategoryAclEntry, 'type' | 'id'>) => `${entry.type}:${entry.id}`;
+
+// Custom permissions of a category in SchemaBuilder: one row per role or user, one checkbox per action
+export const CategoryAclEditor: React.FC<CategoryAclEditorProps> = ({ acl, roles, users, onChange }) => {
+  const [adding, setAdding] = useState('');
+
+  const taken = acl.map(entryKey);
+  const roleChoices = roles.filter(r => !r.permissions.includes('manageSchema') && !taken.includes(entryKey({ type: 'role', id: r.id })));
+  const userChoices = users.filter(u => !taken.includes(entryKey({ type: 'user', id: u.id })));
+
+  const getName = (entry: CategoryAclEntry) => entry.type === 'role'
+    ? getRoleName(roles, entry.id)
+    : users.find(u => u.id === entry.id)?.username || entry.id;
+
+  const toggle = (index: number, action: CategoryAction) => {
+    onChange(acl.map((entry, i) => {
+      if (i !== index) return entry;
+      const actions = entry.actions.includes(action) ? entry.actions.filter(a => a !== action) : [...entry.actions, action];
+      return { ...entry, actions: CATEGORY_ACTIONS.filter(a => actions.includes(a)) };
+    }));
+  };
+
+  const handleAdd = (value: string) => {
+    setAdding('');
+    if (!value) return;
+    const [type, id] = value.split(':') as ['role' | 'user', string];
+    onChange([...acl, { type, id, actions: ['view'] }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="bg-gray-50 dark:bg-gray-700/50 text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+              <th className="px-3 py-2">Áp dụng cho</th>
+              {CATEGORY_ACTIONS.map(action => <th key={action} className="px-2 py-2 text-center">{CATEGORY_ACTION_LABELS[action]}</th>)}
+              <th className="px-2 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+            {acl.length === 0 && (
+              <tr><td colSpan={CATEGORY_ACTIONS.length + 2} className="px-3 py-4 text-center text-xs text-gray-400 italic">Chỉ người quản lý cấu trúc dữ liệu truy cập được danh mục này</td></tr>
+            )}
+            {acl.map((entry, index) => (
+              <tr key={entryKey(entry)}>
+                <td className="px-3 py-2 whitespace-nowrap text-gray-800 dark:text-gray-200">
+                  <span className="mr-1.5">{entry.type === 'role' ? '🛡️' : '👤'}</span>{getName(entry)}
+                </td>
+                {CATEGORY_ACTIONS.map(action => (
+                  <td key={action} className="px-2 py-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={entry.actions.includes(action)}
+                      onChange={() => toggle(index, action)}
+                      className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 border-gray-300 dark:border-gray-600"
+                    />
+                  </td>
+                ))}
+                <td className="px-2 py-2 text-right">
+                  <button type="button" onClick={() => onChange(acl.filter((_, i) => i !== index))} className="text-gray-400 hover:text-red-500 transition" title="Gỡ">&times;</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <select
+        value={adding}
+        onChange={(e) => handleAdd(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">+ Thêm vai trò hoặc thành viên...</option>
+        {roleChoices.length > 0 && (
+          <optgroup label="Vai trò">
+            {roleChoices.map(r => <option key={r.id} value={`role:${r.id}`}>{r.name}</option>)}
+          </optgroup>
+        )}
+        {userChoices.length > 0 && (
+          <optgroup label="Thành viên">
+            {userChoices.map(u => <option key={u.id} value={`user:${u.id}`}>{u.username}{u.fullName ? ` (${u.fullName})` : ''}</option>)}
+          </optgroup>
+        )}
+      </select>
+      <p className="text-xs text-gray-500 dark:text-gray-400">Quyền của một người là tổng quyền của các dòng áp dụng cho họ. Người quản lý cấu trúc dữ liệu luôn có mọi quyền.</p>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ColumnPref } from '../types';
+
+interface ColumnChooserProps {
+  columns: ColumnPref[];
+  getLabel: (id: string) => string;
+  onChange: (columns: ColumnPref[]) => void;
+  onReset: () => void;
+}
+
+// Dropdown to show/hide, reorder and size the columns of a table
+export const ColumnChooser: React.FC<ColumnChooserProps> = ({ columns, getLabel, onChange, onReset }) => {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const update = (id: string, changes: Partial<ColumnPref>) =>
+    onChange(columns.map(c => c.id === id ? { ...c, ...changes } : c));
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= columns.length) return;
+    const next = [...columns];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const visibleCount = columns.filter(c => c.visible).length;
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex-1 sm:flex-none px-5 py-2.5 rounded-xl border font-semibold flex items-center justify-center gap-2 transition-all shadow-sm whitespace-nowrap ${open ? 'bg-blue-50 border-blue-200 text-blue-600 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-400' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-300 dark:hover:bg-slate-700 hover:shadow-md'}`}
+        title="Tùy chỉnh cột"
+      >
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" /></svg>
+        <span className="hidden sm:inline">Cột</span>
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 z-50 p-2 animate-scale-in">
+          <div className="flex items-center justify-between px-3 py-2">
+            <p className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Hiển thị cột</p>
+            <button onClick={onReset} className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline">Mặc định</button>
+          </div>
+          <div className="space-y-1 max-h-80 overflow-y-auto">
+            {columns.map((column, index) => (
+              <div key={column.id} className="flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700">
+                <input
+                  type="checkbox"
+                  checked={column.visible}
+                  disabled={column.visible && visibleCount === 1}
+                  onChange={(e) => update(column.id, { visible: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 border-slate-300 dark:border-slate-600"
+                />
+                <span className="flex-1 text-sm text-slate-700 dark:text-slate-200 truncate">{getLabel(column.id)}</span>
+                <input
+                  type="number"
+                  min={60}
+                  step={10}
+                  value={column.width ?? ''}
+                  onChange={(e) => update(column.id, { width: e.target.value ? Number(e.target.value) : undefined })}
+                  placeholder="Tự động"
+                  title="Độ rộng (px)"
+                  className="w-20 px-2 py-1 text-xs bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-md text-slate-700 dark:text-slate-200 outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button onClick={() => move(index, -1)} disabled={index === 0} className="p-1 text-slate-400 hover:text-blue-600 disabled:opacity-30" title="Lên">▲</button>
+                <button onClick={() => move(index, 1)} disabled={index === columns.length - 1} className="p-1 text-slate-400 hover:text-blue-600 disabled:opacity-30" title="Xuống">▼</button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { User } from '../types';
+import { searchAll, SearchResult, SearchResults } from '../services/search';
+
+interface CommandPaletteProps {
+  user: User;
+  onClose: () => void;
+  onOpen: (result: SearchResult) => void;
+}
+
+const GROUPS: { key: keyof SearchResults; label: string; icon: string }[] = [
+  { key: 'resources', label: 'Dữ liệu', icon: '📄' },
+  { key: 'projects', label: 'Dự án', icon: '🏗️' },
+  { key: 'users', label: 'Thành viên', icon: '👤' }
+];
+
+const EMPTY_RESULTS: SearchResults = { resources: [], projects: [], users: [] };
+
+// Global search (Ctrl+K): results grouped by type, arrow keys to move, Enter to open
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ user, onClose, onOpen }) => {
+  const [term, setTerm] = useState('');
+  const [results, setResults] = useState<SearchResults>(EMPTY_RESULTS);
+  const [searching, setSearching] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const searchIdRef = useRef(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const query = term.trim();
+    if (!query) {
+      setResults(EMPTY_RESULTS);
+      setSearching(false);
+      return;
+    }
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      const searchId = ++searchIdRef.current;
+      try {
+        const found = await searchAll(query, user);
+        if (searchId !== searchIdRef.current) return;
+        setResults(found);
+        setActiveIndex(0);
+      } catch (e) {
+        console.error(e);
+      } finally {
+        if (searchId === searchIdRef.current) setSearching(false);
+      }
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [term]);
+
+  // Flat list in display order, for keyboard navigation
+  const flatResults = GROUPS.flatMap(g => results[g.key]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => flatResults.length ? (i + 1) % flatResults.length : 0);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => flatResults.length ? (i - 1 + flatResults.length) % flatResults.length : 0);
+    } else if (e.key === 'Enter' && flatResults[activeIndex]) {
+      e.preventDefault();
+      onOpen(flatResults[activeIndex]);
+    }
+  };
+
+  let offset = 0;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-start justify-center p-4 pt-[10vh]">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-2xl bg-white dark:bg-slate-800 rounded-2xl shadow-2xl border border-slate-100 dark:border-slate-700 overflow-hidden animate-scale-in">
+        <div className="flex items-center gap-3 px-5 border-b border-slate-100 dark:border-slate-700">
+          <svg className="w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+          <input
+            autoFocus
+            type="text"
+            value={term}
+            onChange={(e) => setTerm(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Tìm dữ liệu, dự án, thành viên..."
+            className="flex-1 py-4 bg-transparent text-slate-800 dark:text-white placeholder-slate-400 outline-none"
+          />
+          {searching && <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>}
+          <kbd className="text-[10px] font-bold text-slate-400 border border-slate-200 dark:border-slate-600 rounded px-1.5 py-0.5">ESC</kbd>
+        </div>
+
+        <div ref={listRef} className="max-h-[60vh] overflow-y-auto p-2">
+          {term.trim() && !searching && flatResults.length === 0 && (
+            <p className="text-center text-sm text-slate-400 py-10">Không tìm thấy kết quả cho "{term.trim()}"</p>
+          )}
+          {!term.trim() && (
+            <p className="text-center text-sm text-slate-400 py-10">Nhập từ khóa để tìm trong tất cả danh mục, dự án và thành viên</p>
+          )}
+          {GROUPS.map(group => {
+            const items = results[group.key];
+            const start = offset;
+            offset += items.length;
+            if (items.length === 0) return null;
+            return (
+              <div key={group.key} className="mb-2">
+                <p className="px-3 pt-2 pb-1 text-[10px] font-extrabold text-slate-400 dark:text-slate-500 uppercase tracking-widest">{group.label}</p>
+                {items.map((result, i) => {
+                  const index = start + i;
+                  return (
+                    <button
+                      key={`${result.kind}-${result.id}`}
+                      data-index={index}
+                      onClick={() => onOpen(result)}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-left transition ${index === activeIndex ? 'bg-blue-50 dark:bg-blue-900/30' : ''}`}
+                    >
+                      <span className="text-lg flex-shrink-0">{group.icon}</span>
+                      <span className="flex-1 min-w-0">
+                        <span className={`block text-sm font-semibold truncate ${index === activeIndex ? 'text-blue-700 dark:text-blue-300' : 'text-slate-700 dark:text-slate-200'}`}>{result.title}</span>
+                        {result.subtitle && <span className="block text-xs text-slate-400 truncate">{result.subtitle}</span>}
+                      </span>
+                      {index === activeIndex && <span className="text-xs text-slate-400">↵</span>}
+                    </button>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
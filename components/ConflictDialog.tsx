@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { FieldDefinition, ResourceItem } from '../types';
+import { FieldConflict, MergeChoice, defaultMergeChoice } from '../services/conflicts';
+
+interface ConflictDialogProps {
+  theirs: ResourceItem; // the stored record, saved by someone else since the edit started
+  conflicts: FieldConflict[];
+  formatValue: (field: FieldDefinition, value: any) => string;
+  onMerge: (choices: Record<string, MergeChoice>) => Promise<void>;
+  onDiscard: () => void; // keep their version, drop my changes
+  onClose: () => void; // back to the form
+}
+
+// Shown when a save is rejected because the record changed meanwhile: pick my value or theirs per field
+export const ConflictDialog: React.FC<ConflictDialogProps> = ({ theirs, conflicts, formatValue, onMerge, onDiscard, onClose }) => {
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>(() =>
+    Object.fromEntries(conflicts.map(c => [c.field.key, defaultMergeChoice(c)])));
+  const [saving, setSaving] = useState(false);
+
+  const handleMerge = async () => {
+    setSaving(true);
+    try {
+      await onMerge(choices);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderValue = (field: FieldDefinition, value: any) =>
+    formatValue(field, value) || <span className="italic opacity-60">Trống</span>;
+
+  const optionClass = (selected: boolean) =>
+    `flex-1 text-left p-3 rounded-xl border text-sm break-words transition ${selected
+      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 ring-1 ring-blue-500'
+      : 'border-slate-200 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700/50'}`;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity" onClick={() => !saving && onClose()}></div>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col relative z-20 animate-scale-in border border-slate-100 dark:border-slate-700">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700">
+          <h3 className="text-xl font-bold text-slate-900 dark:text-white">Bản ghi đã được người khác cập nhật</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+            <b>{theirs.updatedBy || theirs.createdBy}</b> đã lưu bản ghi lúc {new Date(theirs.updatedAt ?? theirs.createdAt).toLocaleString('vi-VN')} trong khi bạn đang sửa.
+            Chọn giá trị giữ lại cho từng trường khác nhau.
+          </p>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          {conflicts.length === 0 && (
+            <p className="text-sm text-slate-500 dark:text-slate-400 italic">Dữ liệu của bạn trùng với phiên bản đã lưu, không có trường nào cần hợp nhất.</p>
+          )}
+          {conflicts.map(conflict => {
+            const key = conflict.field.key;
+            return (
+              <div key={conflict.field.id}>
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide">{conflict.field.name}</span>
+                  {conflict.mineChanged && conflict.theirsChanged && (
+                    <span className="px-2 py-0.5 rounded-md text-[10px] font-bold uppercase bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">Cả hai cùng sửa</span>
+                  )}
+                </div>
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <button type="button" onClick={() => setChoices(prev => ({ ...prev, [key]: 'mine' }))} className={optionClass(choices[key] === 'mine')}>
+                    <span className="block text-[10px] font-bold uppercase tracking-wider text-blue-600 dark:text-blue-400 mb-1">Thay đổi của bạn</span>
+                    <span className="text-slate-800 dark:text-slate-200">{renderValue(conflict.field, conflict.mine)}</span>
+                  </button>
+                  <button type="button" onClick={() => setChoices(prev => ({ ...prev, [key]: 'theirs' }))} className={optionClass(choices[key] === 'theirs')}>
+                    <span className="block text-[10px] font-bold uppercase tracking-wider text-emerald-600 dark:text-emerald-400 mb-1">Đã lưu bởi {theirs.updatedBy || theirs.createdBy}</span>
+                    <span className="text-slate-800 dark:text-slate-200">{renderValue(conflict.field, conflict.theirs)}</span>
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 dark:border-slate-700 flex flex-col-reverse sm:flex-row justify-between gap-3">
+          <button onClick={onDiscard} disabled={saving} className="px-4 py-2.5 text-red-600 dark:text-red-400 rounded-xl font-medium hover:bg-red-50 dark:hover:bg-red-900/20 transition disabled:opacity-50">
+            Bỏ thay đổi của tôi
+          </button>
+          <div className="flex flex-col-reverse sm:flex-row gap-3">
+            <button onClick={onClose} disabled={saving} className="px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-xl font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition disabled:opacity-50">
+              Tiếp tục sửa
+            </button>
+            <button
+              onClick={handleMerge}
+              disabled={saving}
+              className="px-6 py-2.5 bg-blue-600 text-white rounded-xl font-medium hover:bg-blue-700 shadow-lg shadow-blue-500/30 transition disabled:opacity-50"
+            >
+              {saving ? 'Đang lưu...' : 'Lưu bản hợp nhất'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Category } from '../types';
+import { ExportFormat } from '../services/dataExport';
+
+interface ExportDialogProps {
+  categories: Category[];
+  currentCategoryId: string;
+  onExport: (format: ExportFormat, categoryIds: string[]) => Promise<void>;
+  onClose: () => void;
+  selection?: { count: number; categoryCount: number }; // exports the selected records instead of categories
+}
+
+const FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'xlsx', label: 'Excel (.xlsx)', description: 'Ô có kiểu số, ngày tháng; mỗi danh mục một trang tính' },
+  { value: 'csv', label: 'CSV', description: 'Một danh mục, mở được bằng mọi phần mềm bảng tính' },
+  { value: 'json', label: 'JSON', description: 'Dữ liệu có cấu trúc cho các hệ thống khác' }
+];
+
+// Format and categories of an export. The current category is exported with the active filters and sort.
+export const ExportDialog: React.FC<ExportDialogProps> = ({ categories, currentCategoryId, onExport, onClose, selection }) => {
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [selectedIds, setSelectedIds] = useState<string[]>(currentCategoryId ? [currentCategoryId] : []);
+  const csvDisabled = !!selection && selection.categoryCount > 1; // one CSV file holds one category
+  const [exporting, setExporting] = useState(false);
+
+  const toggleCategory = (id: string) => {
+    if (format === 'csv') {
+      setSelectedIds([id]);
+      return;
+    }
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+  };
+
+  const handleFormat = (next: ExportFormat) => {
+    setFormat(next);
+    if (next === 'csv' && selectedIds.length > 1) setSelectedIds(selectedIds.includes(currentCategoryId) ? [currentCategoryId] : selectedIds.slice(0, 1));
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await onExport(format, categories.filter(c => selectedIds.includes(c.id)).map(c => c.id));
+      onClose();
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity" onClick={() => !exporting && onClose()}></div>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-hidden flex flex-col relative z-20 animate-scale-in border border-slate-100 dark:border-slate-700">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700">
+          <h3 className="text-xl font-bold text-slate-900 dark:text-white">{selection ? `Xuất ${selection.count} bản ghi đã chọn` : 'Xuất dữ liệu'}</h3>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-5">
+          <div className="space-y-2">
+            {FORMATS.map(f => (
+              <label key={f.value} className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition ${format === f.value ? 'border-blue-300 bg-blue-50 dark:border-blue-700 dark:bg-blue-900/20' : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50'} ${f.value === 'csv' && csvDisabled ? 'opacity-50 pointer-events-none' : ''}`}>
+                <input type="radio" name="export-format" checked={format === f.value} disabled={f.value === 'csv' && csvDisabled} onChange={() => handleFormat(f.value)} className="mt-1 w-4 h-4 text-blue-600 focus:ring-blue-500" />
+                <span>
+                  <span className="block text-sm font-semibold text-slate-800 dark:text-white">{f.label}</span>
+                  <span className="block text-xs text-slate-500 dark:text-slate-400">{f.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {!selection && <div>
+            <p className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-2">Danh mục</p>
+            <div className="max-h-56 overflow-y-auto space-y-1 pr-1">
+              {categories.map(c => (
+                <label key={c.id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700/50 cursor-pointer">
+                  <input
+                    type={format === 'csv' ? 'radio' : 'checkbox'}
+                    name="export-category"
+                    checked={selectedIds.includes(c.id)}
+                    onChange={() => toggleCategory(c.id)}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 border-slate-300"
+                  />
+                  <span className="flex-1 truncate">{c.name}</span>
+                  {c.id === currentCategoryId && <span className="text-[10px] font-bold text-blue-600 dark:text-blue-400 uppercase">Theo bộ lọc</span>}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400 mt-2">Danh mục đang xem được xuất theo bộ lọc và sắp xếp hiện tại, các danh mục khác được xuất toàn bộ.</p>
+          </div>}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 dark:border-slate-700 flex flex-col-reverse sm:flex-row justify-end gap-3">
+          <button onClick={onClose} disabled={exporting} className="px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-xl font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition disabled:opacity-50">
+            Hủy
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting || (!selection && selectedIds.length === 0)}
+            className="px-6 py-2.5 bg-emerald-600 text-white rounded-xl font-medium hover:bg-emerald-700 shadow-lg shadow-emerald-500/30 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {exporting ? 'Đang xuất...' : 'Xuất dữ liệu'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
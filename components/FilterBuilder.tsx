@@ -0,0 +1,159 @@
+import React from 'react';
+import { FilterCondition, FilterGroup, FilterNode, FilterOperator } from '../types';
+import { FilterFieldType, getFilterOperators, getOperatorLabel, createFilterCondition, createFilterGroup, isFilterGroupNode, isTimestampType } from '../services/filterBuilder';
+
+export interface FilterFieldOption {
+  key: string;
+  label: string;
+  type: FilterFieldType;
+}
+
+export interface FilterChoice {
+  value: string;
+  label: string;
+}
+
+interface FilterBuilderProps {
+  group: FilterGroup;
+  fields: FilterFieldOption[];
+  getChoices: (fieldKey: string) => FilterChoice[]; // options of select / user / project fields
+  // Replaces the list of choices of a field (null keeps it), e.g. a search for fields with many values
+  renderPicker?: (fieldKey: string, selected: string[], onChange: (values: string[]) => void) => React.ReactNode | null;
+  onChange: (group: FilterGroup) => void;
+}
+
+const MAX_DEPTH = 3;
+const CHOICE_TYPES: FilterFieldType[] = ['select', 'multiselect', 'user', 'project', 'reference'];
+
+const inputClass = "px-3 py-1.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg text-sm text-slate-700 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none transition";
+
+// Nested AND/OR condition editor
+export const FilterBuilder: React.FC<FilterBuilderProps> = ({ group, fields, getChoices, renderPicker, onChange }) => {
+  const getType = (fieldKey: string) => fields.find(f => f.key === fieldKey)?.type || 'text';
+
+  const renderValueInput = (condition: FilterCondition, update: (changes: Partial<FilterCondition>) => void) => {
+    const type = getType(condition.field);
+    const { op, value, value2 } = condition;
+    if (op === 'empty' || op === 'notEmpty') return null;
+
+    if (op === 'lastDays' || op === 'nextDays') {
+      return (
+        <div className="flex items-center gap-2">
+          <input type="number" min={0} value={value ?? ''} onChange={(e) => update({ value: e.target.value })} className={`${inputClass} w-24`} placeholder="30" />
+          <span className="text-sm text-slate-500">ngày</span>
+        </div>
+      );
+    }
+
+    if (op === 'in' && CHOICE_TYPES.includes(type)) {
+      const selected: string[] = Array.isArray(value) ? value : [];
+      const picker = renderPicker?.(condition.field, selected, values => update({ value: values }));
+      if (picker) return <div className="flex-1 min-w-[200px]">{picker}</div>;
+      const choices = getChoices(condition.field);
+      return (
+        <div className="flex flex-wrap items-center gap-1.5">
+          {selected.map(v => (
+            <span key={v} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs font-medium bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300 border border-blue-100 dark:border-blue-800">
+              {choices.find(c => c.value === v)?.label || v}
+              <button type="button" onClick={() => update({ value: selected.filter(s => s !== v) })} className="hover:text-red-500">&times;</button>
+            </span>
+          ))}
+          <select value="" onChange={(e) => e.target.value && update({ value: [...selected, e.target.value] })} className={inputClass}>
+            <option value="">+ Thêm giá trị</option>
+            {choices.filter(c => !selected.includes(c.value)).map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+          </select>
+        </div>
+      );
+    }
+
+    if (op === 'in') {
+      return <input type="text" value={Array.isArray(value) ? value.join(', ') : (value ?? '')} onChange={(e) => update({ value: e.target.value })} className={`${inputClass} flex-1 min-w-[160px]`} placeholder="Giá trị 1, giá trị 2..." />;
+    }
+
+    if (type === 'boolean') {
+      return (
+        <select value={value ?? ''} onChange={(e) => update({ value: e.target.value })} className={inputClass}>
+          <option value="">-- Chọn --</option>
+          <option value="true">Đúng / Có</option>
+          <option value="false">Sai / Không</option>
+        </select>
+      );
+    }
+
+    const inputType = type === 'number' ? 'number' : (type === 'date' || isTimestampType(type)) ? 'date' : 'text';
+    if (op === 'between') {
+      return (
+        <div className="flex items-center gap-2">
+          <input type={inputType} value={value ?? ''} onChange={(e) => update({ value: e.target.value })} className={`${inputClass} w-36`} />
+          <span className="text-slate-400">-</span>
+          <input type={inputType} value={value2 ?? ''} onChange={(e) => update({ value2: e.target.value })} className={`${inputClass} w-36`} />
+        </div>
+      );
+    }
+    return <input type={inputType} value={value ?? ''} onChange={(e) => update({ value: e.target.value })} className={`${inputClass} flex-1 min-w-[160px]`} placeholder="Giá trị..." />;
+  };
+
+  const renderCondition = (condition: FilterCondition, update: (node: FilterNode) => void, remove: () => void) => {
+    const type = getType(condition.field);
+    const patch = (changes: Partial<FilterCondition>) => update({ ...condition, ...changes });
+    return (
+      <div key={condition.id} className="flex flex-wrap items-center gap-2">
+        <select
+          value={condition.field}
+          onChange={(e) => {
+            const next = fields.find(f => f.key === e.target.value);
+            if (next) update({ ...createFilterCondition(next.key, next.type), id: condition.id });
+          }}
+          className={inputClass}
+        >
+          {fields.map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+        </select>
+        <select value={condition.op} onChange={(e) => patch({ op: e.target.value as FilterOperator, value: undefined, value2: undefined })} className={inputClass}>
+          {getFilterOperators(type).map(op => <option key={op} value={op}>{getOperatorLabel(op, type)}</option>)}
+        </select>
+        {renderValueInput(condition, patch)}
+        <button type="button" onClick={remove} className="p-1.5 text-slate-400 hover:text-red-600 rounded-lg transition" title="Xóa điều kiện">&times;</button>
+      </div>
+    );
+  };
+
+  const renderGroup = (current: FilterGroup, update: (node: FilterNode) => void, remove: (() => void) | null, depth: number): React.ReactNode => {
+    const setItems = (items: FilterNode[]) => update({ ...current, items });
+    const addCondition = () => {
+      if (fields.length === 0) return;
+      setItems([...current.items, createFilterCondition(fields[0].key, fields[0].type)]);
+    };
+    return (
+      <div key={current.id} className={`space-y-2 ${depth > 0 ? 'pl-4 py-2 border-l-2 border-blue-200 dark:border-blue-800' : ''}`}>
+        <div className="flex items-center gap-2">
+          <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-600 overflow-hidden text-xs font-bold">
+            {(['and', 'or'] as const).map(combinator => (
+              <button
+                key={combinator}
+                type="button"
+                onClick={() => update({ ...current, combinator })}
+                className={`px-3 py-1 transition ${current.combinator === combinator ? 'bg-blue-600 text-white' : 'bg-white dark:bg-slate-700 text-slate-500 dark:text-slate-300'}`}
+              >
+                {combinator === 'and' ? 'TẤT CẢ (VÀ)' : 'BẤT KỲ (HOẶC)'}
+              </button>
+            ))}
+          </div>
+          {remove && <button type="button" onClick={remove} className="text-xs text-red-500 hover:underline">Xóa nhóm</button>}
+        </div>
+        {current.items.map((node, index) => {
+          const replace = (next: FilterNode) => setItems(current.items.map((item, i) => i === index ? next : item));
+          const drop = () => setItems(current.items.filter((_, i) => i !== index));
+          return isFilterGroupNode(node) ? renderGroup(node, replace, drop, depth + 1) : renderCondition(node, replace, drop);
+        })}
+        <div className="flex gap-3">
+          <button type="button" onClick={addCondition} className="text-xs font-bold text-blue-600 dark:text-blue-400 hover:underline">+ Điều kiện</button>
+          {depth < MAX_DEPTH - 1 && (
+            <button type="button" onClick={() => setItems([...current.items, createFilterGroup(current.combinator === 'and' ? 'or' : 'and')])} className="text-xs font-bold text-blue-600 dark:text-blue-400 hover:underline">+ Nhóm điều kiện</button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return <>{renderGroup(group, (node) => onChange(node as FilterGroup), null, 0)}</>;
+};
@@ -0,0 +1,513 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Category, FieldDefinition, ResourceItem, User, PERMISSIONS } from '../types';
+import { dataService, generateUUID, ImportCounts } from '../services/storage';
+import { CSV_DELIMITERS, CSV_ENCODINGS, CsvEncoding, decodeText, detectDelimiter, parseCSV } from '../services/csv';
+import { downloadCSV } from '../services/dataExport';
+import { readXlsx } from '../services/xlsx';
+import { DENIED_CREATE, DENIED_DELETE, DENIED_EDIT } from '../services/bulkActions';
+import { ColumnMapping, ImportContext, ImportRow, ReferenceCandidate, ImportSheet, ImportPlan, ImportAction, RECORD_ID_COLUMN, getImportableFields, getMappedColumns, suggestMapping, prepareImport, summarizeImport, buildErrorReport, jsonToSheets, getReferenceValues } from '../services/dataImport';
+
+interface ImportWizardProps {
+  category: Category;
+  currentUser: User;
+  context: Omit<ImportContext, 'getReferenceCandidates'>;
+  // Records named by the values of a reference column (titles or ids), looked up before the dry run
+  findReferenceCandidates: (field: FieldDefinition, values: string[]) => Promise<ReferenceCandidate[]>;
+  onClose: () => void;
+  onImported: (count: number) => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview' | 'import';
+type FileKind = 'csv' | 'xlsx' | 'json';
+
+const STEPS: { key: Step; label: string }[] = [
+  { key: 'upload', label: 'Tải tệp' },
+  { key: 'mapping', label: 'Ghép cột' },
+  { key: 'preview', label: 'Kiểm tra' },
+  { key: 'import', label: 'Nhập dữ liệu' }
+];
+
+const BATCH_SIZE = 100;
+const PREVIEW_ROWS = 20;
+
+const ACTION_LABELS: Record<ImportAction, { label: string; className: string }> = {
+  create: { label: 'Tạo mới', className: 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300' },
+  update: { label: 'Cập nhật', className: 'bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' },
+  unchanged: { label: 'Không đổi', className: 'bg-slate-100 text-slate-500 dark:bg-slate-700 dark:text-slate-400' }
+};
+
+interface ImportResult extends Omit<ImportCounts, 'rejected'> {
+  rejected: { row: ImportRow; message: string }[];
+}
+
+const getFileKind = (fileName: string): FileKind => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.xlsx')) return 'xlsx';
+  if (name.endsWith('.json')) return 'json';
+  return 'csv';
+};
+
+// Import from CSV, Excel or JSON in four steps: file options, column mapping, dry run with the first rows
+// previewed, batched import
+export const ImportWizard: React.FC<ImportWizardProps> = ({ category, currentUser, context, findReferenceCandidates, onClose, onImported }) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [fileKind, setFileKind] = useState<FileKind>('csv');
+  const [buffer, setBuffer] = useState<ArrayBuffer | null>(null);
+  const [workbook, setWorkbook] = useState<ImportSheet[]>([]); // sheets of an Excel file
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [encoding, setEncoding] = useState<CsvEncoding>('utf-8');
+  const [delimiter, setDelimiter] = useState(',');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [keyField, setKeyField] = useState<string>(''); // '' = always create
+  const [deleteMissing, setDeleteMissing] = useState(false);
+  const [plan, setPlan] = useState<ImportPlan>({ rows: [], deleteIds: [] });
+  const existingRef = useRef<Map<string, ResourceItem>>(new Map()); // records loaded by the dry run, by id
+  const [checking, setChecking] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState('');
+
+  const text = useMemo(() => buffer && fileKind !== 'xlsx' ? decodeText(buffer, encoding) : '', [buffer, fileKind, encoding]);
+  const json = useMemo((): { sheets: ImportSheet[]; error?: string } => {
+    if (fileKind !== 'json' || !text) return { sheets: [] };
+    try {
+      return { sheets: jsonToSheets(text) };
+    } catch (e: any) {
+      return { sheets: [], error: e.message };
+    }
+  }, [fileKind, text]);
+  const sheets = fileKind === 'xlsx' ? workbook : json.sheets;
+  const table = useMemo(
+    () => fileKind === 'csv' ? (text ? parseCSV(text, delimiter) : []) : (sheets[sheetIndex]?.rows || []),
+    [fileKind, text, delimiter, sheets, sheetIndex]
+  );
+  const columnCount = table.reduce((max, r) => Math.max(max, r.length), 0);
+  const headers = useMemo(
+    () => Array.from({ length: columnCount }, (_, i) => (hasHeader ? table[0]?.[i]?.trim() : '') || `Cột ${i + 1}`),
+    [table, columnCount, hasHeader]
+  );
+  const dataRows = hasHeader ? table.slice(1) : table;
+  const fields = getImportableFields(category);
+  const mappedCount = Object.keys(mapping).length;
+  const summary = useMemo(() => summarizeImport(plan), [plan]);
+  const rows = plan.rows;
+  const changeCount = summary.created + summary.updated + summary.deleted;
+  const keyOptions = getMappedColumns(mapping).map(c => c.key);
+  const importing = step === 'import' && !result;
+
+  // New file or options: start the mapping over from the suggestions
+  useEffect(() => {
+    const suggested = hasHeader ? suggestMapping(headers, category) : {};
+    setMapping(suggested);
+    setKeyField(Object.values(suggested).includes(RECORD_ID_COLUMN) ? RECORD_ID_COLUMN : '');
+  }, [headers]);
+
+  // The key must stay a mapped column
+  useEffect(() => {
+    if (keyField && !keyOptions.includes(keyField)) setKeyField('');
+  }, [mapping]);
+
+  useEffect(() => {
+    if (!keyField) setDeleteMissing(false);
+  }, [keyField]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const kind = getFileKind(file.name);
+    const reader = new FileReader();
+    reader.onload = async () => {
+      const content = reader.result as ArrayBuffer;
+      setError('');
+      setSheetIndex(0);
+      try {
+        setWorkbook(kind === 'xlsx' ? await readXlsx(content) : []);
+      } catch (err: any) {
+        setError(err.message);
+        return;
+      }
+      setFileName(file.name);
+      setFileKind(kind);
+      setBuffer(content);
+      if (kind === 'csv') setDelimiter(detectDelimiter(decodeText(content, encoding)));
+      if (kind === 'json') setHasHeader(true); // keys of the records
+    };
+    reader.onerror = () => setError('Không đọc được tệp');
+    reader.readAsArrayBuffer(file);
+  };
+
+  const setColumnField = (index: number, key: string) => {
+    setMapping(prev => {
+      const next: ColumnMapping = {};
+      // A field receives one column only
+      getMappedColumns(prev).forEach(c => { if (c.key !== key) next[c.index] = c.key; });
+      if (key) next[index] = key;
+      return next;
+    });
+  };
+
+  const handleCheck = async () => {
+    setChecking(true);
+    setError('');
+    try {
+      const existing: ResourceItem[] = keyField || category.fields.some(f => f.validation?.unique)
+        ? await dataService.getResources(category.id)
+        : [];
+      existingRef.current = new Map(existing.map(r => [r.id, r]));
+      const referenceValues = getReferenceValues(dataRows, mapping, category);
+      const referenceKeys = Object.keys(referenceValues);
+      const candidates = await Promise.all(referenceKeys.map(key => findReferenceCandidates(category.fields.find(f => f.key === key)!, referenceValues[key])));
+      const importContext: ImportContext = {
+        ...context,
+        getReferenceCandidates: field => candidates[referenceKeys.indexOf(field.key)] || []
+      };
+      setPlan(prepareImport(dataRows, mapping, importContext, existing, { keyField: keyField || null, deleteMissing, firstRowNumber: hasHeader ? 2 : 1 }));
+      setStep('preview');
+    } catch (e: any) {
+      setError('Lỗi kiểm tra dữ liệu: ' + e.message);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setStep('import');
+    setProgress(0);
+    const rejected = rows
+      .filter(r => Object.keys(r.errors).length > 0)
+      .map(row => ({ row, message: Object.values(row.errors).join('; ') }));
+    // Updates and deletions follow the category permissions of the existing records;
+    // new rows of member-only categories must link one of the user's projects
+    const canSave = (row: ImportRow) => {
+      const previous = row.targetId ? existingRef.current.get(row.targetId) : undefined;
+      if (previous) return PERMISSIONS.canEditResource(currentUser, previous, category);
+      return PERMISSIONS.canCreateResource(currentUser, category, { id: '', categoryId: category.id, data: row.data, createdBy: currentUser.username, createdAt: 0 });
+    };
+    const valid = rows.filter(r => Object.keys(r.errors).length === 0 && r.action !== 'unchanged');
+    valid.filter(r => !canSave(r)).forEach(row => rejected.push({ row, message: row.targetId ? DENIED_EDIT : DENIED_CREATE }));
+    const toSave = valid.filter(canSave);
+    const toDelete = plan.deleteIds
+      .map(id => existingRef.current.get(id))
+      .filter((r): r is ResourceItem => !!r && PERMISSIONS.canDeleteResource(currentUser, r, category));
+    if (toDelete.length < plan.deleteIds.length) setError(`${DENIED_DELETE}: bỏ qua ${plan.deleteIds.length - toDelete.length} bản ghi không có trong tệp`);
+    const counts = { created: 0, updated: 0, unchanged: summary.unchanged, deleted: 0 };
+
+    for (let start = 0; start < toSave.length; start += BATCH_SIZE) {
+      const batch = toSave.slice(start, start + BATCH_SIZE);
+      const now = Date.now();
+      const newIds: string[] = [];
+      try {
+        await dataService.saveResources(batch.map((row, i) => {
+          const previous = row.targetId ? existingRef.current.get(row.targetId) : undefined;
+          if (previous) return { ...previous, data: row.data };
+          const id = generateUUID();
+          newIds.push(id);
+          return {
+            id,
+            categoryId: category.id,
+            data: row.data,
+            createdBy: currentUser.username,
+            createdAt: now + i // keeps the file order when sorting by creation time
+          };
+        }), { savedBy: currentUser.username, note: 'Nhập dữ liệu', newIds });
+        batch.forEach(row => { counts[row.action === 'create' ? 'created' : 'updated']++; });
+      } catch (e: any) {
+        // The batch was rolled back, its rows go to the error report
+        batch.forEach(row => rejected.push({ row, message: 'Lỗi lưu dữ liệu: ' + e.message }));
+      }
+      setProgress(Math.min(start + BATCH_SIZE, toSave.length));
+    }
+
+    for (let start = 0; start < toDelete.length; start += BATCH_SIZE) {
+      const batch = toDelete.slice(start, start + BATCH_SIZE);
+      try {
+        await dataService.deleteResources(batch, currentUser.username);
+        counts.deleted += batch.length;
+      } catch (e: any) {
+        setError('Lỗi xóa bản ghi không có trong tệp: ' + e.message);
+        break;
+      }
+      setProgress(toSave.length + Math.min(start + BATCH_SIZE, toDelete.length));
+    }
+
+    rejected.sort((a, b) => a.row.rowNumber - b.row.rowNumber);
+    setResult({ ...counts, rejected });
+    dataService.logImport(category, { ...counts, rejected: rejected.length });
+    const changed = counts.created + counts.updated + counts.deleted;
+    if (changed > 0) onImported(changed);
+  };
+
+  const handleDownloadReport = () => {
+    if (!result) return;
+    downloadCSV(`${category.name}_Loi_nhap_${new Date().toISOString().slice(0, 10)}.csv`, buildErrorReport(headers, result.rejected));
+  };
+
+  const getFieldName = (key: string) => key === RECORD_ID_COLUMN ? 'ID bản ghi' : (category.fields.find(f => f.key === key)?.name || key);
+
+  const selectClass = "px-3 py-2 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg text-sm text-slate-700 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none transition";
+  const labelClass = "block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-1.5";
+  const secondaryButton = "px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-xl font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition disabled:opacity-50";
+  const primaryButton = "px-6 py-2.5 bg-blue-600 text-white rounded-xl font-medium hover:bg-blue-700 shadow-lg shadow-blue-500/30 transition disabled:opacity-50 disabled:cursor-not-allowed";
+
+  const renderUpload = () => (
+    <div className="space-y-5">
+      <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed border-slate-300 dark:border-slate-600 rounded-2xl cursor-pointer hover:border-blue-400 hover:bg-blue-50/40 dark:hover:bg-blue-900/10 transition">
+        <svg className="w-10 h-10 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m-4-4v12" /></svg>
+        <span className="text-sm font-semibold text-slate-700 dark:text-slate-200">{fileName || 'Chọn tệp CSV, Excel hoặc JSON'}</span>
+        <span className="text-xs text-slate-400">{buffer ? `${dataRows.length} dòng dữ liệu, ${columnCount} cột` : 'Tệp .csv, .xlsx hoặc .json'}</span>
+        <input type="file" accept=".csv,.txt,.xlsx,.json,text/csv,application/json" onChange={handleFile} className="hidden" />
+      </label>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {sheets.length > 1 && (
+          <div>
+            <label className={labelClass}>{fileKind === 'xlsx' ? 'Trang tính' : 'Danh sách'}</label>
+            <select value={sheetIndex} onChange={(e) => setSheetIndex(Number(e.target.value))} className={`${selectClass} w-full`}>
+              {sheets.map((sheet, i) => <option key={i} value={i}>{sheet.name} ({Math.max(0, sheet.rows.length - 1)} dòng)</option>)}
+            </select>
+          </div>
+        )}
+        {fileKind === 'csv' && (
+          <div>
+            <label className={labelClass}>Dấu phân cách</label>
+            <select value={delimiter} onChange={(e) => setDelimiter(e.target.value)} className={`${selectClass} w-full`}>
+              {CSV_DELIMITERS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+            </select>
+          </div>
+        )}
+        {fileKind !== 'xlsx' && (
+          <div>
+            <label className={labelClass}>Bảng mã</label>
+            <select value={encoding} onChange={(e) => setEncoding(e.target.value as CsvEncoding)} className={`${selectClass} w-full`}>
+              {CSV_ENCODINGS.map(enc => <option key={enc.value} value={enc.value}>{enc.label}</option>)}
+            </select>
+          </div>
+        )}
+        {fileKind !== 'json' && (
+          <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer sm:pt-6">
+            <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 border-slate-300" />
+            Dòng đầu là tiêu đề
+          </label>
+        )}
+      </div>
+      {json.error && <p className="text-sm text-red-600 dark:text-red-400">{json.error}</p>}
+      {table.length > 0 && (
+        <div className="overflow-x-auto rounded-xl border border-slate-100 dark:border-slate-700">
+          <table className="w-full text-xs">
+            <tbody>
+              {table.slice(0, 4).map((r, i) => (
+                <tr key={i} className={`border-b border-slate-100 dark:border-slate-700 last:border-0 ${i === 0 && hasHeader ? 'font-bold bg-slate-50 dark:bg-slate-900/40' : ''}`}>
+                  {Array.from({ length: columnCount }, (_, c) => <td key={c} className="px-3 py-2 text-slate-600 dark:text-slate-300 whitespace-nowrap max-w-[200px] truncate">{r[c]}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderMapping = () => (
+    <div className="space-y-3">
+      <p className="text-sm text-slate-500 dark:text-slate-400">Chọn trường nhận dữ liệu cho từng cột. Các cột được gợi ý theo tên; cột không ghép sẽ bị bỏ qua.</p>
+      {headers.map((header, index) => {
+        const sample = dataRows.slice(0, 3).map(r => r[index]).filter(v => v && v.trim()).join(' · ');
+        return (
+          <div key={index} className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-xl bg-slate-50 dark:bg-slate-900/40 border border-slate-100 dark:border-slate-700">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-semibold text-slate-700 dark:text-slate-200 truncate">{header}</p>
+              <p className="text-xs text-slate-400 truncate">{sample || 'Trống'}</p>
+            </div>
+            <span className="hidden sm:block text-slate-400">→</span>
+            <select value={mapping[index] || ''} onChange={(e) => setColumnField(index, e.target.value)} className={`${selectClass} sm:w-64 ${mapping[index] ? '' : 'text-slate-400'}`}>
+              <option value="">-- Bỏ qua cột này --</option>
+              <option value={RECORD_ID_COLUMN}>ID bản ghi (để đối chiếu)</option>
+              {fields.map(f => <option key={f.key} value={f.key}>{f.name}{f.required ? ' *' : ''}</option>)}
+            </select>
+          </div>
+        );
+      })}
+      {fields.filter(f => f.required && !Object.values(mapping).includes(f.key)).length > 0 && (
+        <p className="text-xs text-amber-600 dark:text-amber-400">
+          Trường bắt buộc chưa được ghép: {fields.filter(f => f.required && !Object.values(mapping).includes(f.key)).map(f => f.name).join(', ')}
+        </p>
+      )}
+      <div className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 space-y-3">
+        <div>
+          <label className={labelClass}>Đối chiếu với dữ liệu hiện có</label>
+          <select value={keyField} onChange={(e) => setKeyField(e.target.value)} className={`${selectClass} w-full sm:w-auto`}>
+            <option value="">Không đối chiếu - luôn tạo bản ghi mới</option>
+            {keyOptions.map(key => <option key={key} value={key}>Theo {getFieldName(key)}</option>)}
+          </select>
+          <p className="text-xs text-slate-400 mt-1.5">
+            {keyField
+              ? 'Dòng có khóa trùng với bản ghi hiện có sẽ cập nhật bản ghi đó (chỉ các cột đã ghép), các dòng khác tạo bản ghi mới.'
+              : 'Chọn một cột đã ghép (ví dụ mã tài sản hoặc cột ID của tệp xuất) để cập nhật thay vì tạo bản ghi trùng.'}
+          </p>
+        </div>
+        {keyField && (
+          <label className="flex items-start gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={deleteMissing} onChange={(e) => setDeleteMissing(e.target.checked)} className="mt-0.5 w-4 h-4 text-red-600 rounded focus:ring-red-500 border-slate-300" />
+            <span>
+              Xóa các bản ghi không có trong tệp
+              <span className="block text-xs text-red-500">Bản ghi của danh mục có khóa không xuất hiện trong tệp sẽ bị xóa.</span>
+            </span>
+          </label>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderPreview = () => {
+    const mappedColumns = getMappedColumns(mapping);
+    return (
+      <div className="space-y-5">
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+          {[
+            { label: 'Tạo mới', value: summary.created, className: 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-100 dark:border-emerald-800 text-emerald-700 dark:text-emerald-300' },
+            { label: 'Cập nhật', value: summary.updated, className: 'bg-blue-50 dark:bg-blue-900/20 border-blue-100 dark:border-blue-800 text-blue-700 dark:text-blue-300' },
+            { label: 'Không đổi', value: summary.unchanged, className: 'bg-slate-50 dark:bg-slate-900/40 border-slate-100 dark:border-slate-700 text-slate-700 dark:text-slate-200' },
+            { label: 'Sẽ xóa', value: summary.deleted, className: 'bg-orange-50 dark:bg-orange-900/20 border-orange-100 dark:border-orange-800 text-orange-700 dark:text-orange-300' },
+            { label: 'Bị từ chối', value: summary.invalid, className: 'bg-red-50 dark:bg-red-900/20 border-red-100 dark:border-red-800 text-red-700 dark:text-red-300' }
+          ].map(card => (
+            <div key={card.label} className={`p-4 rounded-xl border ${card.className}`}>
+              <p className="text-xs opacity-80">{card.label}</p>
+              <p className="text-2xl font-bold">{card.value}</p>
+            </div>
+          ))}
+        </div>
+        {summary.invalid > 0 && (
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Lỗi theo trường: {Object.entries(summary.errorsByField).map(([key, count]) => `${getFieldName(key)} (${count})`).join(', ')}
+          </p>
+        )}
+        <div className="overflow-x-auto rounded-xl border border-slate-100 dark:border-slate-700">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 dark:bg-slate-900/40">
+              <tr>
+                <th className="px-3 py-2 text-left font-bold text-slate-500">Dòng</th>
+                <th className="px-3 py-2 text-left font-bold text-slate-500">Thao tác</th>
+                {mappedColumns.map(c => <th key={c.index} className="px-3 py-2 text-left font-bold text-slate-500 whitespace-nowrap">{getFieldName(c.key)}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.slice(0, PREVIEW_ROWS).map(row => {
+                const invalid = Object.keys(row.errors).length > 0;
+                return (
+                  <tr key={row.rowNumber} className={`border-t border-slate-100 dark:border-slate-700 ${invalid ? 'bg-red-50/50 dark:bg-red-900/10' : ''}`}>
+                    <td className={`px-3 py-2 font-mono ${invalid ? 'text-red-600' : 'text-slate-400'}`}>{row.rowNumber}</td>
+                    <td className="px-3 py-2">
+                      {invalid
+                        ? <span className="px-2 py-0.5 rounded-md font-semibold bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">Lỗi</span>
+                        : <span className={`px-2 py-0.5 rounded-md font-semibold ${ACTION_LABELS[row.action].className}`}>{ACTION_LABELS[row.action].label}</span>}
+                    </td>
+                    {mappedColumns.map(c => {
+                      const cellError = row.errors[c.key];
+                      return (
+                        <td key={c.index} title={cellError} className={`px-3 py-2 whitespace-nowrap max-w-[200px] truncate ${cellError ? 'text-red-700 dark:text-red-300 font-semibold bg-red-100/70 dark:bg-red-900/30' : 'text-slate-600 dark:text-slate-300'}`}>
+                          {row.cells[c.index] || (cellError ? <span className="italic font-normal">trống</span> : '')}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        {rows.length > PREVIEW_ROWS && <p className="text-xs text-slate-400">Hiển thị {PREVIEW_ROWS}/{rows.length} dòng đầu tiên. Di chuột lên ô màu đỏ để xem lỗi.</p>}
+      </div>
+    );
+  };
+
+  const renderImport = () => {
+    if (!result) {
+      return (
+        <div className="py-8 space-y-3 text-center">
+          <p className="text-sm text-slate-600 dark:text-slate-300">Đang xử lý {progress}/{changeCount} bản ghi...</p>
+          <div className="h-2 rounded-full bg-slate-100 dark:bg-slate-700 overflow-hidden">
+            <div className="h-full bg-blue-600 transition-all" style={{ width: `${changeCount ? (progress / changeCount) * 100 : 100}%` }}></div>
+          </div>
+        </div>
+      );
+    }
+    return (
+      <div className="py-6 space-y-4 text-center">
+        <p className="text-4xl">{result.rejected.length === 0 ? '✅' : '⚠️'}</p>
+        <p className="text-lg font-bold text-slate-800 dark:text-white">Đã xử lý {summary.total} dòng</p>
+        <p className="text-sm text-slate-600 dark:text-slate-300">
+          Tạo mới {result.created} · Cập nhật {result.updated} · Không đổi {result.unchanged} · Đã xóa {result.deleted}
+        </p>
+        {result.rejected.length > 0 && (
+          <>
+            <p className="text-sm text-slate-500 dark:text-slate-400">{result.rejected.length} dòng bị từ chối. Tải báo cáo lỗi để sửa và nhập lại các dòng này.</p>
+            <button onClick={handleDownloadReport} className="px-5 py-2.5 rounded-xl border border-red-200 text-red-600 bg-red-50 hover:bg-red-100 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400 font-semibold transition">
+              Tải báo cáo lỗi (CSV)
+            </button>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const stepIndex = STEPS.findIndex(s => s.key === step);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity" onClick={() => !importing && onClose()}></div>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col relative z-20 animate-scale-in border border-slate-100 dark:border-slate-700">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700 space-y-4">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 dark:text-white">Nhập dữ liệu</h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Danh mục: {category.name}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {STEPS.map((s, i) => (
+              <React.Fragment key={s.key}>
+                {i > 0 && <div className={`flex-1 h-0.5 ${i <= stepIndex ? 'bg-blue-500' : 'bg-slate-200 dark:bg-slate-700'}`}></div>}
+                <div className={`flex items-center gap-2 text-xs font-semibold ${i <= stepIndex ? 'text-blue-600 dark:text-blue-400' : 'text-slate-400'}`}>
+                  <span className={`w-6 h-6 rounded-full flex items-center justify-center ${i <= stepIndex ? 'bg-blue-600 text-white' : 'bg-slate-100 dark:bg-slate-700'}`}>{i + 1}</span>
+                  <span className="hidden sm:inline">{s.label}</span>
+                </div>
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          {step === 'upload' && renderUpload()}
+          {step === 'mapping' && renderMapping()}
+          {step === 'preview' && renderPreview()}
+          {step === 'import' && renderImport()}
+          {error && <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 dark:border-slate-700 flex flex-col-reverse sm:flex-row justify-end gap-3">
+          {step === 'import' ? (
+            <button onClick={onClose} disabled={importing} className={primaryButton}>Đóng</button>
+          ) : (
+            <>
+              <button onClick={step === 'upload' ? onClose : () => setStep(STEPS[stepIndex - 1].key)} disabled={checking} className={secondaryButton}>
+                {step === 'upload' ? 'Hủy' : 'Quay lại'}
+              </button>
+              {step === 'upload' && (
+                <button onClick={() => setStep('mapping')} disabled={dataRows.length === 0} className={primaryButton}>Tiếp tục</button>
+              )}
+              {step === 'mapping' && (
+                <button onClick={handleCheck} disabled={checking || mappedCount === 0} className={primaryButton}>
+                  {checking ? 'Đang kiểm tra...' : 'Kiểm tra dữ liệu'}
+                </button>
+              )}
+              {step === 'preview' && (
+                <button onClick={handleImport} disabled={changeCount === 0} className={primaryButton}>
+                  Thực hiện {changeCount} thay đổi
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
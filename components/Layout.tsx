@@ -1,6 +1,10 @@
 
-import React, { useState } from 'react';
-import { User, PERMISSIONS, SystemConfig } from '../types';
+import React, { useState, useEffect } from 'react';
+import { User, PERMISSIONS, SystemConfig, RoleDefinition, BUILT_IN_ROLES, getUserRoles } from '../types';
+import { CommandPalette } from './CommandPalette';
+import { SearchResult } from '../services/search';
+import { roleService } from '../services/storage';
+import { getRoleName } from '../services/roles';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -11,6 +15,7 @@ interface LayoutProps {
   isDarkMode: boolean;
   toggleTheme: () => void;
   systemConfig: SystemConfig;
+  onSearchResult: (result: SearchResult) => void;
 }
 
 interface NavItemProps {
@@ -43,8 +48,33 @@ const NavItem: React.FC<NavItemProps> = ({ item, isMobile = false, isActive, onC
   );
 };
 
-export const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, currentPage, onNavigate, isDarkMode, toggleTheme, systemConfig }) => {
+export const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, currentPage, onNavigate, isDarkMode, toggleTheme, systemConfig, onSearchResult }) => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [roles, setRoles] = useState<RoleDefinition[]>(BUILT_IN_ROLES);
+
+  // Names of custom roles for the user card
+  useEffect(() => {
+    roleService.getAll().then(setRoles).catch(e => console.error(e));
+  }, [user]);
+
+  // Ctrl+K / Cmd+K toggles the global search
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen(open => !open);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleSearchResult = (result: SearchResult) => {
+    setIsSearchOpen(false);
+    setIsMobileMenuOpen(false);
+    onSearchResult(result);
+  };
 
   const menuItems = [
     { id: 'dashboard', label: 'Tổng quan', icon: (
@@ -64,32 +94,36 @@ export const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, curren
     )});
   }
 
-  if (user.role === 'admin') {
-      menuItems.push({ id: 'users', label: 'Thành viên', icon: (
-        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" /></svg>
-      )});
-      
-      // Add Activity Log
-      menuItems.push({ id: 'activity', label: 'Nhật ký hoạt động', icon: (
-        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
-      )});
+  if (PERMISSIONS.canManageUsers(user)) {
+    menuItems.push({ id: 'users', label: 'Thành viên', icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" /></svg>
+    )});
+  }
+
+  if (PERMISSIONS.canViewAuditLog(user)) {
+    menuItems.push({ id: 'activity', label: 'Nhật ký hoạt động', icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+    )});
+  }
 
-      menuItems.push({ id: 'settings', label: 'Cấu hình', icon: (
-        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
-      )});
+  if (PERMISSIONS.canManageSettings(user)) {
+    menuItems.push({ id: 'trash', label: 'Thùng rác', icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+    )});
+
+    menuItems.push({ id: 'settings', label: 'Cấu hình', icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+    )});
   }
 
-  const roleColors = {
+  const roleColors: Record<string, string> = {
       admin: 'bg-amber-400',
       manager: 'bg-purple-400',
       user: 'bg-emerald-400'
   };
+  const roleColor = roleColors[user.role] || 'bg-sky-400';
 
-  const roleLabels = {
-      admin: 'Admin',
-      manager: 'Quản lý',
-      user: 'Nhân viên'
-  };
+  const roleLabel = getUserRoles(user).map(role => getRoleName(roles, role)).join(', ');
 
   const renderAvatar = () => {
     if (user.avatarUrl) {
@@ -122,6 +156,18 @@ export const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, curren
             </div>
         </div>
         
+        {/* Global Search */}
+        <div className="px-4 pt-5">
+            <button
+                onClick={() => setIsSearchOpen(true)}
+                className="w-full flex items-center gap-3 px-4 py-2.5 rounded-xl bg-slate-100/80 dark:bg-slate-800/80 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 border border-transparent hover:border-slate-200 dark:hover:border-slate-700 transition text-sm"
+            >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+                <span className="flex-1 text-left">Tìm kiếm...</span>
+                <kbd className="text-[10px] font-bold border border-slate-200 dark:border-slate-600 rounded px-1.5 py-0.5">Ctrl K</kbd>
+            </button>
+        </div>
+
         {/* Nav Items */}
         <nav className="flex-1 px-4 py-6 space-y-1.5 overflow-y-auto">
           {menuItems.map((item) => (
@@ -147,8 +193,8 @@ export const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, curren
                         {user.fullName || user.username}
                     </p>
                     <div className="flex items-center mt-0.5">
-                        <span className={`w-1.5 h-1.5 rounded-full mr-1.5 ${roleColors[user.role]}`}></span>
-                        <p className="text-xs text-slate-500 dark:text-slate-400 capitalize">{roleLabels[user.role]}</p>
+                        <span className={`w-1.5 h-1.5 rounded-full mr-1.5 ${roleColor}`}></span>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 capitalize">{roleLabel}</p>
                     </div>
                 </div>
                 <svg className="w-4 h-4 text-slate-400 group-hover:text-slate-600 dark:group-hover:text-slate-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -188,6 +234,9 @@ export const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, curren
             <span className="font-bold text-slate-800 dark:text-white truncate max-w-[150px]">{systemConfig.siteName}</span>
          </div>
          <div className="flex items-center gap-2">
+             <button onClick={() => setIsSearchOpen(true)} className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-lg text-slate-600 dark:text-slate-300 active:scale-95" title="Tìm kiếm">
+                 <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+             </button>
              <button onClick={toggleTheme} className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-lg text-slate-600 dark:text-slate-300 active:scale-95">
                  {isDarkMode ? '🌙' : '☀️'}
              </button>
@@ -237,7 +286,7 @@ export const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, curren
                         </div>
                         <div className="flex-1 min-w-0">
                             <p className="font-bold text-sm text-slate-900 dark:text-white truncate">{user.fullName || user.username}</p>
-                            <p className="text-xs text-slate-500 dark:text-slate-400 capitalize">{roleLabels[user.role]}</p>
+                            <p className="text-xs text-slate-500 dark:text-slate-400 capitalize">{roleLabel}</p>
                         </div>
                     </div>
                     <button onClick={onLogout} className="w-full py-3.5 bg-slate-100 dark:bg-slate-800 rounded-xl text-sm font-bold text-slate-700 dark:text-slate-300 hover:bg-red-50 hover:text-red-600 dark:hover:bg-red-900/30 dark:hover:text-red-400 transition active:scale-95">Đăng xuất</button>
@@ -247,6 +296,8 @@ export const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, curren
         </div>
       )}
 
+      {isSearchOpen && <CommandPalette user={user} onClose={() => setIsSearchOpen(false)} onOpen={handleSearchResult} />}
+
       {/* Main Content Area */}
       <main className="flex-1 md:ml-[280px] min-h-screen flex flex-col relative overflow-hidden">
         {/* Top Gradient decoration (optional) */}
@@ -0,0 +1,51 @@
+import React from 'react';
+import { FieldDefinition, FieldOption, OptionColor } from '../types';
+
+export const OPTION_COLORS: Record<OptionColor, { badge: string; dot: string }> = {
+  slate: { badge: 'bg-slate-100 text-slate-700 border-slate-200 dark:bg-slate-700/50 dark:text-slate-300 dark:border-slate-600', dot: 'bg-slate-400' },
+  blue: { badge: 'bg-blue-50 text-blue-700 border-blue-100 dark:bg-blue-900/30 dark:text-blue-300 dark:border-blue-800', dot: 'bg-blue-500' },
+  emerald: { badge: 'bg-emerald-50 text-emerald-700 border-emerald-100 dark:bg-emerald-900/30 dark:text-emerald-300 dark:border-emerald-800', dot: 'bg-emerald-500' },
+  amber: { badge: 'bg-amber-50 text-amber-700 border-amber-100 dark:bg-amber-900/30 dark:text-amber-300 dark:border-amber-800', dot: 'bg-amber-500' },
+  red: { badge: 'bg-red-50 text-red-700 border-red-100 dark:bg-red-900/30 dark:text-red-300 dark:border-red-800', dot: 'bg-red-500' },
+  purple: { badge: 'bg-purple-50 text-purple-700 border-purple-100 dark:bg-purple-900/30 dark:text-purple-300 dark:border-purple-800', dot: 'bg-purple-500' },
+  pink: { badge: 'bg-pink-50 text-pink-700 border-pink-100 dark:bg-pink-900/30 dark:text-pink-300 dark:border-pink-800', dot: 'bg-pink-500' },
+  cyan: { badge: 'bg-cyan-50 text-cyan-700 border-cyan-100 dark:bg-cyan-900/30 dark:text-cyan-300 dark:border-cyan-800', dot: 'bg-cyan-500' },
+};
+
+// Normalizes a stored select/multiselect value to an array of option values
+export const toOptionValues = (value: any): string[] => {
+  if (Array.isArray(value)) return value;
+  return value ? [String(value)] : [];
+};
+
+export const findOption = (field: FieldDefinition, value: string): FieldOption | undefined =>
+  field.options?.find(o => o.value === value);
+
+export const getOptionLabels = (field: FieldDefinition, value: any): string =>
+  toOptionValues(value).map(v => findOption(field, v)?.label || v).join(', ');
+
+interface OptionBadgeProps {
+  option?: FieldOption;
+  fallback?: string; // shown when the stored value no longer matches an option
+}
+
+export const OptionBadge: React.FC<OptionBadgeProps> = ({ option, fallback }) => {
+  const colors = OPTION_COLORS[option?.color || 'slate'];
+  return (
+    <span className={`inline-flex items-center gap-1.5 px-2 py-0.5 rounded-md text-xs font-medium border ${colors.badge}`}>
+      <span className={`w-1.5 h-1.5 rounded-full ${colors.dot}`}></span>
+      {option ? option.label : fallback}
+    </span>
+  );
+};
+
+// Renders every selected option of a field as coloured badges
+export const OptionBadges: React.FC<{ field: FieldDefinition; value: any }> = ({ field, value }) => {
+  const values = toOptionValues(value);
+  if (values.length === 0) return <span className="text-slate-300 italic text-xs">Trống</span>;
+  return (
+    <div className="flex flex-wrap gap-1">
+      {values.map(v => <OptionBadge key={v} option={findOption(field, v)} fallback={v} />)}
+    </div>
+  );
+};
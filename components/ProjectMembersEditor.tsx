@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { PROJECT_ROLES, ProjectMember, ProjectRole, User } from '../types';
+import { PROJECT_ROLE_LABELS } from '../services/roles';
+
+interface ProjectMembersEditorProps {
+  members: ProjectMember[];
+  users: User[];
+  onChange: (members: ProjectMember[]) => void;
+}
+
+// Members of a project and their role in it, edited in the project form of ProjectManager
+export const ProjectMembersEditor: React.FC<ProjectMembersEditorProps> = ({ members, users, onChange }) => {
+  const [adding, setAdding] = useState('');
+
+  const choices = users.filter(u => !members.some(m => m.userId === u.id));
+  const getName = (userId: string) => {
+    const user = users.find(u => u.id === userId);
+    return user ? user.fullName || user.username : userId;
+  };
+
+  const handleAdd = (userId: string) => {
+    setAdding('');
+    if (userId) onChange([...members, { userId, role: 'member' }]);
+  };
+
+  const selectClass = "px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="space-y-2">
+      {members.length === 0 ? (
+        <p className="text-xs text-gray-400 italic">Chưa có thành viên</p>
+      ) : (
+        <div className="max-h-48 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+          {members.map(member => (
+            <div key={member.userId} className="flex items-center gap-2 px-3 py-2">
+              <span className="flex-1 truncate text-sm text-gray-800 dark:text-gray-200">{getName(member.userId)}</span>
+              <select
+                value={member.role}
+                onChange={(e) => onChange(members.map(m => m.userId === member.userId ? { ...m, role: e.target.value as ProjectRole } : m))}
+                title={PROJECT_ROLE_LABELS[member.role].description}
+                className={selectClass}
+              >
+                {PROJECT_ROLES.map(role => <option key={role} value={role}>{PROJECT_ROLE_LABELS[role].label}</option>)}
+              </select>
+              <button type="button" onClick={() => onChange(members.filter(m => m.userId !== member.userId))} className="text-gray-400 hover:text-red-500 transition" title="Gỡ">&times;</button>
+            </div>
+          ))}
+        </div>
+      )}
+      {choices.length > 0 && (
+        <select value={adding} onChange={(e) => handleAdd(e.target.value)} className={`w-full ${selectClass}`}>
+          <option value="">+ Thêm thành viên...</option>
+          {choices.map(u => <option key={u.id} value={u.id}>{u.username}{u.fullName ? ` (${u.fullName})` : ''}</option>)}
+        </select>
+      )}
+    </div>
+  );
+};
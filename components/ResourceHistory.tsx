@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import { Category, FieldDefinition, ResourceItem, ResourceRevision } from '../types';
+import { dataService } from '../services/storage';
+import { buildHistory, diffRevisionData, HistoryEntry } from '../services/revisions';
+
+interface ResourceHistoryProps {
+  resource: ResourceItem;
+  category: Category;
+  canRestore: boolean;
+  formatValue: (field: FieldDefinition, value: any) => string;
+  onRestore: (revision: ResourceRevision, version: number) => Promise<void>;
+}
+
+// History tab of the resource detail modal: revisions newest first with the fields they changed
+export const ResourceHistory: React.FC<ResourceHistoryProps> = ({ resource, category, canRestore, formatValue, onRestore }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    dataService.getResourceRevisions(resource.id)
+      .then(revisions => { if (!cancelled) setEntries(buildHistory(category, revisions)); })
+      .catch(e => console.error(e))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [resource, category]);
+
+  const handleRestore = async (entry: HistoryEntry) => {
+    if (!window.confirm(`Khôi phục dữ liệu của phiên bản ${entry.version}? Dữ liệu hiện tại được lưu lại thành một phiên bản mới.`)) return;
+    setRestoringId(entry.revision.id);
+    try {
+      await onRestore(entry.revision, entry.version);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const renderValue = (field: FieldDefinition, value: any) =>
+    formatValue(field, value) || <span className="italic opacity-60">Trống</span>;
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-slate-400 italic text-center py-12">Chưa có lịch sử thay đổi. Lịch sử được ghi lại từ lần lưu tiếp theo.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {entries.map((entry, index) => {
+        // A restore is only useful when the version differs from the current data
+        const isCurrent = diffRevisionData(category, resource.data, entry.revision.data).length === 0;
+        return (
+          <div key={entry.revision.id} className="rounded-xl border border-slate-100 dark:border-slate-700/50 bg-slate-50 dark:bg-slate-900/50 p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-bold text-slate-800 dark:text-white">Phiên bản {entry.version}</span>
+                {index === 0 && isCurrent && <span className="px-2 py-0.5 rounded-md text-[10px] font-bold uppercase bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-300">Hiện tại</span>}
+                <span className="text-xs text-slate-500 dark:text-slate-400">{new Date(entry.revision.createdAt).toLocaleString('vi-VN')} · {entry.revision.createdBy}</span>
+                {entry.revision.note && <span className="text-xs text-slate-400 italic">{entry.revision.note}</span>}
+              </div>
+              {canRestore && !isCurrent && (
+                <button
+                  onClick={() => handleRestore(entry)}
+                  disabled={restoringId !== null}
+                  className="px-3 py-1 rounded-lg text-xs font-semibold text-amber-700 bg-amber-50 border border-amber-200 hover:bg-amber-100 dark:text-amber-300 dark:bg-amber-900/20 dark:border-amber-800 transition disabled:opacity-50"
+                >
+                  {restoringId === entry.revision.id ? 'Đang khôi phục...' : 'Khôi phục'}
+                </button>
+              )}
+            </div>
+            {entry.changes.length === 0 ? (
+              <p className="text-xs text-slate-400 italic">Không có thay đổi dữ liệu</p>
+            ) : (
+              <ul className="space-y-1.5">
+                {entry.changes.map(change => (
+                  <li key={change.field.id} className="text-sm break-words">
+                    <span className="text-xs font-semibold text-slate-500 dark:text-slate-400 mr-2">{change.field.name}:</span>
+                    {entry.version > 1 ? (
+                      <>
+                        <span className="text-red-600 dark:text-red-400 line-through decoration-red-300">{renderValue(change.field, change.before)}</span>
+                        <span className="text-slate-400 mx-1.5">→</span>
+                      </>
+                    ) : null}
+                    <span className="text-emerald-700 dark:text-emerald-400 font-medium">{renderValue(change.field, change.after)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { ALL_PERMISSIONS, Permission, RoleDefinition, User, getUserRoles } from '../types';
+import { roleService, generateUUID } from '../services/storage';
+import { PERMISSION_LABELS, losesUserManagement } from '../services/roles';
+
+interface RoleMatrixProps {
+  roles: RoleDefinition[];
+  users: User[];
+  currentUser: User;
+  showToast: (msg: string, type: 'success' | 'error') => void;
+}
+
+// Roles x permissions table of UserManager. Changes are saved right away, the list reloads through realtime.
+export const RoleMatrix: React.FC<RoleMatrixProps> = ({ roles, users, currentUser, showToast }) => {
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const memberCount = (role: RoleDefinition) => users.filter(u => getUserRoles(u).includes(role.id)).length;
+
+  const handleToggle = async (role: RoleDefinition, permission: Permission) => {
+    const permissions = role.permissions.includes(permission)
+      ? role.permissions.filter(p => p !== permission)
+      : ALL_PERMISSIONS.filter(p => p === permission || role.permissions.includes(p));
+    const updated = { ...role, permissions };
+    const definitions = roles.map(r => r.id === role.id ? updated : r);
+    if (losesUserManagement(currentUser, getUserRoles(currentUser), definitions)
+      && !window.confirm('CẢNH BÁO: Sau thay đổi này bạn sẽ mất quyền quản lý thành viên. Bạn có chắc chắn?')) return;
+
+    setSavingId(role.id);
+    try {
+      await roleService.save(updated);
+    } catch (e: any) {
+      showToast(e.message, 'error');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    if (roles.some(r => r.name.toLowerCase() === name.toLowerCase())) {
+      showToast('Tên vai trò đã tồn tại', 'error');
+      return;
+    }
+    try {
+      await roleService.save({ id: generateUUID(), name, description: newDescription.trim() || undefined, permissions: [] });
+      setNewName('');
+      setNewDescription('');
+      showToast(`Đã tạo vai trò ${name}`, 'success');
+    } catch (e: any) {
+      showToast(e.message, 'error');
+    }
+  };
+
+  const handleDelete = async (role: RoleDefinition) => {
+    const count = memberCount(role);
+    if (!window.confirm(`Xóa vai trò "${role.name}"?${count > 0 ? ` ${count} thành viên sẽ bị gỡ vai trò này.` : ''}`)) return;
+    const remaining = getUserRoles(currentUser).filter(r => r !== role.id);
+    if (losesUserManagement(currentUser, remaining.length > 0 ? remaining : ['user'], roles)
+      && !window.confirm('CẢNH BÁO: Sau khi xóa bạn sẽ mất quyền quản lý thành viên. Bạn có chắc chắn?')) return;
+    try {
+      await roleService.delete(role);
+      showToast(`Đã xóa vai trò ${role.name}`, 'success');
+    } catch (e: any) {
+      showToast(e.message, 'error');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-[0_2px_15px_rgba(0,0,0,0.04)] dark:shadow-none border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse min-w-[900px]">
+          <thead>
+            <tr className="bg-gray-50 dark:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700">
+              <th className="px-6 py-4 text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Vai trò</th>
+              {ALL_PERMISSIONS.map(permission => (
+                <th key={permission} title={PERMISSION_LABELS[permission].description} className="px-3 py-4 text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider text-center">
+                  {PERMISSION_LABELS[permission].label}
+                </th>
+              ))}
+              <th className="px-6 py-4"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+            {roles.map(role => {
+              const locked = role.id === 'admin';
+              return (
+                <tr key={role.id} className="hover:bg-gray-50/80 dark:hover:bg-gray-700/30 transition duration-150">
+                  <td className="px-6 py-4">
+                    <p className="font-bold text-sm text-gray-900 dark:text-white">
+                      {role.name}
+                      {role.builtIn && <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-bold uppercase bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400">Mặc định</span>}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{role.description || '—'} · {memberCount(role)} thành viên</p>
+                  </td>
+                  {ALL_PERMISSIONS.map(permission => (
+                    <td key={permission} className="px-3 py-4 text-center">
+                      <input
+                        type="checkbox"
+                        checked={locked || role.permissions.includes(permission)}
+                        disabled={locked || savingId === role.id}
+                        onChange={() => handleToggle(role, permission)}
+                        className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 border-gray-300 dark:border-gray-600 disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                      />
+                    </td>
+                  ))}
+                  <td className="px-6 py-4 text-right">
+                    {!role.builtIn && (
+                      <button
+                        onClick={() => handleDelete(role)}
+                        title="Xóa vai trò"
+                        className="inline-flex items-center justify-center w-8 h-8 rounded-lg bg-red-50 text-red-600 hover:bg-red-100 dark:bg-red-900/20 dark:text-red-400 dark:hover:bg-red-900/40 transition"
+                      >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <form onSubmit={handleAdd} className="px-6 py-4 border-t border-gray-100 dark:border-gray-700 flex flex-col sm:flex-row gap-3 bg-gray-50/30 dark:bg-gray-800">
+        <input
+          type="text"
+          placeholder="Tên vai trò mới"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          className="sm:w-56 px-4 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none transition text-gray-900 dark:text-white text-sm"
+        />
+        <input
+          type="text"
+          placeholder="Mô tả (không bắt buộc)"
+          value={newDescription}
+          onChange={(e) => setNewDescription(e.target.value)}
+          className="flex-1 px-4 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none transition text-gray-900 dark:text-white text-sm"
+        />
+        <button type="submit" disabled={!newName.trim()} className="px-4 py-2 text-white text-sm font-medium bg-blue-600 hover:bg-blue-700 rounded-xl shadow-md transition disabled:opacity-50">
+          + Thêm vai trò
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { Role, RoleDefinition, SavedView, User, PERMISSIONS, BUILT_IN_ROLES } from '../types';
+import { roleService } from '../services/storage';
+import { getRoleName } from '../services/roles';
+
+export interface SaveViewInput {
+  name: string;
+  sharedRole?: Role;
+  makeDefault: boolean;
+  overwrite: boolean; // update the active view instead of creating a new one
+}
+
+interface SavedViewBarProps {
+  views: SavedView[];
+  activeViewId: string | null;
+  defaultViewId: string | null;
+  currentUser: User;
+  onSelect: (viewId: string | null) => void;
+  onSave: (input: SaveViewInput) => Promise<void>;
+  onDelete: (view: SavedView) => void;
+  onSetDefault: (viewId: string | null) => void;
+  onCopyLink: (view: SavedView) => void;
+}
+
+// Picker and editor of the saved views of a category
+export const SavedViewBar: React.FC<SavedViewBarProps> = ({ views, activeViewId, defaultViewId, currentUser, onSelect, onSave, onDelete, onSetDefault, onCopyLink }) => {
+  const activeView = views.find(v => v.id === activeViewId);
+  const canEditActive = !!activeView && PERMISSIONS.canEditSavedView(currentUser, activeView);
+
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [sharedRole, setSharedRole] = useState<Role | ''>('');
+  const [makeDefault, setMakeDefault] = useState(false);
+  const [overwrite, setOverwrite] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [roles, setRoles] = useState<RoleDefinition[]>(BUILT_IN_ROLES);
+
+  // Custom roles can be shared with too
+  useEffect(() => {
+    roleService.getAll().then(setRoles).catch(e => console.error(e));
+  }, []);
+
+  const openSaveForm = () => {
+    setName(canEditActive ? activeView!.name : '');
+    setSharedRole(canEditActive ? (activeView!.sharedRole || '') : '');
+    setMakeDefault(!!activeView && activeView.id === defaultViewId);
+    setOverwrite(canEditActive);
+    setIsSaveOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      await onSave({ name: name.trim(), sharedRole: sharedRole || undefined, makeDefault, overwrite: overwrite && canEditActive });
+      setIsSaveOpen(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const iconButton = "p-2 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 transition disabled:opacity-30 disabled:cursor-not-allowed";
+  const inputClass = "px-3 py-2 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg text-sm text-slate-700 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none transition";
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-3 rounded-2xl border border-slate-100 dark:border-slate-700 shadow-sm space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide">Chế độ xem</span>
+        <select
+          value={activeViewId || ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+          className={`${inputClass} min-w-[200px]`}
+        >
+          <option value="">-- Mặc định hệ thống --</option>
+          {views.map(v => (
+            <option key={v.id} value={v.id}>
+              {v.id === defaultViewId ? '★ ' : ''}{v.name}{v.sharedRole ? ` (${getRoleName(roles, v.sharedRole)})` : ''}{v.ownerId !== currentUser.id ? ` - ${v.ownerName}` : ''}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => onSetDefault(activeView && activeView.id !== defaultViewId ? activeView.id : null)}
+          disabled={!activeView && !defaultViewId}
+          className={`${iconButton} ${activeView && activeView.id === defaultViewId ? 'text-amber-500' : ''}`}
+          title={activeView && activeView.id !== defaultViewId ? 'Đặt làm chế độ xem mặc định' : 'Bỏ chế độ xem mặc định'}
+        >
+          ★
+        </button>
+        <button onClick={() => activeView && onCopyLink(activeView)} disabled={!activeView} className={iconButton} title="Sao chép liên kết">
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" /></svg>
+        </button>
+        <button onClick={() => activeView && onDelete(activeView)} disabled={!canEditActive} className={`${iconButton} hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20`} title="Xóa chế độ xem">
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+        </button>
+        <button
+          onClick={() => isSaveOpen ? setIsSaveOpen(false) : openSaveForm()}
+          className="ml-auto px-4 py-2 rounded-lg text-sm font-semibold text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/40 transition"
+        >
+          Lưu chế độ xem
+        </button>
+      </div>
+
+      {isSaveOpen && (
+        <form onSubmit={handleSave} className="flex flex-wrap items-center gap-3 pt-3 border-t border-slate-100 dark:border-slate-700 animate-fade-in">
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Tên chế độ xem, ví dụ: Thiết bị đang dùng của tôi" className={`${inputClass} flex-1 min-w-[220px]`} autoFocus />
+          <select value={sharedRole} onChange={(e) => setSharedRole(e.target.value as Role | '')} className={inputClass}>
+            <option value="">Riêng tư</option>
+            {roles.map(role => <option key={role.id} value={role.id}>Chia sẻ với vai trò: {role.name}</option>)}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={makeDefault} onChange={(e) => setMakeDefault(e.target.checked)} className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 border-slate-300" />
+            Mặc định
+          </label>
+          {canEditActive && (
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={overwrite} onChange={(e) => setOverwrite(e.target.checked)} className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 border-slate-300" />
+              Ghi đè "{activeView!.name}"
+            </label>
+          )}
+          <button type="submit" disabled={saving || !name.trim()} className="px-5 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 transition disabled:opacity-50">
+            {saving ? 'Đang lưu...' : 'Lưu'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
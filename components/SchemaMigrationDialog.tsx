@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { FieldDefinition, FieldType } from '../types';
+import { SchemaChange, MigrationPlan, MigrationChoice, MigrationAction, defaultChoice } from '../services/schemaMigration';
+
+const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+  text: 'Văn bản ngắn',
+  textarea: 'Văn bản dài',
+  number: 'Số',
+  date: 'Ngày tháng',
+  boolean: 'Đúng/Sai',
+  project: 'Liên kết Dự án',
+  user: 'Liên kết Người dùng',
+  image: 'Hình ảnh',
+  file: 'Tệp đính kèm',
+  select: 'Danh sách chọn',
+  multiselect: 'Danh sách chọn nhiều',
+  reference: 'Liên kết Danh mục',
+  formula: 'Công thức'
+};
+
+interface SchemaMigrationDialogProps {
+  changes: SchemaChange[];
+  nextFields: FieldDefinition[];
+  saving: boolean;
+  onConfirm: (plan: MigrationPlan, note: string) => void;
+  onCancel: () => void;
+}
+
+// Preview of the data impact of a schema edit, lets the admin pick how each affected field is migrated
+export const SchemaMigrationDialog: React.FC<SchemaMigrationDialogProps> = ({ changes, nextFields, saving, onConfirm, onCancel }) => {
+  const [choices, setChoices] = useState<Record<string, MigrationChoice>>(() =>
+    Object.fromEntries(changes.map(c => [c.field.id, defaultChoice(c)]))
+  );
+  const [archiveKey, setArchiveKey] = useState('');
+  const [note, setNote] = useState('');
+
+  const archiveFields = nextFields.filter(f => f.type === 'text' || f.type === 'textarea');
+  const renameTargets = nextFields.filter(f => f.type !== 'formula');
+
+  const setChoice = (fieldId: string, choice: MigrationChoice) => setChoices(prev => ({ ...prev, [fieldId]: choice }));
+
+  const describe = (change: SchemaChange) => {
+    const { field, next } = change;
+    switch (change.kind) {
+      case 'removed':
+        return <><b>{change.affected}</b> bản ghi có giá trị trong trường bị xóa <b>{field.name}</b></>;
+      case 'retyped':
+        return (
+          <>
+            Trường <b>{field.name}</b> đổi từ {FIELD_TYPE_LABELS[field.type]} sang {FIELD_TYPE_LABELS[next!.type]}: <b>{change.affected}</b> giá trị
+            {change.unconvertible > 0 && <>, <b className="text-red-600 dark:text-red-400">{change.unconvertible}</b> giá trị không thể chuyển đổi</>}
+          </>
+        );
+      case 'recomputed':
+        return <>Công thức <b>{next!.name}</b> {field === next ? 'mới' : 'thay đổi'}: giá trị được tính lại cho <b>{change.affected}</b> bản ghi</>;
+      default:
+        return <>Trường <b>{field.name}</b> đổi khóa <code>{field.key}</code> → <code>{next!.key}</code>: <b>{change.affected}</b> giá trị được chuyển tự động</>;
+    }
+  };
+
+  const missingRenameTarget = changes.some(c => choices[c.field.id]?.action === 'rename' && !choices[c.field.id]?.targetKey);
+  const needsArchive = changes.some(c => choices[c.field.id]?.action === 'archive');
+
+  const handleConfirm = () => {
+    onConfirm({ choices, archiveKey: archiveKey || undefined }, note.trim());
+  };
+
+  const selectClass = "border border-gray-200 dark:border-gray-500 rounded-lg py-1.5 px-2 text-sm bg-white dark:bg-gray-600 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/60 backdrop-blur-sm transition-opacity" onClick={() => !saving && onCancel()}></div>
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col relative z-20 animate-scale-in border border-gray-100 dark:border-gray-700">
+        <div className="p-6 border-b border-gray-100 dark:border-gray-700">
+          <h3 className="text-xl font-bold text-gray-900 dark:text-white">Xem trước thay đổi dữ liệu</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Thay đổi cấu trúc ảnh hưởng tới dữ liệu đã lưu. Chọn cách xử lý cho từng trường trước khi lưu.</p>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          {changes.map(change => {
+            const choice = choices[change.field.id] || defaultChoice(change);
+            return (
+              <div key={change.field.id} className="p-4 rounded-xl border border-amber-200 dark:border-amber-800 bg-amber-50/60 dark:bg-amber-900/10 space-y-3">
+                <p className="text-sm text-gray-700 dark:text-gray-200">⚠️ {describe(change)}</p>
+                {change.kind !== 'rekeyed' && change.kind !== 'recomputed' && (
+                  <div className="flex flex-wrap gap-2 items-center">
+                    <select
+                      value={choice.action}
+                      onChange={(e) => setChoice(change.field.id, { action: e.target.value as MigrationAction })}
+                      className={selectClass}
+                    >
+                      {change.kind === 'retyped' && <option value="convert">Chuyển đổi giá trị</option>}
+                      <option value="drop">Xóa dữ liệu</option>
+                      {change.kind === 'removed' && <option value="rename">Chuyển sang trường khác</option>}
+                      <option value="archive">Lưu vào trường ghi chú</option>
+                    </select>
+                    {choice.action === 'rename' && (
+                      <select
+                        value={choice.targetKey || ''}
+                        onChange={(e) => setChoice(change.field.id, { action: 'rename', targetKey: e.target.value || undefined })}
+                        className={selectClass}
+                      >
+                        <option value="">-- Chọn trường đích --</option>
+                        {renameTargets.map(f => <option key={f.id} value={f.key}>{f.name} ({FIELD_TYPE_LABELS[f.type]})</option>)}
+                      </select>
+                    )}
+                    {choice.action === 'convert' && change.unconvertible > 0 && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">Giá trị không chuyển được sẽ {archiveKey ? 'được lưu vào trường ghi chú' : 'bị xóa'}.</span>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 pt-2">
+            <div className="space-y-1">
+              <label className="text-[10px] text-gray-400 dark:text-gray-500 font-bold uppercase tracking-wider">Trường ghi chú lưu trữ</label>
+              <select value={archiveKey} onChange={(e) => setArchiveKey(e.target.value)} className={`${selectClass} w-full`}>
+                <option value="">-- Không lưu trữ --</option>
+                {archiveFields.map(f => <option key={f.id} value={f.key}>{f.name}</option>)}
+              </select>
+              {needsArchive && !archiveKey && <p className="text-xs text-red-500">Chọn trường văn bản để lưu giá trị cũ</p>}
+              {archiveFields.length === 0 && <p className="text-xs text-gray-400">Thêm một trường văn bản vào cấu trúc để dùng tính năng lưu trữ.</p>}
+            </div>
+            <div className="space-y-1">
+              <label className="text-[10px] text-gray-400 dark:text-gray-500 font-bold uppercase tracking-wider">Ghi chú phiên bản</label>
+              <input type="text" value={note} onChange={(e) => setNote(e.target.value)} className={`${selectClass} w-full`} placeholder="Ví dụ: Tách trường địa chỉ" />
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-gray-100 dark:border-gray-700 flex flex-col-reverse sm:flex-row justify-end gap-3">
+          <button onClick={onCancel} disabled={saving} className="px-4 py-2.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-xl font-medium hover:bg-gray-200 dark:hover:bg-gray-600 transition disabled:opacity-50">
+            Quay lại chỉnh sửa
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={saving || missingRenameTarget || (needsArchive && !archiveKey)}
+            className="px-6 py-2.5 bg-blue-600 text-white rounded-xl font-medium hover:bg-blue-700 shadow-lg shadow-blue-500/30 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Đang chuyển đổi...' : 'Chuyển đổi & Lưu'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
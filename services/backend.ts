@@ -0,0 +1,142 @@
+import { User, Category, ResourceItem, ResourceRevision, ResourceTrashMark, SystemConfig, Project, AuditLog, SchemaVersion, ResourceQuery, ResourcePage, SavedView, RoleDefinition } from '../types';
+import { createSupabaseBackend } from './supabaseBackend';
+import { createLocalBackend } from './localBackend';
+
+// Minimal identity returned by the auth layer of a backend (before profile lookup)
+export interface AuthIdentity {
+    id: string;
+    email: string;
+}
+
+export type AuditLogEntry = Omit<AuditLog, 'id' | 'created_at'>;
+
+// Tables that emit change notifications
+export type ChangeTable = 'profiles' | 'roles' | 'categories' | 'resources' | 'projects' | 'system_config' | 'audit_logs';
+
+// A single row change, records already mapped to app types (camelCase).
+// For DELETE events Supabase only guarantees the primary key on `old`.
+export interface ChangeEvent {
+    table: ChangeTable;
+    event: 'INSERT' | 'UPDATE' | 'DELETE';
+    new: Record<string, any> | null;
+    old: Record<string, any> | null;
+}
+
+export type ChangeListener = (change: ChangeEvent) => void;
+
+// A client present on a presence topic (e.g. a record being edited), one per browser tab
+export interface PresenceMember {
+    key: string;
+    userId: string;
+    name: string;
+    since: number;
+}
+
+// Every persistence concern of the app goes through this interface.
+// authService / dataService / projectService / auditService in storage.ts only talk to a StorageBackend,
+// so the app can run against Supabase or fully offline (demo, dev, automated tests).
+export interface StorageBackend {
+    // --- Auth ---
+    signIn: (email: string, password: string) => Promise<AuthIdentity>;
+    signUp: (email: string, password: string) => Promise<AuthIdentity>;
+    signOut: () => Promise<void>;
+    getSessionUser: () => Promise<AuthIdentity | null>;
+    updatePassword: (newPassword: string) => Promise<void>;
+
+    // --- Profiles ---
+    getProfile: (id: string) => Promise<User | null>;
+    findProfileByUsername: (username: string) => Promise<User | null>;
+    listProfiles: () => Promise<User[]>;
+    insertProfile: (profile: User) => Promise<void>;
+    updateProfile: (id: string, updates: Partial<User>) => Promise<void>;
+    deleteProfile: (id: string) => Promise<void>;
+
+    // --- Roles (custom roles and the saved permissions of built-in roles) ---
+    listRoles: () => Promise<RoleDefinition[]>;
+    upsertRole: (role: RoleDefinition) => Promise<void>;
+    deleteRole: (id: string) => Promise<void>;
+
+    // --- Files (returns public URL) ---
+    uploadFile: (bucket: string, path: string, file: File) => Promise<string>;
+
+    // --- Categories (including those in the recycle bin) ---
+    listCategories: () => Promise<Category[]>;
+    upsertCategory: (category: Category) => Promise<void>;
+    deleteCategory: (id: string) => Promise<void>;
+
+    // --- Schema versions (newest first) ---
+    listSchemaVersions: (categoryId: string) => Promise<SchemaVersion[]>;
+    insertSchemaVersion: (version: SchemaVersion) => Promise<void>;
+
+    // --- Resources (the recycle bin is only listed by queryResources with `trashed`) ---
+    listResources: (categoryId?: string) => Promise<ResourceItem[]>;
+    // The stored records with these ids, trashed ones included
+    listResourcesByIds: (ids: string[]) => Promise<ResourceItem[]>;
+    // Filters, sorts and pages on the backend side; see ResourceQuery for the semantics
+    queryResources: (query: ResourceQuery) => Promise<ResourcePage>;
+    // With `expectedVersion`, only updates while the stored version (absent = 0) still equals it,
+    // otherwise rejects with a ResourceConflictError carrying the stored record
+    upsertResource: (resource: ResourceItem, expectedVersion?: number) => Promise<void>;
+    deleteResource: (id: string) => Promise<void>;
+    // Batches (imports): written or deleted all together or not at all
+    upsertResources: (resources: ResourceItem[]) => Promise<void>;
+    deleteResources: (ids: string[]) => Promise<void>;
+    // Moves resources to / restores them from the recycle bin, all together or not at all
+    markResourcesDeleted: (ids: string[], mark: ResourceTrashMark) => Promise<void>;
+
+    // --- Resource revisions (newest first) ---
+    listResourceRevisions: (resourceId: string) => Promise<ResourceRevision[]>;
+    insertResourceRevisions: (revisions: ResourceRevision[]) => Promise<void>;
+
+    // --- Saved views (every view of the category, visibility is checked by the caller) ---
+    listSavedViews: (categoryId?: string) => Promise<SavedView[]>;
+    upsertSavedView: (view: SavedView) => Promise<void>;
+    deleteSavedView: (id: string) => Promise<void>;
+
+    // --- Projects (including those in the recycle bin) ---
+    listProjects: () => Promise<Project[]>;
+    projectCodeExists: (code: string, excludeId?: string) => Promise<boolean>;
+    upsertProject: (project: Partial<Project>) => Promise<void>;
+    deleteProject: (id: string) => Promise<void>;
+
+    // --- System Config ---
+    getSystemConfig: () => Promise<Partial<SystemConfig> | null>;
+    saveSystemConfig: (config: SystemConfig) => Promise<void>;
+
+    // --- Audit ---
+    insertAuditLog: (entry: AuditLogEntry) => Promise<void>;
+    listAuditLogs: (limit: number) => Promise<AuditLog[]>;
+
+    // --- Change feed (returns unsubscribe). Use services/realtime.ts rather than calling this directly ---
+    subscribeChanges: (listener: ChangeListener) => () => void;
+
+    // --- Presence (returns leave). `onSync` receives every member of the topic, this client included.
+    // Use services/presence.ts rather than calling this directly ---
+    joinPresence: (topic: string, member: PresenceMember, onSync: (members: PresenceMember[]) => void) => () => void;
+}
+
+export type BackendKind = 'supabase' | 'local' | 'memory';
+
+// Selected at build time via STORAGE_BACKEND in .env.local (see vite.config.ts). Defaults to Supabase.
+export const BACKEND_KIND: BackendKind = ((): BackendKind => {
+    const kind = (process.env.STORAGE_BACKEND || '').toLowerCase();
+    if (kind === 'local' || kind === 'memory') return kind;
+    return 'supabase';
+})();
+
+export const createBackend = (kind: BackendKind): StorageBackend => {
+    switch (kind) {
+        case 'local': return createLocalBackend({ persist: true });
+        case 'memory': return createLocalBackend({ persist: false });
+        default: return createSupabaseBackend();
+    }
+};
+
+let activeBackend: StorageBackend = createBackend(BACKEND_KIND);
+
+export const getBackend = (): StorageBackend => activeBackend;
+
+// Swap the backend at runtime (used by automated tests to inject a fresh in-memory store)
+export const setBackend = (backend: StorageBackend) => {
+    activeBackend = backend;
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { Category, FieldDefinition, ResourceItem, User } from '../types';
+import { DENIED_EDIT, planDuplicate, planFieldEdit, planMove, splitByPermission, suggestMoveMapping } from './bulkActions';
+
+const field = (key: string, type: FieldDefinition['type'], extra: Partial<FieldDefinition> = {}): FieldDefinition =>
+    ({ id: key, key, name: key, type, required: false, ...extra });
+
+const category = (id: string, fields: FieldDefinition[]): Category =>
+    ({ id, name: id, description: '', createdAt: 0, accessLevel: 'public', fields });
+
+const resource = (id: string, data: Record<string, any>, createdBy = 'an'): ResourceItem =>
+    ({ id, categoryId: 'c1', data, createdBy, createdAt: 1 });
+
+const source = category('c1', [
+    field('code', 'text', { name: 'Mã', validation: { unique: true } }),
+    field('qty', 'text', { name: 'Số lượng' }),
+    field('total', 'formula', { formula: '{qty} * 2' })
+]);
+const target = category('c2', [
+    field('ma', 'text', { name: 'mã ', validation: { unique: true } }),
+    field('qty', 'number', { name: 'SL' }),
+    field('note', 'text')
+]);
+
+describe('splitByPermission', () => {
+    it('lets users edit their own records only', () => {
+        const user: User = { id: 'u1', username: 'an', email: '', role: 'user' };
+        const { allowed, rejected } = splitByPermission(user, [resource('r1', {}), resource('r2', {}, 'binh')], 'edit', [source]);
+        expect(allowed.map(r => r.id)).toEqual(['r1']);
+        expect(rejected).toEqual([{ resource: resource('r2', {}, 'binh'), message: DENIED_EDIT }]);
+    });
+});
+
+describe('planFieldEdit', () => {
+    it('recomputes formulas and rejects the records breaking the edited field only', () => {
+        const qty = source.fields[1];
+        const plan = planFieldEdit(source, [resource('r1', { code: 'A', qty: '1' })], qty, '4', []);
+        expect(plan.items[0].data).toEqual({ code: 'A', qty: '4', total: 8 });
+        const code = source.fields[0];
+        const duplicates = planFieldEdit(source, [resource('r1', {}), resource('r2', {})], code, 'X', []);
+        expect(duplicates.items.map(r => r.id)).toEqual(['r1']);
+        expect(duplicates.rejected[0].message).toContain('Mã:');
+    });
+});
+
+describe('planMove', () => {
+    it('maps fields by key then name and converts the values', () => {
+        const mapping = suggestMoveMapping(source, target);
+        expect(mapping).toEqual({ ma: 'code', qty: 'qty', note: '' });
+        const plan = planMove(source, target, [resource('r1', { code: 'A', qty: '3', total: 6 }), resource('r2', { code: 'B', qty: 'ba' })], mapping, []);
+        expect(plan.items).toEqual([{ ...resource('r1', {}), categoryId: 'c2', data: { ma: 'A', qty: 3 } }]);
+        expect(plan.rejected.map(r => [r.resource.id, r.message])).toEqual([['r2', 'Số lượng → SL: không chuyển đổi được giá trị "ba"']]);
+    });
+
+    it('checks uniqueness against the target category', () => {
+        const existing = [{ ...resource('r9', { ma: 'A' }), categoryId: 'c2' }];
+        expect(planMove(source, target, [resource('r1', { code: 'a' })], { ma: 'code' }, existing).rejected).toHaveLength(1);
+    });
+});
+
+describe('planDuplicate', () => {
+    it('copies with new ids and names the original in rejections', () => {
+        const originals = [resource('r1', { code: 'A', qty: '2' }, 'binh'), resource('r2', { code: 'B' })];
+        const plan = planDuplicate(source, originals, [resource('r3', { code: 'b' })], 'an');
+        expect(plan.items).toHaveLength(1);
+        expect(plan.items[0]).toMatchObject({ categoryId: 'c1', createdBy: 'an', data: { code: 'A', qty: '2', total: 4 } });
+        expect(plan.items[0].id).not.toBe('r1');
+        expect(plan.rejected.map(r => r.resource)).toEqual([originals[1]]);
+    });
+});
@@ -0,0 +1,133 @@
+import { Category, FieldDefinition, ResourceItem, User, PERMISSIONS } from '../types';
+import { validateResourceData, coerceNumberFields } from './validation';
+import { applyFormulas } from './formula';
+import { normalizeDataKeys } from './fieldKeys';
+import { convertValue } from './schemaMigration';
+import { generateUUID } from './uuid';
+
+// Bulk actions of DataManager: the selected records are checked against the user's permissions, rewritten and
+// validated one after the other (uniqueness includes the records rewritten before), then saved in one batch.
+
+export interface BulkRejection {
+    resource: ResourceItem;
+    message: string;
+}
+
+export interface BulkPlan {
+    items: ResourceItem[]; // records to save
+    rejected: BulkRejection[];
+}
+
+// target field key -> source field key ('' leaves the field empty)
+export type MoveMapping = Record<string, string>;
+
+export const DENIED_EDIT = 'Không có quyền chỉnh sửa';
+export const DENIED_DELETE = 'Không có quyền xóa';
+
+export const DENIED_CREATE = 'Không có quyền thêm dữ liệu';
+
+// Records the user may edit / delete / copy in their category, the others rejected with the reason
+export const splitByPermission = (user: User, resources: ResourceItem[], kind: 'edit' | 'delete' | 'create', categories: Category[]): { allowed: ResourceItem[]; rejected: BulkRejection[] } => {
+    const check = (r: ResourceItem, category: Category) => kind === 'edit' ? PERMISSIONS.canEditResource(user, r, category)
+        : kind === 'delete' ? PERMISSIONS.canDeleteResource(user, r, category)
+        : PERMISSIONS.canCreateResource(user, category, r);
+    const message = kind === 'edit' ? DENIED_EDIT : kind === 'delete' ? DENIED_DELETE : DENIED_CREATE;
+    const allowed: ResourceItem[] = [];
+    const rejected: BulkRejection[] = [];
+    resources.forEach(r => {
+        const category = categories.find(c => c.id === r.categoryId);
+        if (category && check(r, category)) allowed.push(r);
+        else rejected.push({ resource: r, message });
+    });
+    return { allowed, rejected };
+};
+
+const firstError = (errors: Record<string, string>, category: Category, only?: string): string | null => {
+    const key = only ? (errors[only] ? only : undefined) : Object.keys(errors)[0];
+    if (!key) return null;
+    const field = category.fields.find(f => f.key === key);
+    return field ? `${field.name}: ${errors[key]}` : errors[key];
+};
+
+// Validates the rewritten records in order. `existing` are the saved records of the category sharing a unique
+// value with the candidates; `only` restricts the errors to one field (records may already break rules added
+// after they were saved).
+const validatePlan = (category: Category, candidates: ResourceItem[], existing: ResourceItem[], only?: string): BulkPlan => {
+    const known = [...existing];
+    const items: ResourceItem[] = [];
+    const rejected: BulkRejection[] = [];
+    candidates.forEach(candidate => {
+        const message = firstError(validateResourceData(category, candidate.data, known, candidate.id), category, only);
+        if (message) {
+            rejected.push({ resource: candidate, message });
+            return;
+        }
+        items.push(candidate);
+        const index = known.findIndex(r => r.id === candidate.id);
+        if (index >= 0) known[index] = candidate;
+        else known.push(candidate);
+    });
+    return { items, rejected };
+};
+
+const prepareData = (category: Category, data: Record<string, any>) =>
+    applyFormulas(category, coerceNumberFields(category, data));
+
+// Sets one field to the same value on every record
+export const planFieldEdit = (category: Category, resources: ResourceItem[], field: FieldDefinition, value: any, existing: ResourceItem[]): BulkPlan => {
+    const candidates = resources.map(r => ({
+        ...r,
+        data: prepareData(category, { ...normalizeDataKeys(category, r.data || {}), [field.key]: value })
+    }));
+    return validatePlan(category, candidates, existing, field.key);
+};
+
+// Same key first, then same name
+export const suggestMoveMapping = (source: Category, target: Category): MoveMapping => Object.fromEntries(
+    target.fields.filter(f => f.type !== 'formula').map(f => {
+        const match = source.fields.find(s => s.key === f.key) || source.fields.find(s => s.name.trim().toLowerCase() === f.name.trim().toLowerCase());
+        return [f.key, match && match.type !== 'formula' ? match.key : ''];
+    })
+);
+
+// Moves the records to `target`, values converted to the type of the mapped field. Ids, creators and creation
+// dates are kept. `existing` are saved records of the target category (see validatePlan).
+export const planMove = (source: Category, target: Category, resources: ResourceItem[], mapping: MoveMapping, existing: ResourceItem[]): BulkPlan => {
+    const rejected: BulkRejection[] = [];
+    const candidates: ResourceItem[] = [];
+    resources.forEach(r => {
+        const sourceData = normalizeDataKeys(source, r.data || {});
+        const data: Record<string, any> = {};
+        for (const field of target.fields) {
+            const from = source.fields.find(f => f.key === mapping[field.key]);
+            if (!from || field.type === 'formula') continue;
+            const converted = convertValue(sourceData[from.key], from, field);
+            if (!converted.ok) {
+                rejected.push({ resource: r, message: `${from.name} → ${field.name}: không chuyển đổi được giá trị "${sourceData[from.key]}"` });
+                return;
+            }
+            if (converted.value !== undefined) data[field.key] = converted.value;
+        }
+        candidates.push({ ...r, categoryId: target.id, data: prepareData(target, data) });
+    });
+    const plan = validatePlan(target, candidates, existing);
+    return { items: plan.items, rejected: [...rejected, ...plan.rejected] };
+};
+
+// Copies with new ids, created by `createdBy` now
+export const planDuplicate = (category: Category, resources: ResourceItem[], existing: ResourceItem[], createdBy: string): BulkPlan => {
+    const now = Date.now();
+    const candidates = resources.map(r => ({
+        id: generateUUID(),
+        categoryId: category.id,
+        data: prepareData(category, normalizeDataKeys(category, r.data || {})),
+        createdBy,
+        createdAt: now
+    }));
+    const plan = validatePlan(category, candidates, existing);
+    // Rejections name the original record, the copy has no meaning for the user
+    return {
+        items: plan.items,
+        rejected: plan.rejected.map(rej => ({ ...rej, resource: resources[candidates.indexOf(rej.resource)] }))
+    };
+};
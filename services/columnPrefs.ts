@@ -0,0 +1,64 @@
+import { Category, ColumnPref } from '../types';
+
+// Per-user, per-category preferences of DataManager's list view (column layout, default saved view),
+// kept in localStorage like the theme.
+// Columns are identified by field id (stable across key renames) or by a built-in column name.
+
+export type BuiltInColumn = 'createdBy' | 'createdAt' | 'updatedBy' | 'updatedAt';
+
+export const BUILT_IN_COLUMNS: BuiltInColumn[] = ['createdBy', 'createdAt', 'updatedBy', 'updatedAt'];
+
+export const BUILT_IN_COLUMN_LABELS: Record<BuiltInColumn, string> = {
+    createdBy: 'Người tạo',
+    createdAt: 'Ngày tạo',
+    updatedBy: 'Người sửa',
+    updatedAt: 'Ngày sửa'
+};
+
+export const isBuiltInColumn = (id: string): id is BuiltInColumn => (BUILT_IN_COLUMNS as string[]).includes(id);
+
+const storageKey = (userId: string, categoryId: string) => `dataColumns:${userId}:${categoryId}`;
+const defaultViewKey = (userId: string, categoryId: string) => `dataDefaultView:${userId}:${categoryId}`;
+
+// Default layout: every field in schema order, then the built-in columns
+export const defaultColumns = (category: Category): ColumnPref[] => [
+    ...category.fields.map(f => ({ id: f.id, visible: true })),
+    ...BUILT_IN_COLUMNS.map(id => ({ id, visible: true }))
+];
+
+// Layout reconciled with the current schema: removed fields are dropped, new fields appended
+export const reconcileColumns = (category: Category, columns: ColumnPref[]): ColumnPref[] => {
+    const defaults = defaultColumns(category);
+    const known = columns.filter(c => defaults.some(d => d.id === c.id));
+    return [...known, ...defaults.filter(d => !known.some(c => c.id === d.id))];
+};
+
+export const loadColumnPrefs = (userId: string, category: Category): ColumnPref[] => {
+    let saved: ColumnPref[] = [];
+    try {
+        const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(storageKey(userId, category.id)) : null;
+        saved = raw ? JSON.parse(raw) : [];
+    } catch (e) {
+        saved = []; // corrupted entry, fall back to the default layout
+    }
+    return reconcileColumns(category, saved);
+};
+
+export const saveColumnPrefs = (userId: string, categoryId: string, columns: ColumnPref[]) => {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(storageKey(userId, categoryId), JSON.stringify(columns));
+};
+
+export const resetColumnPrefs = (userId: string, categoryId: string) => {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.removeItem(storageKey(userId, categoryId));
+};
+
+export const loadDefaultViewId = (userId: string, categoryId: string): string | null =>
+    typeof localStorage !== 'undefined' ? localStorage.getItem(defaultViewKey(userId, categoryId)) : null;
+
+export const saveDefaultViewId = (userId: string, categoryId: string, viewId: string | null) => {
+    if (typeof localStorage === 'undefined') return;
+    if (viewId) localStorage.setItem(defaultViewKey(userId, categoryId), viewId);
+    else localStorage.removeItem(defaultViewKey(userId, categoryId));
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { Category, FieldDefinition } from '../types';
+import { defaultMergeChoice, diffConflict, mergeConflictData } from './conflicts';
+
+const field = (key: string, type: FieldDefinition['type'] = 'text', extra: Partial<FieldDefinition> = {}): FieldDefinition =>
+    ({ id: key, key, name: key, type, required: false, ...extra });
+
+const category: Category = {
+    id: 'c1', name: 'Test', description: '', createdAt: 0, accessLevel: 'public',
+    fieldKeyAliases: { ten: 'name' },
+    fields: [field('name'), field('qty', 'number'), field('note'), field('status'), field('total', 'formula', { formula: '{qty}' })]
+};
+
+describe('diffConflict', () => {
+    const base = { ten: 'A', qty: 1, note: 'x', status: 'open', total: 1 };
+    const mine = { name: 'B', qty: '1', note: 'y', status: 'open', total: 1 };
+    const theirs = { name: 'A', qty: 2, note: 'z', status: 'open', total: 2 };
+    const conflicts = diffConflict(category, base, mine, theirs);
+
+    it('lists the differing fields under their current keys, formulas left out', () => {
+        expect(conflicts.map(c => [c.field.key, c.mine, c.theirs, c.mineChanged, c.theirsChanged])).toEqual([
+            ['name', 'B', 'A', true, false],
+            ['qty', '1', 2, false, true],
+            ['note', 'y', 'z', true, true]
+        ]);
+    });
+
+    it('keeps their value only where they alone changed the field', () => {
+        expect(conflicts.map(defaultMergeChoice)).toEqual(['mine', 'theirs', 'mine']);
+        expect(mergeConflictData(category, theirs, conflicts, {})).toEqual({ name: 'B', qty: 2, note: 'y', status: 'open', total: 2 });
+        expect(mergeConflictData(category, theirs, conflicts, { note: 'theirs', qty: 'mine' })).toEqual({ name: 'B', qty: '1', note: 'z', status: 'open', total: 2 });
+    });
+});
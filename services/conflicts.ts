@@ -0,0 +1,53 @@
+import { Category, FieldDefinition, ResourceItem } from '../types';
+import { normalizeDataKeys } from './fieldKeys';
+import { sameValue } from './validation';
+
+// Optimistic concurrency of resource edits: every save bumps ResourceItem.version and an edit is only written
+// while the stored version is still the one the editor started from. Otherwise the editor merges its changes
+// with the stored record ("yours vs. theirs" per field) and saves again against the new version.
+
+export class ResourceConflictError extends Error {
+    constructor(public current: ResourceItem | null) { // null: the record was deleted in the meantime
+        super(current ? 'Bản ghi đã được người khác cập nhật' : 'Bản ghi đã bị người khác xóa');
+    }
+}
+
+export type MergeChoice = 'mine' | 'theirs';
+
+export interface FieldConflict {
+    field: FieldDefinition;
+    mine: any;
+    theirs: any;
+    // compared to the version the edit started from
+    mineChanged: boolean;
+    theirsChanged: boolean;
+}
+
+// Fields whose value differs between my edit and the stored record. Formulas are left out, they are recomputed.
+export const diffConflict = (category: Category, base: Record<string, any>, mine: Record<string, any>, theirs: Record<string, any>): FieldConflict[] => {
+    const start = normalizeDataKeys(category, base || {});
+    const mineData = normalizeDataKeys(category, mine || {});
+    const theirsData = normalizeDataKeys(category, theirs || {});
+    return category.fields
+        .filter(f => f.type !== 'formula' && !sameValue(mineData[f.key], theirsData[f.key]))
+        .map(field => ({
+            field,
+            mine: mineData[field.key],
+            theirs: theirsData[field.key],
+            mineChanged: !sameValue(start[field.key], mineData[field.key]),
+            theirsChanged: !sameValue(start[field.key], theirsData[field.key])
+        }));
+};
+
+// Keeps their value for fields only they changed, mine otherwise
+export const defaultMergeChoice = (conflict: FieldConflict): MergeChoice =>
+    conflict.theirsChanged && !conflict.mineChanged ? 'theirs' : 'mine';
+
+// The stored data with my value for the fields where mine is chosen
+export const mergeConflictData = (category: Category, theirs: Record<string, any>, conflicts: FieldConflict[], choices: Record<string, MergeChoice>): Record<string, any> => {
+    const merged = { ...normalizeDataKeys(category, theirs || {}) };
+    conflicts.forEach(c => {
+        if ((choices[c.field.key] ?? defaultMergeChoice(c)) === 'mine') merged[c.field.key] = c.mine;
+    });
+    return merged;
+};
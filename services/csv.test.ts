@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { decodeText, detectDelimiter, parseCSV, toCSV } from './csv';
+
+describe('parseCSV', () => {
+    it('reads quoted cells holding delimiters, quotes and line breaks', () => {
+        expect(parseCSV('name,note\r\n"Máy in, A4","Ghi ""chú""\ndòng 2"\n')).toEqual([
+            ['name', 'note'],
+            ['Máy in, A4', 'Ghi "chú"\ndòng 2']
+        ]);
+    });
+
+    it('skips blank lines and keeps empty cells', () => {
+        expect(parseCSV('a;b;c\n\n1;;3\n ; \n', ';')).toEqual([['a', 'b', 'c'], ['1', '', '3']]);
+    });
+
+    it('reads back what toCSV writes', () => {
+        const rows = [['Tên', 'Ghi chú'], ['a;b', 'x "y"\nz'], ['', 'c']];
+        expect(parseCSV(toCSV(rows, ';'), ';')).toEqual(rows);
+        expect(toCSV([[1, null, undefined, 'a,b']])).toBe('1,,,"a,b"');
+    });
+});
+
+describe('detectDelimiter / decodeText', () => {
+    it('picks the delimiter of the first line, quoted text excluded', () => {
+        expect(detectDelimiter('"a,b,c";d;e\n1,2,3,4')).toBe(';');
+        expect(detectDelimiter('a\tb\tc')).toBe('\t');
+        expect(detectDelimiter('single')).toBe(',');
+    });
+
+    it('drops the byte order mark', () => {
+        const buffer = new TextEncoder().encode('\uFEFFTên,Mã').buffer;
+        expect(decodeText(buffer, 'utf-8')).toBe('Tên,Mã');
+    });
+});
@@ -0,0 +1,85 @@
+// CSV reading and writing for the import wizard and the exports (RFC 4180: quoted cells may hold
+// delimiters, doubled quotes and line breaks).
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'windows-1258' | 'windows-1252';
+
+export const CSV_DELIMITERS: { value: string; label: string }[] = [
+    { value: ',', label: 'Dấu phẩy (,)' },
+    { value: ';', label: 'Dấu chấm phẩy (;)' },
+    { value: '\t', label: 'Tab' },
+    { value: '|', label: 'Gạch đứng (|)' }
+];
+
+export const CSV_ENCODINGS: { value: CsvEncoding; label: string }[] = [
+    { value: 'utf-8', label: 'UTF-8' },
+    { value: 'windows-1258', label: 'Windows-1258 (Tiếng Việt)' },
+    { value: 'windows-1252', label: 'Windows-1252 (Tây Âu)' },
+    { value: 'utf-16le', label: 'UTF-16 LE' }
+];
+
+export const decodeText = (buffer: ArrayBuffer, encoding: CsvEncoding): string => {
+    let text: string;
+    try {
+        text = new TextDecoder(encoding).decode(buffer);
+    } catch (e) {
+        text = new TextDecoder('utf-8').decode(buffer); // label not supported by this runtime
+    }
+    return text.replace(/^\uFEFF/, '');
+};
+
+// Picks the candidate delimiter seen most often in the first line, quoted text excluded
+export const detectDelimiter = (text: string): string => {
+    const counts: Record<string, number> = {};
+    let quote = false;
+    for (const c of text) {
+        if (c === '"') quote = !quote;
+        else if (!quote && (c === '\n' || c === '\r')) break;
+        else if (!quote) counts[c] = (counts[c] || 0) + 1;
+    }
+    const best = CSV_DELIMITERS.reduce((a, b) => (counts[b.value] || 0) > (counts[a.value] || 0) ? b : a);
+    return counts[best.value] ? best.value : ',';
+};
+
+// Rows of cells; blank lines are skipped
+export const parseCSV = (text: string, delimiter = ','): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quote = false;
+
+    const endRow = () => {
+        row.push(cell);
+        if (row.some(v => v.trim() !== '')) rows.push(row);
+        row = [];
+        cell = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quote) {
+            if (c === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+            else if (c === '"') quote = false;
+            else cell += c;
+        } else if (c === '"') {
+            quote = true;
+        } else if (c === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            endRow();
+        } else {
+            cell += c;
+        }
+    }
+    if (cell !== '' || row.length > 0) endRow();
+    return rows;
+};
+
+const escapeCell = (value: any, delimiter: string): string => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = (rows: any[][], delimiter = ','): string =>
+    rows.map(row => row.map(v => escapeCell(v, delimiter)).join(delimiter)).join('\n');
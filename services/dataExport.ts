@@ -0,0 +1,153 @@
+import { Category, FieldDefinition, Project, ResourceItem, User } from '../types';
+import { toReferenceIds, getResourceTitle } from './references';
+import { formatFormulaValue } from './formula';
+import { toCSV } from './csv';
+import { XlsxCell, XlsxSheet } from './xlsx';
+
+// Export of DataManager: records are turned into a format-neutral table (display values, typed cells),
+// then written as CSV, Excel sheets or JSON.
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+// date: YYYY-MM-DD strings, datetime: timestamps
+export type ExportColumnType = 'text' | 'number' | 'boolean' | 'date' | 'datetime';
+
+export type ExportValue = string | number | boolean | null;
+
+export interface ExportTable {
+    name: string;
+    columns: { header: string; type: ExportColumnType }[];
+    rows: ExportValue[][];
+}
+
+// Names shown instead of stored ids. `referenceData` holds the referenced records, by category id.
+export interface ExportLookups {
+    categories: Category[];
+    projects: Project[];
+    users: User[];
+    referenceData: Record<string, ResourceItem[]>;
+}
+
+export const ALL_ASSIGNED_LABEL = 'Tất cả (All)';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const columnType = (field: FieldDefinition): ExportColumnType => {
+    switch (field.type) {
+        case 'number': return 'number';
+        case 'boolean': return 'boolean';
+        case 'date': return 'date';
+        default: return 'text';
+    }
+};
+
+const toIds = (value: any): string[] => Array.isArray(value) ? value : (value ? [value] : []);
+
+const exportValue = (field: FieldDefinition, value: any, lookups: ExportLookups): ExportValue => {
+    if (value === undefined || value === null || value === '') return null;
+    switch (field.type) {
+        case 'number':
+            return typeof value === 'number' ? value : (isNaN(Number(value)) ? String(value) : Number(value));
+        case 'boolean':
+            return value === 'true' || value === true;
+        case 'project':
+            return toIds(value).map(id => id === 'all' ? ALL_ASSIGNED_LABEL : (lookups.projects.find(p => p.id === id)?.code || id)).join(', ');
+        case 'user':
+            return toIds(value).map(id => {
+                if (id === 'all') return ALL_ASSIGNED_LABEL;
+                const u = lookups.users.find(usr => usr.id === id);
+                return u ? (u.fullName || u.username) : id;
+            }).join(', ');
+        case 'select':
+        case 'multiselect':
+            return toIds(value).map(v => field.options?.find(o => o.value === v)?.label || v).join(', ');
+        case 'reference': {
+            const target = lookups.categories.find(c => c.id === field.reference?.categoryId);
+            const records = lookups.referenceData[field.reference?.categoryId || ''] || [];
+            return toReferenceIds(value).map(id => {
+                const record = records.find(r => r.id === id);
+                return record ? getResourceTitle(record, target, field.reference?.displayFieldKey) : `#${id.slice(0, 8)}`;
+            }).join(', ');
+        }
+        case 'formula':
+            return typeof value === 'number' ? value : formatFormulaValue(value);
+        default:
+            return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+};
+
+// ID, every field, creator and creation time, the columns the importer maps back
+export const buildExportTable = (category: Category, resources: ResourceItem[], lookups: ExportLookups): ExportTable => ({
+    name: category.name,
+    columns: [
+        { header: 'ID', type: 'text' },
+        ...category.fields.map(f => ({ header: f.name, type: columnType(f) })),
+        { header: 'Người tạo', type: 'text' },
+        { header: 'Ngày tạo', type: 'datetime' },
+        { header: 'Người sửa', type: 'text' },
+        { header: 'Ngày sửa', type: 'datetime' }
+    ],
+    rows: resources.map(resource => [
+        resource.id,
+        ...category.fields.map(f => exportValue(f, resource.data?.[f.key], lookups)),
+        resource.createdBy,
+        resource.createdAt,
+        resource.updatedBy ?? resource.createdBy,
+        resource.updatedAt ?? resource.createdAt
+    ])
+});
+
+export const toCsvRows = (table: ExportTable): string[][] => [
+    table.columns.map(c => c.header),
+    ...table.rows.map(row => row.map((value, i) => {
+        if (value === null) return '';
+        switch (table.columns[i].type) {
+            case 'boolean': return value ? 'Có' : 'Không';
+            case 'date': return ISO_DATE.test(String(value)) ? new Date(String(value)).toLocaleDateString('vi-VN') : String(value);
+            case 'datetime': return new Date(Number(value)).toLocaleString('vi-VN');
+            default: return String(value);
+        }
+    }))
+];
+
+export const toXlsxSheet = (table: ExportTable): XlsxSheet => ({
+    name: table.name,
+    rows: [
+        table.columns.map(c => c.header),
+        ...table.rows.map(row => row.map((value, i): XlsxCell => {
+            const type = table.columns[i].type;
+            if (type === 'date' && typeof value === 'string' && ISO_DATE.test(value)) {
+                const [y, m, d] = value.split('-').map(Number);
+                return new Date(y, m - 1, d);
+            }
+            if (type === 'datetime' && typeof value === 'number') return new Date(value);
+            return value;
+        }))
+    ]
+});
+
+// Records keyed by column header, dates as YYYY-MM-DD and ISO 8601 timestamps
+const toJsonRecords = (table: ExportTable): Record<string, ExportValue>[] =>
+    table.rows.map(row => Object.fromEntries(row.map((value, i) => [
+        table.columns[i].header,
+        table.columns[i].type === 'datetime' && typeof value === 'number' ? new Date(value).toISOString() : value
+    ])));
+
+// { [category name]: records }, read back by jsonToTables
+export const toJsonExport = (tables: ExportTable[]): Record<string, Record<string, ExportValue>[]> =>
+    Object.fromEntries(tables.map(t => [t.name, toJsonRecords(t)]));
+
+export const downloadBlob = (fileName: string, blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', fileName);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+// UTF-8 with BOM so Excel picks the right encoding
+export const downloadCSV = (fileName: string, rows: any[][]) =>
+    downloadBlob(fileName, new Blob(['\uFEFF' + toCSV(rows)], { type: 'text/csv;charset=utf-8;' }));
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { Category, FieldDefinition, Project, ResourceItem, User } from '../types';
+import { ImportContext, RECORD_ID_COLUMN, convertCell, jsonToSheets, prepareImport, suggestMapping, summarizeImport } from './dataImport';
+
+const field = (key: string, type: FieldDefinition['type'], extra: Partial<FieldDefinition> = {}): FieldDefinition =>
+    ({ id: key, key, name: key, type, required: false, ...extra });
+
+const category: Category = {
+    id: 'c1', name: 'Thiết bị', description: '', createdAt: 0, accessLevel: 'public',
+    fieldKeyAliases: { ma_cu: 'code' },
+    fields: [
+        field('code', 'text', { name: 'Mã', validation: { unique: true } }),
+        field('name', 'text', { name: 'Tên thiết bị', required: true }),
+        field('qty', 'number', { name: 'Số lượng' }),
+        field('status', 'select', { name: 'Trạng thái', options: [{ value: 'ok', label: 'Tốt', color: 'emerald' }] }),
+        field('owner', 'user', { name: 'Người quản lý' }),
+        field('project', 'project', { name: 'Dự án' }),
+        field('parent', 'reference', { name: 'Thuộc', reference: { categoryId: 'c1' } }),
+        field('double', 'formula', { name: 'Gấp đôi', formula: '{qty} * 2' })
+    ]
+};
+
+const users: User[] = [{ id: 'u1', username: 'an', email: 'an@x.vn', fullName: 'Nguyễn Văn An', role: 'user' }];
+const projects: Project[] = [{ id: 'p1', name: 'Dự án A', code: 'DA-A', description: '', status: 'active', createdAt: '' }];
+const context: ImportContext = { category, users, projects, getReferenceCandidates: () => [{ id: 'r9', title: 'Tủ rack' }] };
+
+const fieldOf = (key: string) => category.fields.find(f => f.key === key)!;
+
+describe('suggestMapping', () => {
+    it('matches headers by name, old keys and accent-free names, never formulas or a field twice', () => {
+        expect(suggestMapping(['Tên thiết bị', 'ma_cu', 'so luong', 'Gấp đôi', 'Mã', 'ID'], category))
+            .toEqual({ 0: 'name', 1: 'code', 2: 'qty', 5: RECORD_ID_COLUMN });
+    });
+});
+
+describe('convertCell', () => {
+    it('turns labels, names and titles into stored values', () => {
+        expect(convertCell(fieldOf('status'), ' tốt ', context)).toBe('ok');
+        expect(convertCell(fieldOf('owner'), 'Nguyễn Văn An', context)).toEqual(['u1']);
+        expect(convertCell(fieldOf('project'), 'DA-A; Tất cả (All)', context)).toEqual(['p1', 'all']);
+        expect(convertCell(fieldOf('parent'), 'tủ RACK', context)).toBe('r9');
+    });
+
+    it('keeps unknown values for the validation to report', () => {
+        expect(convertCell(fieldOf('status'), 'Hỏng', context)).toBe('Hỏng');
+        expect(convertCell(fieldOf('owner'), 'ai đó', context)).toEqual(['ai đó']);
+    });
+});
+
+describe('prepareImport', () => {
+    const mapping = { 0: 'code', 1: 'name', 2: 'qty' };
+    const options = { keyField: null, deleteMissing: false, firstRowNumber: 2 };
+
+    it('validates every row against the saved records and the rows above', () => {
+        const existing: ResourceItem[] = [{ id: 'r1', categoryId: 'c1', data: { code: 'M1', name: 'Máy in' }, createdBy: 'an', createdAt: 1 }];
+        const plan = prepareImport([['M2', 'Máy chiếu', '3'], ['m1', 'Máy in 2', ''], ['M2', '', 'x']], mapping, context, existing, options);
+        expect(plan.rows[0].data).toMatchObject({ code: 'M2', qty: 3, double: 6 });
+        expect(Object.keys(plan.rows[1].errors)).toEqual(['code']);
+        expect(Object.keys(plan.rows[2].errors).sort()).toEqual(['code', 'name', 'qty']);
+        expect(summarizeImport(plan)).toMatchObject({ total: 3, created: 1, invalid: 2, errorsByField: { code: 2, name: 1, qty: 1 } });
+    });
+});
+
+describe('jsonToSheets', () => {
+    it('reads an array of records or one sheet per array property', () => {
+        expect(jsonToSheets('[{"a": 1}, {"b": [1, 2]}, 3]')).toEqual([{ name: 'JSON', rows: [['a', 'b'], ['1', ''], ['', '1, 2']] }]);
+        expect(jsonToSheets('{"Máy": [{"a": null}], "note": "x"}')).toEqual([{ name: 'Máy', rows: [['a'], ['']] }]);
+    });
+
+    it('rejects invalid JSON and files without records', () => {
+        expect(() => jsonToSheets('{')).toThrow('Tệp JSON không hợp lệ');
+        expect(() => jsonToSheets('{"a": 1}')).toThrow('không chứa danh sách bản ghi');
+    });
+});
+
+describe('prepareImport with a key field', () => {
+    const existing: ResourceItem[] = [
+        { id: 'r1', categoryId: 'c1', data: { code: 'M1', name: 'Máy in', qty: 2 }, createdBy: 'an', createdAt: 1 },
+        { id: 'r2', categoryId: 'c1', data: { code: 'M2', name: 'Máy chiếu', qty: 1 }, createdBy: 'an', createdAt: 2 },
+        { id: 'r3', categoryId: 'c1', data: { code: 'M3', name: 'Loa' }, createdBy: 'an', createdAt: 3 }
+    ];
+
+    it('updates the matched records with the mapped columns only and deletes the missing ones', () => {
+        const plan = prepareImport([[' m1 ', '5'], ['M2', '1'], ['M4', '']], { 0: 'code', 1: 'qty' }, context, existing, { keyField: 'code', deleteMissing: true, firstRowNumber: 2 });
+        expect(plan.rows.map(r => [r.action, r.targetId])).toEqual([['update', 'r1'], ['unchanged', 'r2'], ['create', undefined]]);
+        expect(plan.rows[0].data).toMatchObject({ code: 'm1', name: 'Máy in', qty: 5, double: 10 });
+        expect(plan.deleteIds).toEqual(['r3']);
+    });
+
+    it('matches record ids and rejects keys used twice in the file', () => {
+        const plan = prepareImport([['r1', 'Máy in mới'], ['R1', 'Lặp']], { 0: RECORD_ID_COLUMN, 1: 'name' }, context, existing, { keyField: RECORD_ID_COLUMN, deleteMissing: false, firstRowNumber: 2 });
+        expect(plan.rows[0]).toMatchObject({ action: 'update', targetId: 'r1', errors: {} });
+        expect(plan.rows[1].errors).toEqual({ [RECORD_ID_COLUMN]: 'Khóa "R1" trùng với dòng 2' });
+        expect(plan.deleteIds).toEqual([]);
+    });
+});
@@ -0,0 +1,306 @@
+import { Category, FieldDefinition, Project, ResourceItem, User } from '../types';
+import { findFieldByKey, slugifyFieldKey, normalizeDataKeys } from './fieldKeys';
+import { validateResourceData, coerceNumberFields, isEmptyValue, sameValue, ValidationErrors } from './validation';
+import { applyFormulas } from './formula';
+import { ALL_ASSIGNED_LABEL } from './dataExport';
+
+// Import of DataManager (CSV, Excel, JSON): column -> field mapping, conversion of the cells to stored values
+// and the dry run (validation of every row before anything is saved).
+
+export interface ReferenceCandidate {
+    id: string;
+    title: string;
+}
+
+// Lookups used to turn names, codes and titles into ids
+export interface ImportContext {
+    category: Category;
+    projects: Project[];
+    users: User[];
+    getReferenceCandidates: (field: FieldDefinition) => ReferenceCandidate[]; // at least the records named in the file
+}
+
+// Column index -> field key (or RECORD_ID_COLUMN), unmapped columns are absent
+export type ColumnMapping = Record<number, string>;
+
+// Mapping target of a column holding record ids (the ID column of the exports), used to match existing records
+export const RECORD_ID_COLUMN = '@id';
+
+export const getMappedColumns = (mapping: ColumnMapping): { index: number; key: string }[] =>
+    Object.keys(mapping).map(Number).sort((a, b) => a - b).map(index => ({ index, key: mapping[index] }));
+
+export type ImportAction = 'create' | 'update' | 'unchanged';
+
+export interface ImportRow {
+    rowNumber: number; // line of the file, for messages and the error report
+    cells: string[];
+    action: ImportAction;
+    targetId?: string; // existing record matched by the key (update / unchanged)
+    data: Record<string, any>; // full record data to save
+    errors: ValidationErrors; // by field key (or RECORD_ID_COLUMN)
+}
+
+export interface ImportOptions {
+    keyField: string | null; // field key or RECORD_ID_COLUMN; null = every row creates a record
+    deleteMissing: boolean; // delete the records whose key is absent from the file (needs keyField)
+    firstRowNumber: number;
+}
+
+export interface ImportPlan {
+    rows: ImportRow[];
+    deleteIds: string[];
+}
+
+export interface ImportSummary {
+    total: number;
+    created: number;
+    updated: number;
+    unchanged: number;
+    invalid: number;
+    deleted: number;
+    errorsByField: Record<string, number>;
+}
+
+export const getImportableFields = (category: Category) => category.fields.filter(f => f.type !== 'formula'); // formulas are recomputed
+
+const normalizeHeader = (text: string) => slugifyFieldKey(text.trim());
+
+// Suggests a field per header: by name, by key (old keys included), then ignoring case, accents and punctuation.
+// A field is suggested for one column at most.
+export const suggestMapping = (headers: string[], category: Category): ColumnMapping => {
+    const fields = getImportableFields(category);
+    const mapping: ColumnMapping = {};
+    const used = new Set<string>();
+    headers.forEach((header, index) => {
+        const text = header.trim();
+        if (!text) return;
+        const field = fields.find(f => f.name.toLowerCase() === text.toLowerCase())
+            || findFieldByKey(category, text)
+            || fields.find(f => normalizeHeader(f.name) === normalizeHeader(text) || f.key === normalizeHeader(text));
+        if (field && field.type !== 'formula' && !used.has(field.key)) {
+            mapping[index] = field.key;
+            used.add(field.key);
+        } else if (!field && text.toLowerCase() === 'id' && !used.has(RECORD_ID_COLUMN)) {
+            mapping[index] = RECORD_ID_COLUMN;
+            used.add(RECORD_ID_COLUMN);
+        }
+    });
+    return mapping;
+};
+
+const BOOLEAN_TRUE = ['true', 'có', 'đúng', '1', 'yes', 'x'];
+
+const splitList = (raw: string) => raw.split(/[;,]/).map(p => p.trim()).filter(p => p);
+
+// YYYY-MM-DD, or dd/mm/yyyy as written by the CSV export. Anything else is kept for validation to report.
+const toDateValue = (raw: string) => {
+    const vn = raw.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+    return vn ? `${vn[3]}-${vn[2].padStart(2, '0')}-${vn[1].padStart(2, '0')}` : raw;
+};
+
+const isAllAssigned = (text: string) => text === 'all' || text === ALL_ASSIGNED_LABEL;
+
+// User / project cells: one name, or a list as written by the exports
+const matchAssignees = (raw: string, find: (text: string) => string | undefined): string[] => {
+    if (!raw) return [];
+    if (isAllAssigned(raw)) return ['all'];
+    const whole = find(raw); // names may contain commas
+    if (whole) return [whole];
+    return splitList(raw).map(p => isAllAssigned(p) ? 'all' : (find(p) || p));
+};
+
+// Converts a cell to the stored form of the field
+export const convertCell = (field: FieldDefinition, cell: string, context: ImportContext): any => {
+    const raw = cell.trim();
+    switch (field.type) {
+        case 'boolean':
+            return BOOLEAN_TRUE.includes(raw.toLowerCase()) ? 'true' : 'false';
+        case 'date':
+            return toDateValue(raw);
+        case 'project':
+            // By code, name or id; unknown values are kept as typed
+            return matchAssignees(raw, p => {
+                const project = context.projects.find(proj => proj.code === p || proj.name === p || proj.id === p);
+                return project?.id;
+            });
+        case 'user':
+            return matchAssignees(raw, p => {
+                const user = context.users.find(usr => usr.username === p || usr.fullName === p || usr.email === p || usr.id === p);
+                return user?.id;
+            });
+        case 'select':
+        case 'multiselect': {
+            // Option labels (case-insensitive) or raw option values; multiselect cells are separated by , or ;
+            const parts = field.type === 'multiselect' ? splitList(raw) : (raw ? [raw] : []);
+            const mapped = parts.map(p => {
+                const option = field.options?.find(o => o.label.toLowerCase() === p.toLowerCase() || o.value === p);
+                return option ? option.value : p;
+            });
+            return field.type === 'multiselect' ? mapped : (mapped[0] || '');
+        }
+        case 'reference': {
+            // Referenced records by title (case-insensitive) or id
+            const candidates = context.getReferenceCandidates(field);
+            const parts = field.reference?.multiple ? splitList(raw) : (raw ? [raw] : []);
+            const mapped = parts.map(p => {
+                const match = candidates.find(c => c.title.toLowerCase() === p.toLowerCase() || c.id === p);
+                return match ? match.id : p;
+            });
+            return field.reference?.multiple ? mapped : (mapped[0] || '');
+        }
+        default:
+            return raw;
+    }
+};
+
+// Values of the columns mapped to reference fields (titles or ids), by field key: the records they name are
+// looked up before the dry run
+export const getReferenceValues = (rows: string[][], mapping: ColumnMapping, category: Category): Record<string, string[]> => {
+    const values: Record<string, string[]> = {};
+    getMappedColumns(mapping).forEach(({ index, key }) => {
+        const field = category.fields.find(f => f.key === key);
+        if (field?.type !== 'reference') return;
+        const parts = rows.flatMap(cells => {
+            const raw = (cells[index] || '').trim();
+            return field.reference?.multiple ? splitList(raw) : (raw ? [raw] : []);
+        });
+        values[key] = Array.from(new Set(parts));
+    });
+    return values;
+};
+
+// Converted values of the mapped columns only (record ids and formulas excluded)
+export const convertRow = (cells: string[], mapping: ColumnMapping, context: ImportContext): Record<string, any> => {
+    const { category } = context;
+    const data: Record<string, any> = {};
+    getMappedColumns(mapping).forEach(({ index, key }) => {
+        const field = category.fields.find(f => f.key === key);
+        if (field && field.type !== 'formula') data[key] = convertCell(field, cells[index] || '', context);
+    });
+    return coerceNumberFields(category, data);
+};
+
+// Comparable form of a key value: case, surrounding spaces and list order do not matter
+const normalizeKey = (value: any): string =>
+    isEmptyValue(value) ? '' : (Array.isArray(value) ? [...value].map(String).sort().join('\u0000') : String(value)).trim().toLowerCase();
+
+const isUnchanged = (category: Category, before: Record<string, any>, after: Record<string, any>) =>
+    category.fields.every(f => sameValue(before[f.key], after[f.key]));
+
+// Dry run: converts and validates every data row and decides what it does. Rows are matched to `existing`
+// (every record of the category) by `keyField`; matched rows update the record with their mapped columns, the
+// other columns keep their values. Uniqueness is checked against the saved records and the rows above.
+export const prepareImport = (
+    rows: string[][],
+    mapping: ColumnMapping,
+    context: ImportContext,
+    existing: ResourceItem[],
+    options: ImportOptions
+): ImportPlan => {
+    const { category } = context;
+    const { keyField } = options;
+    const idColumn = getMappedColumns(mapping).find(c => c.key === RECORD_ID_COLUMN)?.index;
+    const saved = existing.map(r => ({ ...r, data: applyFormulas(category, normalizeDataKeys(category, r.data || {})) }));
+
+    const byKey = new Map<string, ResourceItem[]>();
+    if (keyField) {
+        saved.forEach(r => {
+            const key = keyField === RECORD_ID_COLUMN ? normalizeKey(r.id) : normalizeKey(r.data[keyField]);
+            if (key) byKey.set(key, [...(byKey.get(key) || []), r]);
+        });
+    }
+
+    const known = [...saved]; // records as they will be after the rows above
+    const seenKeys = new Map<string, number>(); // key -> first row using it
+    const planned = rows.map((cells, i): ImportRow => {
+        const rowNumber = options.firstRowNumber + i;
+        const values = convertRow(cells, mapping, context);
+        const rawKey = !keyField ? '' : (keyField === RECORD_ID_COLUMN ? (idColumn !== undefined ? cells[idColumn] : '') : values[keyField]);
+        const keyValue = normalizeKey(rawKey);
+        const keyErrors: ValidationErrors = {};
+
+        if (keyValue && seenKeys.has(keyValue)) {
+            keyErrors[keyField!] = `Khóa "${rawKey}" trùng với dòng ${seenKeys.get(keyValue)}`;
+        } else if (keyValue) {
+            seenKeys.set(keyValue, rowNumber);
+        }
+        const matches = keyValue ? (byKey.get(keyValue) || []) : [];
+        if (matches.length > 1) keyErrors[keyField!] = `Khóa "${rawKey}" khớp với ${matches.length} bản ghi`;
+        const target = matches.length === 1 ? matches[0] : undefined;
+
+        const data = applyFormulas(category, target ? { ...target.data, ...values } : values);
+        const errors = { ...validateResourceData(category, data, known, target?.id), ...keyErrors };
+        const action: ImportAction = !target ? 'create' : (isUnchanged(category, target.data, data) ? 'unchanged' : 'update');
+
+        if (Object.keys(errors).length === 0) {
+            const record = { id: target?.id || `import-${i}`, categoryId: category.id, data, createdBy: '', createdAt: 0 };
+            const index = target ? known.findIndex(r => r.id === target.id) : -1;
+            if (index >= 0) known[index] = record;
+            else known.push(record);
+        }
+        return { rowNumber, cells, action, targetId: target?.id, data, errors };
+    });
+
+    // Records whose key is not in the file; rows with errors still count as present
+    const deleteIds = keyField && options.deleteMissing
+        ? saved.filter(r => !seenKeys.has(keyField === RECORD_ID_COLUMN ? normalizeKey(r.id) : normalizeKey(r.data[keyField]))).map(r => r.id)
+        : [];
+    return { rows: planned, deleteIds };
+};
+
+export const summarizeImport = (plan: ImportPlan): ImportSummary => {
+    const summary: ImportSummary = { total: plan.rows.length, created: 0, updated: 0, unchanged: 0, invalid: 0, deleted: plan.deleteIds.length, errorsByField: {} };
+    plan.rows.forEach(row => {
+        const keys = Object.keys(row.errors);
+        if (keys.length === 0) {
+            summary[row.action === 'create' ? 'created' : row.action === 'update' ? 'updated' : 'unchanged']++;
+            return;
+        }
+        summary.invalid++;
+        keys.forEach(key => { summary.errorsByField[key] = (summary.errorsByField[key] || 0) + 1; });
+    });
+    return summary;
+};
+
+export interface ImportSheet {
+    name: string;
+    rows: string[][]; // first row holds the headers when present
+}
+
+const toCellText = (value: any): string => {
+    if (value === undefined || value === null) return '';
+    if (Array.isArray(value)) return value.map(toCellText).join(', ');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const recordsToSheet = (name: string, records: unknown[]): ImportSheet => {
+    const objects = records.filter(isRecord);
+    const headers: string[] = [];
+    objects.forEach(r => Object.keys(r).forEach(key => { if (!headers.includes(key)) headers.push(key); }));
+    return { name, rows: [headers, ...objects.map(r => headers.map(h => toCellText(r[h])))] };
+};
+
+// JSON files: an array of records, or an object of record arrays (one sheet per property, as the JSON export writes)
+export const jsonToSheets = (text: string): ImportSheet[] => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (e) {
+        throw new Error('Tệp JSON không hợp lệ');
+    }
+    if (Array.isArray(parsed)) return [recordsToSheet('JSON', parsed)];
+    const sheets = isRecord(parsed)
+        ? Object.entries(parsed).flatMap(([key, value]) => Array.isArray(value) ? [recordsToSheet(key, value)] : [])
+        : [];
+    if (sheets.length === 0) throw new Error('Tệp JSON không chứa danh sách bản ghi');
+    return sheets;
+};
+
+// Rejected rows as they were in the file, with the line number and the reasons appended
+export const buildErrorReport = (headers: string[], rejected: { row: ImportRow; message: string }[]): string[][] => [
+    [...headers, 'Dòng', 'Lỗi'],
+    ...rejected.map(({ row, message }) => [...headers.map((_, i) => row.cells[i] ?? ''), String(row.rowNumber), message])
+];
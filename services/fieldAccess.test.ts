@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { Category, FieldDefinition, ResourceItem, User } from '../types';
+import { getHiddenKeys, isFieldLocked, keepLockedValues, readableCategory, redactResource } from './fieldAccess';
+
+const field = (key: string, type: FieldDefinition['type'], extra: Partial<FieldDefinition> = {}): FieldDefinition =>
+    ({ id: key, key, name: key, type, required: false, ...extra });
+
+const category: Category = {
+    id: 'c1', name: 'Nhân sự', description: '', createdAt: 0, accessLevel: 'public',
+    fieldKeyAliases: { luong: 'salary' },
+    fields: [
+        field('name', 'text'),
+        field('salary', 'number', { access: { readRoles: ['manager'] } }),
+        field('code', 'text', { access: { writeRoles: ['manager'] } }),
+        field('yearly', 'formula', { formula: '{salary} * 12' }),
+        field('label', 'formula', { formula: '{name} & "-" & {code}' })
+    ]
+};
+
+const staff: User = { id: 'u1', username: 'an', email: '', role: 'user' };
+const manager: User = { id: 'u2', username: 'binh', email: '', role: 'manager' };
+
+const record: ResourceItem = { id: 'r1', categoryId: 'c1', data: { name: 'An', luong: 10, code: 'NV1', yearly: 120, label: 'An-NV1' }, createdBy: 'an', createdAt: 1 };
+
+describe('redactResource', () => {
+    it('drops hidden fields, old keys included, and recomputes formulas without them', () => {
+        expect(readableCategory(staff, category).fields.map(f => f.key)).toEqual(['name', 'code', 'yearly', 'label']);
+        expect(redactResource(staff, category, record).data).toEqual({ name: 'An', code: 'NV1', yearly: null, label: 'An-NV1' });
+    });
+
+    it('returns the record unchanged for users reading every field', () => {
+        expect(redactResource(manager, category, record)).toBe(record);
+    });
+});
+
+describe('getHiddenKeys', () => {
+    it('hides the fields, the formulas reading them and their old keys', () => {
+        expect(getHiddenKeys(staff, category)).toEqual(['salary', 'yearly', 'luong']);
+        expect(getHiddenKeys(manager, category)).toEqual([]);
+    });
+});
+
+describe('keepLockedValues', () => {
+    it('puts the stored values of locked fields back and recomputes formulas with every field', () => {
+        expect(isFieldLocked(staff, category.fields[2])).toBe(true);
+        expect(isFieldLocked(staff, category.fields[1])).toBe(false);
+        const edited = { ...record, data: { name: 'An B', code: 'HACK', salary: 999 } };
+        expect(keepLockedValues(staff, category, edited, record).data).toEqual({ name: 'An B', salary: 10, code: 'NV1', yearly: 120, label: 'An B-NV1' });
+    });
+
+    it('leaves locked fields empty on new records', () => {
+        const created = { ...record, data: { name: 'C', code: 'X', salary: 5 } };
+        expect(keepLockedValues(staff, category, created).data).toEqual({ name: 'C', yearly: 0, label: 'C-' });
+    });
+});
@@ -0,0 +1,58 @@
+import { Category, FieldDefinition, PERMISSIONS, ResourceItem, User } from '../types';
+import { normalizeDataKeys, resolveFieldKey } from './fieldKeys';
+import { applyFormulas, getFormulaInputs } from './formula';
+
+// Field permissions (FieldDefinition.access). dataService strips the fields a user may not read from every record
+// it returns and puts the stored values of the fields they may not change back before writing, so the screens
+// only work with `readableCategory` and lock the fields reported by `isFieldLocked`.
+
+// The category as the user sees it: fields they may not read are left out of lists, filters, forms and exports
+export const readableCategory = (user: User, category: Category): Category => {
+    const fields = category.fields.filter(f => PERMISSIONS.canReadField(user, f));
+    return fields.length === category.fields.length ? category : { ...category, fields };
+};
+
+// Fields the user may fill in: checked by the form validation, offered by bulk edits and imports
+export const writableCategory = (user: User, category: Category): Category => {
+    const fields = category.fields.filter(f => PERMISSIONS.canWriteField(user, f));
+    return fields.length === category.fields.length ? category : { ...category, fields };
+};
+
+// Keys the user may not filter or sort on: the hidden fields and the formulas computed from one of them
+// (their stored values would reveal them), under their current and former keys
+export const getHiddenKeys = (user: User, category: Category): string[] => {
+    const hidden = category.fields
+        .filter(f => !PERMISSIONS.canReadField(user, f) || (f.type === 'formula' && getFormulaInputs(f, category).some(input => !PERMISSIONS.canReadField(user, input))))
+        .map(f => f.key);
+    const formerKeys = Object.keys(category.fieldKeyAliases || {}).filter(old => hidden.includes(resolveFieldKey(category, old)));
+    return [...hidden, ...formerKeys];
+};
+
+// Shown read-only in the edit form
+export const isFieldLocked = (user: User, field: FieldDefinition) =>
+    PERMISSIONS.canReadField(user, field) && !PERMISSIONS.canWriteField(user, field);
+
+// Drops the hidden values of a record or revision; formulas are recomputed from the visible fields only,
+// so they cannot reveal hidden ones
+export const redactResource = <T extends Pick<ResourceItem, 'data'>>(user: User, category: Category, resource: T): T => {
+    const readable = readableCategory(user, category);
+    if (readable === category) return resource;
+    const data = normalizeDataKeys(category, resource.data || {});
+    const visible: Record<string, any> = {};
+    readable.fields.forEach(f => { if (data[f.key] !== undefined) visible[f.key] = data[f.key]; });
+    return { ...resource, data: applyFormulas(readable, visible) };
+};
+
+// Fields the user may not change keep their value from `stored` (and stay empty on new records).
+// Formulas are recomputed with every field, the user may have computed them from a redacted record.
+export const keepLockedValues = (user: User, category: Category, resource: ResourceItem, stored?: ResourceItem): ResourceItem => {
+    const locked = category.fields.filter(f => !PERMISSIONS.canWriteField(user, f));
+    if (locked.length === 0) return resource;
+    const data = { ...normalizeDataKeys(category, resource.data || {}) };
+    const storedData = stored ? normalizeDataKeys(category, stored.data || {}) : {};
+    locked.forEach(f => {
+        if (storedData[f.key] === undefined) delete data[f.key];
+        else data[f.key] = storedData[f.key];
+    });
+    return { ...resource, data: applyFormulas(category, data) };
+};
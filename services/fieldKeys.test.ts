@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Category, FieldDefinition } from '../types';
+import { checkFieldKeys, findFieldByKey, normalizeDataKeys, slugifyFieldKey, uniqueFieldKey, updateKeyAliases } from './fieldKeys';
+
+const field = (id: string, key: string): FieldDefinition => ({ id, key, name: key, type: 'text', required: false });
+
+const category = (fields: FieldDefinition[], fieldKeyAliases?: Record<string, string>): Category =>
+    ({ id: 'c1', name: 'Test', description: '', createdAt: 0, accessLevel: 'public', fields, fieldKeyAliases });
+
+describe('slugifyFieldKey / uniqueFieldKey', () => {
+    it('derives keys from Vietnamese names', () => {
+        expect(slugifyFieldKey('Ngày bắt đầu')).toBe('ngay_bat_dau');
+        expect(slugifyFieldKey('Đơn giá (VNĐ)')).toBe('don_gia_vnd');
+        expect(slugifyFieldKey('2024 - Số lượng')).toBe('f_2024_so_luong');
+        expect(slugifyFieldKey('!!!')).toBe('field');
+    });
+
+    it('numbers taken keys', () => {
+        expect(uniqueFieldKey('ten', ['ten', 'ten_2'])).toBe('ten_3');
+        expect(uniqueFieldKey('ma', ['ten'])).toBe('ma');
+    });
+});
+
+describe('updateKeyAliases', () => {
+    it('remembers renames and moves older aliases along', () => {
+        const first = updateKeyAliases({}, [field('f1', 'ten')], [field('f1', 'ho_ten')]);
+        expect(first).toEqual({ ten: 'ho_ten' });
+        expect(updateKeyAliases(first, [field('f1', 'ho_ten')], [field('f1', 'name')])).toEqual({ ten: 'name', ho_ten: 'name' });
+    });
+
+    it('drops aliases of removed fields and keys taken back by a field', () => {
+        expect(updateKeyAliases({ ten: 'ho_ten' }, [field('f1', 'ho_ten')], [])).toBeUndefined();
+        expect(updateKeyAliases({ ten: 'ho_ten' }, [field('f1', 'ho_ten')], [field('f1', 'ten')])).toEqual({ ho_ten: 'ten' });
+    });
+});
+
+describe('old keys', () => {
+    const renamed = category([field('f1', 'name'), field('f2', 'code')], { ten: 'name', ho_ten: 'name' });
+
+    it('resolve to the current field', () => {
+        expect(findFieldByKey(renamed, 'ho_ten')?.id).toBe('f1');
+        expect(findFieldByKey(renamed, 'code')?.id).toBe('f2');
+        expect(findFieldByKey(renamed, 'other')).toBeUndefined();
+    });
+
+    it('move their values to the current key without overwriting it', () => {
+        expect(normalizeDataKeys(renamed, { ten: 'A', code: 'X' })).toEqual({ name: 'A', code: 'X' });
+        expect(normalizeDataKeys(renamed, { ten: 'old', name: 'new' })).toEqual({ name: 'new' });
+    });
+
+    it('cannot be reused by another field', () => {
+        expect(checkFieldKeys(renamed.fields, renamed.fieldKeyAliases)).toBeNull();
+        expect(checkFieldKeys([field('f1', 'name'), field('f2', 'ten')], renamed.fieldKeyAliases)).toContain('đã được sử dụng');
+        expect(checkFieldKeys([field('f1', 'Tên')])).toContain('chỉ được gồm chữ thường');
+    });
+});
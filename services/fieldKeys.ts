@@ -0,0 +1,99 @@
+import { Category, FieldDefinition } from '../types';
+
+// Field keys are the property names used in ResourceItem.data, CSV headers for API consumers and formulas.
+// They are derived from the field name ("Ngày bắt đầu" -> "ngay_bat_dau") and stay stable afterwards;
+// renamed keys are remembered in Category.fieldKeyAliases (old key -> current key) so old keys keep resolving.
+
+export const FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+export const slugifyFieldKey = (name: string): string => {
+    const slug = name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '') // strip diacritics
+        .replace(/đ/g, 'd')
+        .replace(/Đ/g, 'D')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '');
+    if (!slug) return 'field';
+    return /^[0-9]/.test(slug) ? `f_${slug}` : slug;
+};
+
+// Appends _2, _3... until the key is not taken
+export const uniqueFieldKey = (base: string, taken: string[]): string => {
+    if (!taken.includes(base)) return base;
+    let i = 2;
+    while (taken.includes(`${base}_${i}`)) i++;
+    return `${base}_${i}`;
+};
+
+// Keys that cannot be reused by another field: current keys and aliases of renamed keys
+export const takenFieldKeys = (fields: FieldDefinition[], aliases: Record<string, string> = {}, excludeFieldId?: string): string[] => [
+    ...fields.filter(f => f.id !== excludeFieldId).map(f => f.key),
+    ...Object.keys(aliases).filter(alias => {
+        const owner = fields.find(f => f.key === aliases[alias]);
+        return !owner || owner.id !== excludeFieldId; // a field may take back one of its own old keys
+    })
+];
+
+// Returns the current key for `key`, following renames
+export const resolveFieldKey = (category: Pick<Category, 'fieldKeyAliases'>, key: string): string =>
+    category.fieldKeyAliases?.[key] || key;
+
+export const findFieldByKey = (category: Category, key: string): FieldDefinition | undefined => {
+    const current = resolveFieldKey(category, key);
+    return category.fields.find(f => f.key === current);
+};
+
+// Moves values stored under old keys (e.g. written by an older client) to the current keys
+export const normalizeDataKeys = (category: Category, data: Record<string, any>): Record<string, any> => {
+    const aliases = category.fieldKeyAliases;
+    if (!aliases || !Object.keys(data).some(key => aliases[key])) return data;
+    const result: Record<string, any> = {};
+    Object.keys(data).forEach(key => {
+        const current = aliases[key];
+        if (current) {
+            if (result[current] === undefined && data[current] === undefined) result[current] = data[key];
+        } else {
+            result[key] = data[key];
+        }
+    });
+    return result;
+};
+
+// Records the key renames between two versions of the fields (matched by id) in the alias map
+export const updateKeyAliases = (
+    aliases: Record<string, string> = {},
+    previousFields: FieldDefinition[],
+    nextFields: FieldDefinition[]
+): Record<string, string> | undefined => {
+    const result: Record<string, string> = { ...aliases };
+    previousFields.forEach(field => {
+        const next = nextFields.find(f => f.id === field.id);
+        if (!next || next.key === field.key) return;
+        result[field.key] = next.key;
+        // Older aliases of this field follow the rename
+        Object.keys(result).forEach(alias => {
+            if (result[alias] === field.key) result[alias] = next.key;
+        });
+    });
+    // An alias equal to a current key would shadow that field, aliases of removed fields are useless
+    nextFields.forEach(f => { delete result[f.key]; });
+    Object.keys(result).forEach(alias => {
+        if (!nextFields.some(f => f.key === result[alias])) delete result[alias];
+    });
+    return Object.keys(result).length > 0 ? result : undefined;
+};
+
+// Returns an error message when keys are malformed or not unique within the category
+export const checkFieldKeys = (fields: FieldDefinition[], aliases: Record<string, string> = {}): string | null => {
+    for (const field of fields) {
+        if (!FIELD_KEY_PATTERN.test(field.key)) {
+            return `Trường "${field.name}": khóa "${field.key}" chỉ được gồm chữ thường không dấu, số và dấu gạch dưới`;
+        }
+        if (takenFieldKeys(fields, aliases, field.id).includes(field.key)) {
+            return `Trường "${field.name}": khóa "${field.key}" đã được sử dụng trong danh mục`;
+        }
+    }
+    return null;
+};
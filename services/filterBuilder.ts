@@ -0,0 +1,154 @@
+import { Category, FieldType, FilterCondition, FilterGroup, FilterNode, FilterOperator, ResourceFilter, ResourceFilterGroup } from '../types';
+import { generateUUID } from './uuid';
+import { isBuiltInColumn } from './columnPrefs';
+
+// Filter builder of DataManager: per-type operators and the conversion of the builder tree
+// (FilterGroup, what the user edits and saved views store) to the backend form (ResourceFilterGroup).
+
+// Built-in columns behave like their own field types
+export type FilterFieldType = FieldType | 'createdBy' | 'createdAt' | 'updatedBy' | 'updatedAt';
+
+const TEXT_OPERATORS: FilterOperator[] = ['contains', 'eq', 'neq', 'startsWith', 'in', 'empty', 'notEmpty'];
+const CHOICE_OPERATORS: FilterOperator[] = ['in', 'empty', 'notEmpty'];
+
+export const getFilterOperators = (type: FilterFieldType): FilterOperator[] => {
+    switch (type) {
+        case 'number': return ['eq', 'neq', 'gt', 'lt', 'between', 'empty', 'notEmpty'];
+        case 'date': return ['eq', 'lt', 'gt', 'between', 'lastDays', 'nextDays', 'empty', 'notEmpty'];
+        case 'createdAt':
+        case 'updatedAt': return ['eq', 'lt', 'gt', 'between', 'lastDays'];
+        case 'createdBy':
+        case 'updatedBy': return ['eq', 'neq', 'contains', 'startsWith', 'in'];
+        case 'boolean': return ['eq'];
+        case 'select':
+        case 'multiselect':
+        case 'user':
+        case 'project':
+        case 'reference': return CHOICE_OPERATORS;
+        case 'image':
+        case 'file': return ['empty', 'notEmpty'];
+        default: return TEXT_OPERATORS; // text, textarea, formula
+    }
+};
+
+// createdAt / updatedAt are timestamps, date fields YYYY-MM-DD strings
+export const isTimestampType = (type: FilterFieldType) => type === 'createdAt' || type === 'updatedAt';
+
+const isDateType = (type: FilterFieldType) => type === 'date' || isTimestampType(type);
+
+export const getOperatorLabel = (op: FilterOperator, type: FilterFieldType): string => {
+    switch (op) {
+        case 'eq': return isDateType(type) ? 'vào ngày' : 'bằng';
+        case 'neq': return 'khác';
+        case 'gt': return isDateType(type) ? 'sau ngày' : 'lớn hơn';
+        case 'lt': return isDateType(type) ? 'trước ngày' : 'nhỏ hơn';
+        case 'between': return 'trong khoảng';
+        case 'contains': return 'chứa';
+        case 'startsWith': return 'bắt đầu bằng';
+        case 'in': return 'thuộc danh sách';
+        case 'empty': return 'để trống';
+        case 'notEmpty': return 'có giá trị';
+        case 'lastDays': return 'trong N ngày qua';
+        case 'nextDays': return 'trong N ngày tới';
+    }
+};
+
+export const getFilterFieldType = (category: Category | undefined, field: string): FilterFieldType | undefined => {
+    if (isBuiltInColumn(field)) return field;
+    return category?.fields.find(f => f.key === field)?.type;
+};
+
+export const createFilterGroup = (combinator: 'and' | 'or' = 'and'): FilterGroup => ({ id: generateUUID(), combinator, items: [] });
+
+export const createFilterCondition = (field: string, type: FilterFieldType): FilterCondition => ({
+    id: generateUUID(),
+    field,
+    op: getFilterOperators(type)[0]
+});
+
+export const isFilterGroupNode = (node: FilterNode): node is FilterGroup => 'combinator' in node;
+
+export const countFilterConditions = (group: FilterGroup): number =>
+    group.items.reduce((total, node) => total + (isFilterGroupNode(node) ? countFilterConditions(node) : 1), 0);
+
+// Conditions of the group and its subgroups
+export const getFilterConditions = (group: FilterGroup): FilterCondition[] =>
+    group.items.flatMap(node => isFilterGroupNode(node) ? getFilterConditions(node) : [node]);
+
+// --- Conversion to the backend form ---
+
+const toISODate = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (date: Date, days: number) => {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+};
+
+const startOfDay = (value: string | Date) => { const d = new Date(value); d.setHours(0, 0, 0, 0); return d.getTime(); };
+const endOfDay = (value: string | Date) => { const d = new Date(value); d.setHours(23, 59, 59, 999); return d.getTime(); };
+
+const isBlankInput = (value: any) => value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const range = (field: string, from: string | number, to: string | number, numeric?: boolean): ResourceFilterGroup => ({
+    combinator: 'and',
+    items: [
+        { field, op: 'gte', value: from, numeric },
+        { field, op: 'lte', value: to, numeric }
+    ]
+});
+
+// Inclusive date range [from, to] (YYYY-MM-DD) on a date field or on a timestamp column
+const dateRange = (field: string, type: FilterFieldType, from: string, to: string) =>
+    isTimestampType(type) ? range(field, startOfDay(from), endOfDay(to), true) : range(field, from, to);
+
+const convertCondition = (condition: FilterCondition, type: FilterFieldType, today: Date): ResourceFilter | ResourceFilterGroup | null => {
+    const { field, op, value, value2 } = condition;
+    if (op === 'empty' || op === 'notEmpty') return { field, op };
+    if (isBlankInput(value) || (op === 'between' && isBlankInput(value2))) return null; // incomplete, ignored
+
+    if (op === 'lastDays' || op === 'nextDays') {
+        const days = Math.max(0, Number(value) || 0);
+        return op === 'lastDays'
+            ? dateRange(field, type, toISODate(addDays(today, -days)), toISODate(today))
+            : dateRange(field, type, toISODate(today), toISODate(addDays(today, days)));
+    }
+
+    if (isTimestampType(type)) {
+        switch (op) {
+            case 'eq': return dateRange(field, type, value, value);
+            case 'lt': return { field, op: 'lt', value: startOfDay(value), numeric: true };
+            case 'gt': return { field, op: 'gt', value: endOfDay(value), numeric: true };
+            case 'between': return dateRange(field, type, value, value2);
+            default: return null;
+        }
+    }
+
+    if (op === 'in') {
+        const values: string[] = Array.isArray(value) ? value : String(value).split(',').map(v => v.trim()).filter(v => v);
+        // Records assigned to everyone ('all') belong to every user / project
+        return { field, op: 'has', value: type === 'user' || type === 'project' ? [...values, 'all'] : values };
+    }
+
+    const numeric = type === 'number';
+    const typed = (v: any) => numeric ? Number(v) : String(v);
+    if (op === 'between') return range(field, typed(value), typed(value2), numeric || undefined);
+    return { field, op, value: typed(value), numeric: numeric || undefined };
+};
+
+// Returns undefined when the tree holds no complete condition. `today` anchors relative dates.
+export const toResourceWhere = (group: FilterGroup, category: Category | undefined, today = new Date()): ResourceFilterGroup | undefined => {
+    const items: (ResourceFilter | ResourceFilterGroup)[] = [];
+    group.items.forEach(node => {
+        if (isFilterGroupNode(node)) {
+            const nested = toResourceWhere(node, category, today);
+            if (nested) items.push(nested);
+            return;
+        }
+        const type = getFilterFieldType(category, node.field);
+        const converted = type ? convertCondition(node, type, today) : null;
+        if (converted) items.push(converted);
+    });
+    return items.length > 0 ? { combinator: group.combinator, items } : undefined;
+};
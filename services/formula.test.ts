@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { Category, FieldDefinition } from '../types';
+import { applyFormulas, checkFormula } from './formula';
+
+const field = (key: string, type: FieldDefinition['type'], extra: Partial<FieldDefinition> = {}): FieldDefinition =>
+    ({ id: key, key, name: key, type, required: false, ...extra });
+
+const category = (fields: FieldDefinition[], fieldKeyAliases?: Record<string, string>): Category =>
+    ({ id: 'c1', name: 'Test', description: '', createdAt: 0, accessLevel: 'public', fields, fieldKeyAliases });
+
+const compute = (formula: string, data: Record<string, any> = {}, fields: FieldDefinition[] = []) =>
+    applyFormulas(category([...fields, field('result', 'formula', { formula })]), data).result;
+
+describe('applyFormulas', () => {
+    it('follows the operator precedence', () => {
+        expect(compute('1 + 2 * 3')).toBe(7);
+        expect(compute('(1 + 2) * 3')).toBe(9);
+        expect(compute('-2 * 3 + 10 % 4')).toBe(-4);
+    });
+
+    it('reads fields by key or by name and converts their values', () => {
+        const fields = [field('qty', 'number', { name: 'Số lượng' }), field('price', 'number'), field('paid', 'boolean')];
+        expect(compute('{Số lượng} * {price}', { qty: '3', price: 2.5 }, fields)).toBe(7.5);
+        expect(compute('IF({paid}, "Đã trả", "Chưa trả")', { paid: 'true' }, fields)).toBe('Đã trả');
+        expect(compute('ISBLANK({price})', {}, fields)).toBe(true);
+    });
+
+    it('concatenates text with + and &', () => {
+        const fields = [field('name', 'text'), field('tags', 'multiselect')];
+        expect(compute('{name} + 1', { name: 'A' }, fields)).toBe('A1');
+        expect(compute('{name} & " - " & {tags}', { name: 'A', tags: ['x', 'y'] }, fields)).toBe('A - x, y');
+    });
+
+    it('evaluates the functions', () => {
+        expect(compute('ROUND(10 / 3, 2)')).toBe(3.33);
+        expect(compute('MAX(1, 5, 3) + MIN(4, 2) + ABS(-1)')).toBe(8);
+        expect(compute('AND(1 < 2, NOT(2 <> 2))')).toBe(true);
+        expect(compute('UPPER(CONCAT("a", "b")) & LEN("xyz")')).toBe('AB3');
+        expect(compute('DAYS("2024-03-01", "2024-02-01")')).toBe(29);
+    });
+
+    it('computes formulas referencing other formulas', () => {
+        const fields = [field('price', 'number'), field('total', 'formula', { formula: '{price} * 2' })];
+        expect(compute('{total} + 1', { price: 5 }, fields)).toBe(11);
+    });
+
+    it('yields null on errors, divisions by zero and cycles', () => {
+        expect(compute('1 / 0')).toBeNull();
+        expect(compute('{missing} + 1')).toBeNull();
+        expect(compute('1 +')).toBeNull();
+        const cyclic = category([field('a', 'formula', { formula: '{b}' }), field('b', 'formula', { formula: '{a}' })]);
+        expect(applyFormulas(cyclic, {})).toEqual({ a: null, b: null });
+    });
+
+    it('resolves former field keys through the aliases', () => {
+        const fields = [field('amount', 'number'), field('result', 'formula', { formula: '{old_amount} * 2' })];
+        expect(applyFormulas(category(fields, { old_amount: 'amount' }), { amount: 4 }).result).toBe(8);
+    });
+});
+
+describe('checkFormula', () => {
+    const price = field('price', 'number');
+
+    it('accepts valid formulas and ignores other field types', () => {
+        expect(checkFormula(field('f', 'formula', { formula: '{price} * 2' }), [price])).toBeNull();
+        expect(checkFormula(price, [price])).toBeNull();
+    });
+
+    it('reports empty formulas, syntax errors and unknown fields', () => {
+        expect(checkFormula(field('f', 'formula', { formula: ' ' }), [price])).toContain('chưa nhập công thức');
+        expect(checkFormula(field('f', 'formula', { formula: '(1 + 2' }), [price])).not.toBeNull();
+        expect(checkFormula(field('f', 'formula', { formula: '{cost}' }), [price])).toContain('không tìm thấy trường "cost"');
+    });
+
+    it('reports self references and cycles through other formulas', () => {
+        const self = field('f', 'formula', { formula: '{f} + 1' });
+        expect(checkFormula(self, [self])).toContain('chính nó');
+        const a = field('a', 'formula', { formula: '{b}' });
+        const b = field('b', 'formula', { formula: '{a}' });
+        expect(checkFormula(a, [a, b])).toContain('tham chiếu vòng');
+    });
+});
@@ -0,0 +1,415 @@
+import { Category, FieldDefinition } from '../types';
+import { resolveFieldKey } from './fieldKeys';
+
+// Formula fields: a small expression language evaluated against the other fields of the same resource.
+//   {Field name} or {field_key}      value of another field
+//   + - * / %                        arithmetic (+ concatenates when one side is text)
+//   &                                text concatenation
+//   = != <> < > <= >=                comparison
+//   IF(cond, a, b), AND, OR, NOT, ROUND(x, digits), ABS, MIN, MAX, SUM,
+//   CONCAT, LEN, UPPER, LOWER, ISBLANK(x), TODAY(), DAYS(end, start)
+// No `eval` is involved: expressions are parsed into a tree and interpreted.
+
+export type FormulaValue = number | string | boolean | null;
+
+export class FormulaError extends Error {}
+
+type Node =
+    | { kind: 'literal'; value: FormulaValue }
+    | { kind: 'field'; ref: string }
+    | { kind: 'unary'; op: '-'; operand: Node }
+    | { kind: 'binary'; op: string; left: Node; right: Node }
+    | { kind: 'call'; name: string; args: Node[] };
+
+interface Token {
+    type: 'number' | 'string' | 'ident' | 'field' | 'op' | 'paren' | 'comma';
+    value: string;
+}
+
+const OPERATORS = ['<=', '>=', '!=', '<>', '+', '-', '*', '/', '%', '&', '=', '<', '>'];
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < source.length) {
+        const c = source[i];
+        if (/\s/.test(c)) { i++; continue; }
+        if (/[0-9.]/.test(c)) {
+            const match = source.slice(i).match(/^\d*\.?\d+/);
+            if (!match) throw new FormulaError(`Số không hợp lệ tại vị trí ${i + 1}`);
+            tokens.push({ type: 'number', value: match[0] });
+            i += match[0].length;
+            continue;
+        }
+        if (c === '"' || c === "'") {
+            const end = source.indexOf(c, i + 1);
+            if (end === -1) throw new FormulaError('Thiếu dấu đóng chuỗi');
+            tokens.push({ type: 'string', value: source.slice(i + 1, end) });
+            i = end + 1;
+            continue;
+        }
+        if (c === '{') {
+            const end = source.indexOf('}', i + 1);
+            if (end === -1) throw new FormulaError('Thiếu dấu } khi tham chiếu trường');
+            tokens.push({ type: 'field', value: source.slice(i + 1, end).trim() });
+            i = end + 1;
+            continue;
+        }
+        if (/[A-Za-z_]/.test(c)) {
+            const match = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+            tokens.push({ type: 'ident', value: match[0].toUpperCase() });
+            i += match[0].length;
+            continue;
+        }
+        if (c === '(' || c === ')') { tokens.push({ type: 'paren', value: c }); i++; continue; }
+        if (c === ',' || c === ';') { tokens.push({ type: 'comma', value: ',' }); i++; continue; }
+        const op = OPERATORS.find(o => source.startsWith(o, i));
+        if (!op) throw new FormulaError(`Ký tự không hợp lệ "${c}"`);
+        tokens.push({ type: 'op', value: op });
+        i += op.length;
+    }
+    return tokens;
+};
+
+// Recursive descent parser, lowest precedence first: comparison < & < + - < * / % < unary minus
+const parse = (source: string): Node => {
+    const tokens = tokenize(source);
+    let pos = 0;
+    const peek = () => tokens[pos];
+    const isOp = (...ops: string[]) => peek()?.type === 'op' && ops.includes(peek().value);
+
+    const expect = (type: Token['type'], value?: string) => {
+        const token = tokens[pos];
+        if (!token || token.type !== type || (value !== undefined && token.value !== value)) {
+            throw new FormulaError(value ? `Thiếu "${value}"` : 'Biểu thức không hợp lệ');
+        }
+        pos++;
+        return token;
+    };
+
+    const parseComparison = (): Node => {
+        let left = parseConcat();
+        if (isOp('=', '!=', '<>', '<', '>', '<=', '>=')) {
+            const op = tokens[pos++].value;
+            left = { kind: 'binary', op: op === '<>' ? '!=' : op, left, right: parseConcat() };
+        }
+        return left;
+    };
+
+    const parseConcat = (): Node => {
+        let left = parseAdditive();
+        while (isOp('&')) {
+            pos++;
+            left = { kind: 'binary', op: '&', left, right: parseAdditive() };
+        }
+        return left;
+    };
+
+    const parseAdditive = (): Node => {
+        let left = parseTerm();
+        while (isOp('+', '-')) {
+            const op = tokens[pos++].value;
+            left = { kind: 'binary', op, left, right: parseTerm() };
+        }
+        return left;
+    };
+
+    const parseTerm = (): Node => {
+        let left = parseUnary();
+        while (isOp('*', '/', '%')) {
+            const op = tokens[pos++].value;
+            left = { kind: 'binary', op, left, right: parseUnary() };
+        }
+        return left;
+    };
+
+    const parseUnary = (): Node => {
+        if (isOp('-')) {
+            pos++;
+            return { kind: 'unary', op: '-', operand: parseUnary() };
+        }
+        if (isOp('+')) {
+            pos++;
+            return parseUnary();
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): Node => {
+        const token = peek();
+        if (!token) throw new FormulaError('Biểu thức chưa hoàn chỉnh');
+        pos++;
+        switch (token.type) {
+            case 'number': return { kind: 'literal', value: Number(token.value) };
+            case 'string': return { kind: 'literal', value: token.value };
+            case 'field': return { kind: 'field', ref: token.value };
+            case 'paren': {
+                if (token.value !== '(') throw new FormulaError('Dấu ")" không hợp lệ');
+                const inner = parseComparison();
+                expect('paren', ')');
+                return inner;
+            }
+            case 'ident': {
+                if (token.value === 'TRUE' || token.value === 'FALSE') return { kind: 'literal', value: token.value === 'TRUE' };
+                if (!FUNCTIONS[token.value]) throw new FormulaError(`Hàm không tồn tại: ${token.value}`);
+                expect('paren', '(');
+                const args: Node[] = [];
+                if (!(peek()?.type === 'paren' && peek().value === ')')) {
+                    args.push(parseComparison());
+                    while (peek()?.type === 'comma') {
+                        pos++;
+                        args.push(parseComparison());
+                    }
+                }
+                expect('paren', ')');
+                return { kind: 'call', name: token.value, args };
+            }
+            default: throw new FormulaError('Biểu thức không hợp lệ');
+        }
+    };
+
+    if (tokens.length === 0) throw new FormulaError('Công thức trống');
+    const root = parseComparison();
+    if (pos < tokens.length) throw new FormulaError(`Thừa ký hiệu "${tokens[pos].value}"`);
+    return root;
+};
+
+// --- Evaluation ---
+const toNumber = (value: FormulaValue): number => {
+    if (value === null || value === '') return 0;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    const num = Number(value);
+    if (isNaN(num)) throw new FormulaError(`"${value}" không phải là số`);
+    return num;
+};
+
+const toText = (value: FormulaValue): string => {
+    if (value === null) return '';
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    return String(value);
+};
+
+const toBoolean = (value: FormulaValue): boolean => {
+    if (typeof value === 'string') return value !== '' && value.toLowerCase() !== 'false';
+    return !!value;
+};
+
+const compare = (a: FormulaValue, b: FormulaValue): number => {
+    if (typeof a === 'number' || typeof b === 'number') return toNumber(a) - toNumber(b);
+    return toText(a).localeCompare(toText(b));
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const toTime = (value: FormulaValue): number => {
+    const time = new Date(toText(value)).getTime();
+    if (isNaN(time)) throw new FormulaError(`"${toText(value)}" không phải ngày hợp lệ`);
+    return time;
+};
+
+type FormulaFunction = (args: FormulaValue[]) => FormulaValue;
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+    AND: args => args.every(toBoolean),
+    OR: args => args.some(toBoolean),
+    NOT: ([a]) => !toBoolean(a),
+    ROUND: ([a, digits]) => {
+        const factor = Math.pow(10, toNumber(digits ?? 0));
+        return Math.round(toNumber(a) * factor) / factor;
+    },
+    ABS: ([a]) => Math.abs(toNumber(a)),
+    MIN: args => Math.min(...args.map(toNumber)),
+    MAX: args => Math.max(...args.map(toNumber)),
+    SUM: args => args.reduce<number>((sum, a) => sum + toNumber(a), 0),
+    CONCAT: args => args.map(toText).join(''),
+    LEN: ([a]) => toText(a).length,
+    UPPER: ([a]) => toText(a).toUpperCase(),
+    LOWER: ([a]) => toText(a).toLowerCase(),
+    ISBLANK: ([a]) => a === null || a === '',
+    TODAY: () => new Date().toISOString().slice(0, 10),
+    DAYS: ([end, start]) => {
+        if (end === null || end === '' || start === null || start === '') return null;
+        return Math.round((toTime(end) - toTime(start)) / MS_PER_DAY);
+    },
+    IF: () => null // evaluated lazily in evaluate()
+};
+
+const evaluate = (node: Node, resolve: (ref: string) => FormulaValue): FormulaValue => {
+    switch (node.kind) {
+        case 'literal': return node.value;
+        case 'field': return resolve(node.ref);
+        case 'unary': return -toNumber(evaluate(node.operand, resolve));
+        case 'call': {
+            if (node.name === 'IF') {
+                if (node.args.length < 2) throw new FormulaError('IF cần ít nhất 2 tham số');
+                const branch = toBoolean(evaluate(node.args[0], resolve)) ? node.args[1] : node.args[2];
+                return branch ? evaluate(branch, resolve) : null;
+            }
+            return FUNCTIONS[node.name](node.args.map(arg => evaluate(arg, resolve)));
+        }
+        case 'binary': {
+            const left = evaluate(node.left, resolve);
+            const right = evaluate(node.right, resolve);
+            switch (node.op) {
+                case '+':
+                    if ((typeof left === 'string' && isNaN(Number(left))) || (typeof right === 'string' && isNaN(Number(right)))) {
+                        return toText(left) + toText(right);
+                    }
+                    return toNumber(left) + toNumber(right);
+                case '-': return toNumber(left) - toNumber(right);
+                case '*': return toNumber(left) * toNumber(right);
+                case '/': {
+                    const divisor = toNumber(right);
+                    if (divisor === 0) throw new FormulaError('Chia cho 0');
+                    return toNumber(left) / divisor;
+                }
+                case '%': return toNumber(left) % toNumber(right);
+                case '&': return toText(left) + toText(right);
+                case '=': return compare(left, right) === 0;
+                case '!=': return compare(left, right) !== 0;
+                case '<': return compare(left, right) < 0;
+                case '>': return compare(left, right) > 0;
+                case '<=': return compare(left, right) <= 0;
+                case '>=': return compare(left, right) >= 0;
+            }
+        }
+    }
+    throw new FormulaError('Biểu thức không hợp lệ');
+};
+
+// --- Field helpers ---
+const parsedCache = new Map<string, Node>();
+
+const parseCached = (expression: string): Node => {
+    let node = parsedCache.get(expression);
+    if (!node) {
+        node = parse(expression);
+        parsedCache.set(expression, node);
+    }
+    return node;
+};
+
+// `{...}` matches a field key (following key renames) first, then a field name (case-insensitive)
+const findReferencedField = (fields: FieldDefinition[], ref: string, aliases?: Record<string, string>): FieldDefinition | undefined => {
+    const key = resolveFieldKey({ fieldKeyAliases: aliases }, ref);
+    return fields.find(f => f.key === key) || fields.find(f => f.name.trim().toLowerCase() === ref.toLowerCase());
+};
+
+const collectRefs = (node: Node, refs: string[] = []): string[] => {
+    switch (node.kind) {
+        case 'field': refs.push(node.ref); break;
+        case 'unary': collectRefs(node.operand, refs); break;
+        case 'binary': collectRefs(node.left, refs); collectRefs(node.right, refs); break;
+        case 'call': node.args.forEach(arg => collectRefs(arg, refs)); break;
+    }
+    return refs;
+};
+
+// Converts a stored field value to a formula value
+const fromFieldValue = (field: FieldDefinition, value: any): FormulaValue => {
+    if (value === undefined || value === null || value === '') return null;
+    switch (field.type) {
+        case 'number': return isNaN(Number(value)) ? null : Number(value);
+        case 'boolean': return value === 'true' || value === true;
+        case 'formula': return value;
+        default: return Array.isArray(value) ? value.join(', ') : String(value);
+    }
+};
+
+// Computes every formula field of the category from `data` and returns the completed record.
+// Formulas may reference other formulas; circular references and runtime errors yield null.
+export const applyFormulas = (category: Pick<Category, 'fields' | 'fieldKeyAliases'>, data: Record<string, any>): Record<string, any> => {
+    const formulaFields = category.fields.filter(f => f.type === 'formula');
+    if (formulaFields.length === 0) return data;
+
+    const result: Record<string, any> = { ...data };
+    const computed = new Map<string, FormulaValue>();
+    const visiting = new Set<string>();
+
+    const computeField = (field: FieldDefinition): FormulaValue => {
+        if (computed.has(field.key)) return computed.get(field.key)!;
+        if (visiting.has(field.key)) throw new FormulaError('Tham chiếu vòng');
+        visiting.add(field.key);
+        try {
+            const node = parseCached(field.formula || '');
+            return evaluate(node, ref => {
+                const target = findReferencedField(category.fields, ref, category.fieldKeyAliases);
+                if (!target) throw new FormulaError(`Không tìm thấy trường "${ref}"`);
+                return target.type === 'formula' ? computeField(target) : fromFieldValue(target, data[target.key]);
+            });
+        } finally {
+            visiting.delete(field.key);
+        }
+    };
+
+    formulaFields.forEach(field => {
+        let value: FormulaValue = null;
+        try {
+            value = computeField(field);
+            if (typeof value === 'number' && !isFinite(value)) value = null;
+        } catch (e) {
+            value = null;
+        }
+        computed.set(field.key, value);
+        result[field.key] = value;
+    });
+    return result;
+};
+
+// Returns an error message when the formula of `field` cannot be used with the given sibling fields
+export const checkFormula = (field: FieldDefinition, fields: FieldDefinition[], aliases?: Record<string, string>): string | null => {
+    if (field.type !== 'formula') return null;
+    if (!field.formula?.trim()) return `Trường "${field.name}": chưa nhập công thức`;
+    let refs: string[];
+    try {
+        refs = collectRefs(parseCached(field.formula));
+    } catch (e: any) {
+        return `Trường "${field.name}": ${e.message}`;
+    }
+    for (const ref of refs) {
+        const target = findReferencedField(fields, ref, aliases);
+        if (!target) return `Trường "${field.name}": không tìm thấy trường "${ref}"`;
+        if (target.key === field.key) return `Trường "${field.name}": công thức không được tham chiếu chính nó`;
+    }
+    // Detect cycles through other formula fields
+    const dependsOn = (current: FieldDefinition, seen: Set<string>): boolean => {
+        if (current.type !== 'formula' || !current.formula) return false;
+        let currentRefs: string[] = [];
+        try { currentRefs = collectRefs(parseCached(current.formula)); } catch (e) { return false; }
+        return currentRefs.some(ref => {
+            const target = findReferencedField(fields, ref, aliases);
+            if (!target) return false;
+            if (target.key === field.key) return true;
+            if (seen.has(target.key)) return false;
+            seen.add(target.key);
+            return dependsOn(target, seen);
+        });
+    };
+    if (dependsOn(field, new Set())) return `Trường "${field.name}": công thức có tham chiếu vòng`;
+    return null;
+};
+
+// Fields read by the formula of `field`, following other formulas; unparsable formulas read nothing
+export const getFormulaInputs = (field: FieldDefinition, category: Category): FieldDefinition[] => {
+    const inputs = new Map<string, FieldDefinition>();
+    const visit = (current: FieldDefinition) => {
+        if (current.type !== 'formula' || !current.formula) return;
+        let refs: string[] = [];
+        try { refs = collectRefs(parseCached(current.formula)); } catch (e) { return; }
+        refs.forEach(ref => {
+            const target = findReferencedField(category.fields, ref, category.fieldKeyAliases);
+            if (!target || inputs.has(target.key)) return;
+            inputs.set(target.key, target);
+            visit(target);
+        });
+    };
+    visit(field);
+    return Array.from(inputs.values());
+};
+
+export const formatFormulaValue = (value: any): string => {
+    if (value === undefined || value === null || value === '') return '';
+    if (typeof value === 'boolean') return value ? 'Đúng' : 'Sai';
+    if (typeof value === 'number') return value.toLocaleString('vi-VN', { maximumFractionDigits: 4 });
+    return String(value);
+};
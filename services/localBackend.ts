@@ -0,0 +1,491 @@
+import { User, Category, ResourceItem, ResourceRevision, Project, AuditLog, SystemConfig, SchemaVersion, SavedView, RoleDefinition } from '../types';
+import { runResourceQuery } from './resourceQuery';
+import type { StorageBackend, AuthIdentity, ChangeListener, ChangeTable, PresenceMember } from './backend';
+import { generateUUID } from './uuid';
+import { ResourceConflictError } from './conflicts';
+
+// Fully local adapter: data lives in memory and (optionally) is mirrored to IndexedDB.
+// Intended for demos, offline development and automated tests - passwords are stored in plain text.
+
+interface LocalBackendOptions {
+    persist: boolean;
+    dbName?: string;
+}
+
+interface Credential {
+    id: string;
+    email: string;
+    password: string;
+}
+
+interface ConfigRow {
+    id: number;
+    config: SystemConfig;
+}
+
+interface Tables {
+    profiles: Map<string, User>;
+    roles: Map<string, RoleDefinition>;
+    credentials: Map<string, Credential>;
+    categories: Map<string, Category>;
+    schema_versions: Map<string, SchemaVersion>;
+    resources: Map<string, ResourceItem>;
+    resource_revisions: Map<string, ResourceRevision>;
+    saved_views: Map<string, SavedView>;
+    projects: Map<string, Project>;
+    system_config: Map<string, ConfigRow>;
+    audit_logs: Map<string, AuditLog>;
+}
+
+type TableName = keyof Tables;
+type Row<K extends TableName> = Tables[K] extends Map<string, infer V> ? V : never;
+
+const TABLE_NAMES: TableName[] = ['profiles', 'roles', 'credentials', 'categories', 'schema_versions', 'resources', 'resource_revisions', 'saved_views', 'projects', 'system_config', 'audit_logs'];
+const CHANGE_TABLES: TableName[] = ['profiles', 'roles', 'categories', 'resources', 'projects', 'system_config', 'audit_logs'];
+const DB_VERSION = 5; // bump when TABLE_NAMES changes so onupgradeneeded creates the new stores
+const SESSION_KEY = 'rv_local_session';
+
+// Demo account created when the local store is empty
+export const LOCAL_DEMO_ADMIN = {
+    username: 'admin',
+    email: 'admin@resourcevault.local',
+    password: 'admin123'
+};
+
+const clone = <T,>(value: T): T => structuredClone(value);
+
+// --- IndexedDB helpers ---
+const hasIndexedDB = () => typeof indexedDB !== 'undefined';
+
+const openDatabase = (name: string): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        TABLE_NAMES.forEach(table => {
+            if (!db.objectStoreNames.contains(table)) db.createObjectStore(table, { keyPath: 'id' });
+        });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const readAll = (db: IDBDatabase, table: TableName): Promise<any[]> => new Promise((resolve, reject) => {
+    const request = db.transaction(table, 'readonly').objectStore(table).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const writeRow = (db: IDBDatabase, table: TableName, row: any): Promise<void> => new Promise((resolve, reject) => {
+    const tx = db.transaction(table, 'readwrite');
+    tx.objectStore(table).put(row);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+});
+
+const writeRows = (db: IDBDatabase, table: TableName, rows: any[]): Promise<void> => new Promise((resolve, reject) => {
+    const tx = db.transaction(table, 'readwrite');
+    const store = tx.objectStore(table);
+    rows.forEach(row => store.put(row));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+});
+
+const removeRow = (db: IDBDatabase, table: TableName, id: string | number): Promise<void> => new Promise((resolve, reject) => {
+    const tx = db.transaction(table, 'readwrite');
+    tx.objectStore(table).delete(id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+});
+
+const removeRows = (db: IDBDatabase, table: TableName, ids: string[]): Promise<void> => new Promise((resolve, reject) => {
+    const tx = db.transaction(table, 'readwrite');
+    const store = tx.objectStore(table);
+    ids.forEach(id => store.delete(id));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+});
+
+const readFileAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+export const createLocalBackend = ({ persist, dbName = 'resourcevault_local' }: LocalBackendOptions): StorageBackend => {
+    const tables: Tables = {
+        profiles: new Map(),
+        roles: new Map(),
+        credentials: new Map(),
+        categories: new Map(),
+        schema_versions: new Map(),
+        resources: new Map(),
+        resource_revisions: new Map(),
+        saved_views: new Map(),
+        projects: new Map(),
+        system_config: new Map(),
+        audit_logs: new Map()
+    };
+    const usePersistence = persist && hasIndexedDB();
+    let db: IDBDatabase | null = null;
+    let memorySession: string | null = null;
+    const listeners = new Set<ChangeListener>();
+    // Presence of this page only, like the change feed: topic -> member key -> member / sync callback
+    const presence = new Map<string, Map<string, { member: PresenceMember; onSync: (members: PresenceMember[]) => void }>>();
+
+    // Local event emitter standing in for Supabase realtime
+    const emit = (table: TableName, event: 'INSERT' | 'UPDATE' | 'DELETE', newRow: any, oldRow: any) => {
+        if (!CHANGE_TABLES.includes(table)) return;
+        const change = { table: table as ChangeTable, event, new: newRow ? clone(newRow) : null, old: oldRow ? clone(oldRow) : null };
+        listeners.forEach(listener => listener(change));
+    };
+
+    const getSessionId = (): string | null => {
+        if (persist && typeof localStorage !== 'undefined') return localStorage.getItem(SESSION_KEY);
+        return memorySession;
+    };
+
+    const setSessionId = (id: string | null) => {
+        memorySession = id;
+        if (persist && typeof localStorage !== 'undefined') {
+            if (id) localStorage.setItem(SESSION_KEY, id);
+            else localStorage.removeItem(SESSION_KEY);
+        }
+    };
+
+    const put = async (table: TableName, row: any) => {
+        const map = tables[table] as Map<string, any>;
+        const previous = map.get(String(row.id));
+        map.set(String(row.id), clone(row));
+        if (db) await writeRow(db, table, row);
+        emit(table, previous ? 'UPDATE' : 'INSERT', row, previous);
+    };
+
+    const remove = async (table: TableName, id: string) => {
+        const previous = (tables[table] as Map<string, any>).get(id);
+        tables[table].delete(id);
+        if (db) await removeRow(db, table, id);
+        if (previous) emit(table, 'DELETE', null, previous);
+    };
+
+    const seed = async () => {
+        if (tables.profiles.size > 0) return;
+        const id = generateUUID();
+        await put('credentials', { id, email: LOCAL_DEMO_ADMIN.email, password: LOCAL_DEMO_ADMIN.password });
+        await put('profiles', { id, username: LOCAL_DEMO_ADMIN.username, email: LOCAL_DEMO_ADMIN.email, role: 'admin', fullName: 'Quản trị viên' });
+    };
+
+    const ready: Promise<void> = (async () => {
+        if (usePersistence) {
+            try {
+                db = await openDatabase(dbName);
+                for (const table of TABLE_NAMES) {
+                    const rows = await readAll(db, table);
+                    rows.forEach(row => (tables[table] as Map<string, any>).set(String(row.id), row));
+                }
+            } catch (e) {
+                console.warn('IndexedDB unavailable, falling back to in-memory storage', e);
+                db = null;
+            }
+        }
+        await seed();
+    })();
+
+    const values = async <K extends TableName>(table: K): Promise<Row<K>[]> => {
+        await ready;
+        return Array.from((tables[table] as Map<string, Row<K>>).values()).map(clone);
+    };
+
+    const identityFor = (id: string): AuthIdentity | null => {
+        const cred = tables.credentials.get(id);
+        return cred ? { id: cred.id, email: cred.email } : null;
+    };
+
+    return {
+        // --- Auth ---
+        signIn: async (email, password) => {
+            await ready;
+            const cred = Array.from(tables.credentials.values()).find(c => c.email.toLowerCase() === email.toLowerCase());
+            if (!cred || cred.password !== password) throw new Error('Invalid login credentials');
+            setSessionId(cred.id);
+            return { id: cred.id, email: cred.email };
+        },
+
+        signUp: async (email, password) => {
+            await ready;
+            if (Array.from(tables.credentials.values()).some(c => c.email.toLowerCase() === email.toLowerCase())) {
+                throw new Error('User already registered');
+            }
+            const id = generateUUID();
+            await put('credentials', { id, email, password });
+            setSessionId(id);
+            return { id, email };
+        },
+
+        signOut: async () => {
+            setSessionId(null);
+        },
+
+        getSessionUser: async () => {
+            await ready;
+            const id = getSessionId();
+            return id ? identityFor(id) : null;
+        },
+
+        updatePassword: async (newPassword) => {
+            await ready;
+            const id = getSessionId();
+            const cred = id ? tables.credentials.get(id) : undefined;
+            if (!cred) throw new Error('Not authenticated');
+            await put('credentials', { ...cred, password: newPassword });
+        },
+
+        // --- Profiles ---
+        getProfile: async (id) => {
+            await ready;
+            const profile = tables.profiles.get(id);
+            return profile ? clone(profile) : null;
+        },
+
+        findProfileByUsername: async (username) => {
+            const profiles = await values('profiles');
+            return profiles.find(p => p.username === username) || null;
+        },
+
+        listProfiles: async () => values('profiles'),
+
+        insertProfile: async (profile) => {
+            await ready;
+            if (tables.profiles.has(profile.id)) throw new Error('duplicate key value violates unique constraint "profiles_pkey"');
+            const { password, ...rest } = profile;
+            await put('profiles', rest);
+        },
+
+        updateProfile: async (id, updates) => {
+            await ready;
+            const existing = tables.profiles.get(id);
+            if (!existing) return;
+            const { password, ...rest } = updates;
+            await put('profiles', { ...existing, ...rest, id });
+        },
+
+        deleteProfile: async (id) => {
+            await ready;
+            await remove('profiles', id);
+        },
+
+        // --- Roles ---
+        listRoles: async () => {
+            const roles = await values('roles');
+            return roles.sort((a, b) => a.name.localeCompare(b.name));
+        },
+
+        upsertRole: async (role) => {
+            await ready;
+            await put('roles', role);
+        },
+
+        deleteRole: async (id) => {
+            await ready;
+            await remove('roles', id);
+        },
+
+        // --- Files (stored inline as data URLs) ---
+        uploadFile: async (_bucket, _path, file) => readFileAsDataUrl(file),
+
+        // --- Categories ---
+        listCategories: async () => {
+            const categories = await values('categories');
+            return categories.sort((a, b) => a.createdAt - b.createdAt);
+        },
+
+        upsertCategory: async (category) => {
+            await ready;
+            await put('categories', category);
+        },
+
+        deleteCategory: async (id) => {
+            await ready;
+            await remove('categories', id);
+        },
+
+        // --- Schema versions ---
+        listSchemaVersions: async (categoryId) => {
+            const versions = await values('schema_versions');
+            return versions
+                .filter(v => v.categoryId === categoryId)
+                .sort((a, b) => b.version - a.version);
+        },
+
+        insertSchemaVersion: async (version) => {
+            await ready;
+            await put('schema_versions', version);
+        },
+
+        // --- Resources ---
+        listResources: async (categoryId) => {
+            const resources = await values('resources');
+            return resources
+                .filter(r => !r.deletedAt && (!categoryId || r.categoryId === categoryId))
+                .sort((a, b) => b.createdAt - a.createdAt);
+        },
+
+        listResourcesByIds: async (ids) => (await values('resources')).filter(r => ids.includes(r.id)),
+
+        queryResources: async (query) => runResourceQuery(await values('resources'), query),
+
+        upsertResource: async (resource, expectedVersion) => {
+            await ready;
+            if (expectedVersion !== undefined) {
+                const stored = tables.resources.get(resource.id);
+                if (!stored || (stored.version || 0) !== expectedVersion) throw new ResourceConflictError(stored ? clone(stored) : null);
+            }
+            await put('resources', resource);
+        },
+
+        deleteResource: async (id) => {
+            await ready;
+            await remove('resources', id);
+        },
+
+        upsertResources: async (resources) => {
+            await ready;
+            if (db) await writeRows(db, 'resources', resources); // one transaction, nothing is kept on failure
+            resources.forEach(resource => {
+                const previous = tables.resources.get(resource.id);
+                tables.resources.set(resource.id, clone(resource));
+                emit('resources', previous ? 'UPDATE' : 'INSERT', resource, previous);
+            });
+        },
+
+        deleteResources: async (ids) => {
+            await ready;
+            if (db) await removeRows(db, 'resources', ids);
+            ids.forEach(id => {
+                const previous = tables.resources.get(id);
+                tables.resources.delete(id);
+                if (previous) emit('resources', 'DELETE', null, previous);
+            });
+        },
+
+        markResourcesDeleted: async (ids, mark) => {
+            await ready;
+            const updated = ids.map(id => tables.resources.get(id)).filter((r): r is ResourceItem => !!r).map(previous => {
+                const { deletedAt, deletedBy, deletedWith, ...rest } = previous;
+                return { previous, next: mark ? { ...rest, ...mark } : rest };
+            });
+            if (db) await writeRows(db, 'resources', updated.map(u => u.next));
+            updated.forEach(({ previous, next }) => {
+                tables.resources.set(next.id, clone(next));
+                emit('resources', 'UPDATE', next, previous);
+            });
+        },
+
+        // --- Resource revisions ---
+        listResourceRevisions: async (resourceId) => {
+            const revisions = await values('resource_revisions');
+            return revisions
+                .filter(r => r.resourceId === resourceId)
+                .sort((a, b) => b.createdAt - a.createdAt);
+        },
+
+        insertResourceRevisions: async (revisions) => {
+            await ready;
+            if (db) await writeRows(db, 'resource_revisions', revisions);
+            revisions.forEach(revision => tables.resource_revisions.set(revision.id, clone(revision)));
+        },
+
+        // --- Saved views ---
+        listSavedViews: async (categoryId) => {
+            const views = await values('saved_views');
+            return views
+                .filter(v => !categoryId || v.categoryId === categoryId)
+                .sort((a, b) => a.name.localeCompare(b.name));
+        },
+
+        upsertSavedView: async (view) => {
+            await ready;
+            await put('saved_views', view);
+        },
+
+        deleteSavedView: async (id) => {
+            await ready;
+            await remove('saved_views', id);
+        },
+
+        // --- Projects ---
+        listProjects: async () => {
+            const projects = await values('projects');
+            return projects.sort((a, b) => (a.code || '').localeCompare(b.code || ''));
+        },
+
+        projectCodeExists: async (code, excludeId) => {
+            const projects = await values('projects');
+            return projects.some(p => p.code === code && p.id !== excludeId);
+        },
+
+        upsertProject: async (project) => {
+            await ready;
+            const id = project.id || generateUUID();
+            const existing = tables.projects.get(id);
+            await put('projects', {
+                createdAt: new Date().toISOString(),
+                ...existing,
+                ...project,
+                id
+            });
+        },
+
+        deleteProject: async (id) => {
+            await ready;
+            await remove('projects', id);
+        },
+
+        // --- System Config ---
+        getSystemConfig: async () => {
+            await ready;
+            const row = tables.system_config.get('1');
+            return row ? clone(row.config) : null;
+        },
+
+        saveSystemConfig: async (config) => {
+            await ready;
+            await put('system_config', { id: 1, config });
+        },
+
+        // --- Audit ---
+        insertAuditLog: async (entry) => {
+            await ready;
+            await put('audit_logs', { ...entry, id: generateUUID(), created_at: new Date().toISOString() });
+        },
+
+        listAuditLogs: async (limit) => {
+            const logs = await values('audit_logs');
+            return logs
+                .sort((a, b) => b.created_at.localeCompare(a.created_at))
+                .slice(0, limit);
+        },
+
+        // --- Change feed ---
+        subscribeChanges: (listener) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+
+        joinPresence: (topic, member, onSync) => {
+            const members = presence.get(topic) || new Map();
+            presence.set(topic, members);
+            const sync = () => {
+                const current = Array.from(members.values()).map(m => m.member);
+                members.forEach(m => m.onSync(current));
+            };
+            members.set(member.key, { member, onSync });
+            sync();
+            return () => {
+                members.delete(member.key);
+                if (members.size === 0) presence.delete(topic);
+                else sync();
+            };
+        }
+    };
+};
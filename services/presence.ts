@@ -0,0 +1,18 @@
+import { getBackend, PresenceMember } from './backend';
+import { generateUUID } from './uuid';
+import { User } from '../types';
+
+// Who else has a record open for editing, through the backend's presence channels (Supabase presence,
+// or the local page for the offline backend). Each browser tab is a separate member.
+
+const TAB_KEY = generateUUID();
+
+const editingTopic = (resourceId: string) => `resource-edit:${resourceId}`;
+
+// Joins the record's topic while the edit form is open; `onChange` receives the other members (returns leave)
+export const watchEditors = (resourceId: string, user: User, onChange: (others: PresenceMember[]) => void): (() => void) =>
+    getBackend().joinPresence(
+        editingTopic(resourceId),
+        { key: TAB_KEY, userId: user.id, name: user.fullName || user.username, since: Date.now() },
+        members => onChange(members.filter(m => m.key !== TAB_KEY))
+    );
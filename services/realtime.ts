@@ -0,0 +1,94 @@
+import { getBackend, ChangeEvent, ChangeTable } from './backend';
+
+// Central change feed: every view subscribes here instead of opening its own realtime channel.
+// All subscriptions share one backend listener (one Supabase channel, or the local event emitter),
+// are filtered by table / event / record fields, and bursts are debounced into a single callback.
+
+export type ChangeFilter = Record<string, string | number | boolean | undefined>;
+export type ChangeHandler = (changes: ChangeEvent[]) => void;
+
+export interface SubscribeOptions {
+    events?: ChangeEvent['event'][]; // Default: all events
+    debounceMs?: number; // Default: DEFAULT_DEBOUNCE_MS, 0 delivers every change immediately
+}
+
+interface Subscription {
+    tables: ChangeTable[];
+    filter: ChangeFilter;
+    handler: ChangeHandler;
+    events?: ChangeEvent['event'][];
+    debounceMs: number;
+    pending: ChangeEvent[];
+    timer: ReturnType<typeof setTimeout> | null;
+}
+
+export const DEFAULT_DEBOUNCE_MS = 250;
+
+const subscriptions = new Set<Subscription>();
+let detachBackend: (() => void) | null = null;
+
+// A record matches when every filter key equals the record value.
+// Keys missing from the record (e.g. the partial `old` row of a Supabase DELETE) are treated as a match,
+// and a change matches if either its new or old record matches (rows moving in or out of the filter).
+export const matchesFilter = (change: ChangeEvent, filter: ChangeFilter): boolean => {
+    const keys = Object.keys(filter).filter(key => filter[key] !== undefined && filter[key] !== '');
+    if (keys.length === 0) return true;
+    const records = [change.new, change.old].filter((r): r is Record<string, any> => !!r);
+    if (records.length === 0) return true;
+    return records.some(record => keys.every(key => record[key] === undefined || record[key] === filter[key]));
+};
+
+const flush = (sub: Subscription) => {
+    sub.timer = null;
+    if (sub.pending.length === 0) return;
+    const changes = sub.pending;
+    sub.pending = [];
+    try {
+        sub.handler(changes);
+    } catch (e) {
+        console.error('Realtime handler error', e);
+    }
+};
+
+const dispatch = (change: ChangeEvent) => {
+    subscriptions.forEach(sub => {
+        if (!sub.tables.includes(change.table)) return;
+        if (sub.events && !sub.events.includes(change.event)) return;
+        if (!matchesFilter(change, sub.filter)) return;
+        sub.pending.push(change);
+        if (sub.debounceMs <= 0) {
+            flush(sub);
+            return;
+        }
+        if (sub.timer) clearTimeout(sub.timer);
+        sub.timer = setTimeout(() => flush(sub), sub.debounceMs);
+    });
+};
+
+export const subscribeTo = (
+    table: ChangeTable | ChangeTable[],
+    filter: ChangeFilter,
+    handler: ChangeHandler,
+    options: SubscribeOptions = {}
+): (() => void) => {
+    const sub: Subscription = {
+        tables: Array.isArray(table) ? table : [table],
+        filter,
+        handler,
+        events: options.events,
+        debounceMs: options.debounceMs ?? DEFAULT_DEBOUNCE_MS,
+        pending: [],
+        timer: null
+    };
+    subscriptions.add(sub);
+    if (!detachBackend) detachBackend = getBackend().subscribeChanges(dispatch);
+
+    return () => {
+        if (sub.timer) clearTimeout(sub.timer);
+        subscriptions.delete(sub);
+        if (subscriptions.size === 0 && detachBackend) {
+            detachBackend();
+            detachBackend = null;
+        }
+    };
+};
@@ -0,0 +1,59 @@
+import { Category, FieldDefinition, ResourceItem } from '../types';
+import { findFieldByKey } from './fieldKeys';
+
+// Helpers for `reference` fields (a resource pointing at records of another category)
+
+export interface Backlink {
+    category: Category;
+    field: FieldDefinition;
+    resource: ResourceItem;
+}
+
+// Normalizes a stored reference value (single id or array of ids) to an array of ids
+export const toReferenceIds = (value: any): string[] => {
+    if (Array.isArray(value)) return value.filter(v => !!v).map(String);
+    return value ? [String(value)] : [];
+};
+
+// Field of the target category shown as the title of a referenced record
+export const getTitleField = (category: Category, displayFieldKey?: string): FieldDefinition | undefined =>
+    (displayFieldKey && findFieldByKey(category, displayFieldKey))
+    || category.fields.find(f => f.type === 'text')
+    || category.fields[0];
+
+export const getResourceTitle = (resource: ResourceItem, category?: Category, displayFieldKey?: string): string => {
+    const titleField = category ? getTitleField(category, displayFieldKey) : undefined;
+    const title = titleField ? resource.data?.[titleField.key] : undefined;
+    if (title === undefined || title === null || title === '' || typeof title === 'object') return `#${resource.id.slice(0, 8)}`;
+    return String(title);
+};
+
+// Reference fields (across all categories) that point at the given category
+export const getReferencingFields = (categories: Category[], targetCategoryId: string): { category: Category; field: FieldDefinition }[] =>
+    categories.flatMap(category => category.fields
+        .filter(f => f.type === 'reference' && f.reference?.categoryId === targetCategoryId)
+        .map(field => ({ category, field })));
+
+// Category ids targeted by the reference fields of the given categories
+export const getReferencedCategoryIds = (categories: Category[]): string[] => {
+    const ids = new Set<string>();
+    categories.forEach(c => c.fields.forEach(f => {
+        if (f.type === 'reference' && f.reference?.categoryId) ids.add(f.reference.categoryId);
+    }));
+    return Array.from(ids);
+};
+
+// Ids stored in the reference fields of a record
+export const collectReferenceIds = (category: Category | undefined, data: Record<string, any> | undefined): string[] =>
+    (category?.fields || []).filter(f => f.type === 'reference').flatMap(f => toReferenceIds(data?.[f.key]));
+
+// Records that reference `target`, `resourcesByCategory` must contain the linking records of the referencing categories
+export const findBacklinks = (
+    target: ResourceItem,
+    categories: Category[],
+    resourcesByCategory: Record<string, ResourceItem[]>
+): Backlink[] =>
+    getReferencingFields(categories, target.categoryId).flatMap(({ category, field }) =>
+        (resourcesByCategory[category.id] || [])
+            .filter(r => toReferenceIds(r.data?.[field.key]).includes(target.id))
+            .map(resource => ({ category, field, resource })));
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { ResourceItem } from '../types';
+import { runResourceQuery } from './resourceQuery';
+
+const resource = (id: string, data: Record<string, any>, extra: Partial<ResourceItem> = {}): ResourceItem =>
+    ({ id, categoryId: 'c1', data, createdBy: 'admin', createdAt: Number(id.slice(1)), ...extra });
+
+const resources = [
+    resource('r1', { name: 'Máy in', qty: 10, tags: ['a', 'b'] }),
+    resource('r2', { name: 'máy chiếu', qty: 2, tags: ['b'] }),
+    resource('r3', { name: 'Bàn', qty: 9 }),
+    resource('r4', { name: 'Ghế' }, { categoryId: 'c2' }),
+    resource('r5', { name: 'Tủ', qty: 1 }, { deletedAt: 5 })
+];
+
+const ids = (items: ResourceItem[]) => items.map(r => r.id);
+
+describe('runResourceQuery', () => {
+    it('keeps trashed records apart and limits the categories', () => {
+        expect(ids(runResourceQuery(resources, {}).items)).toEqual(['r4', 'r3', 'r2', 'r1']);
+        expect(ids(runResourceQuery(resources, { trashed: true }).items)).toEqual(['r5']);
+        expect(ids(runResourceQuery(resources, { categoryId: 'c2' }).items)).toEqual(['r4']);
+        expect(ids(runResourceQuery(resources, { categoryIds: ['c1'] }).items)).toEqual(['r3', 'r2', 'r1']);
+    });
+
+    it('applies the filter operators', () => {
+        const match = (filter: any) => ids(runResourceQuery(resources, { filters: [filter], sort: [{ field: 'createdAt', direction: 'asc' }] }).items);
+        expect(match({ field: 'name', op: 'contains', value: 'MÁY' })).toEqual(['r1', 'r2']);
+        expect(match({ field: 'name', op: 'startsWith', value: 'bà' })).toEqual(['r3']);
+        expect(match({ field: 'tags', op: 'has', value: ['a'] })).toEqual(['r1']);
+        expect(match({ field: 'qty', op: 'gt', value: 5, numeric: true })).toEqual(['r1', 'r3']);
+        expect(match({ field: 'qty', op: 'eq', value: '2', numeric: true })).toEqual(['r2']);
+        expect(match({ field: 'qty', op: 'empty' })).toEqual(['r4']);
+        expect(match({ field: 'tags', op: 'notEmpty' })).toEqual(['r1', 'r2']);
+    });
+
+    it('evaluates nested condition groups', () => {
+        const { items } = runResourceQuery(resources, {
+            where: {
+                combinator: 'or',
+                items: [
+                    { field: 'categoryId', op: 'eq', value: 'c2' },
+                    { combinator: 'and', items: [{ field: 'tags', op: 'has', value: ['b'] }, { field: 'qty', op: 'lt', value: 5, numeric: true }] }
+                ]
+            }
+        });
+        expect(ids(items)).toEqual(['r4', 'r2']);
+        expect(runResourceQuery(resources, { where: { combinator: 'and', items: [] } }).total).toBe(4);
+    });
+
+    it('sorts numbers numerically, text by locale and blanks last', () => {
+        const asc = runResourceQuery(resources, { sort: [{ field: 'qty', direction: 'asc', numeric: true }] }).items;
+        expect(ids(asc)).toEqual(['r2', 'r3', 'r1', 'r4']);
+        const desc = runResourceQuery(resources, { sort: [{ field: 'qty', direction: 'desc', numeric: true }] }).items;
+        expect(ids(desc)).toEqual(['r1', 'r3', 'r2', 'r4']);
+        const byName = runResourceQuery(resources, { sort: [{ field: 'name', direction: 'asc' }] }).items;
+        expect(ids(byName)).toEqual(['r3', 'r4', 'r2', 'r1']);
+    });
+
+    it('sorts users, options and references by their display name', () => {
+        const assigned = [
+            resource('a1', { owner: 'u1', tags: ['x'], link: 't2' }),
+            resource('a2', { owner: 'u2', tags: ['y', 'x'], link: 't1' }),
+            resource('a3', { tags: [] }),
+            resource('t1', { title: 'Zeta' }, { categoryId: 'c2' }),
+            resource('t2', { title: 'Alpha' }, { categoryId: 'c2' })
+        ];
+        const sorted = (sort: any) => ids(runResourceQuery(assigned, { categoryId: 'c1', sort: [sort] }).items);
+        const labels = { u1: 'Trần Bình', u2: 'Nguyễn An' };
+        expect(sorted({ field: 'owner', direction: 'asc', labels })).toEqual(['a2', 'a1', 'a3']);
+        expect(sorted({ field: 'owner', direction: 'desc', labels })).toEqual(['a1', 'a2', 'a3']);
+        expect(sorted({ field: 'tags', direction: 'asc', labels: { x: 'Xanh', y: 'Đỏ' } })).toEqual(['a2', 'a1', 'a3']);
+        expect(sorted({ field: 'link', direction: 'asc', titleKey: 'title' })).toEqual(['a1', 'a2', 'a3']);
+    });
+
+    it('pages the matches and counts them all', () => {
+        const sort = [{ field: 'createdAt', direction: 'asc' as const }];
+        expect(runResourceQuery(resources, { sort, page: 2, pageSize: 3 })).toEqual({ items: [resources[3]], total: 4 });
+        expect(runResourceQuery(resources, { sort, pageSize: 0 })).toEqual({ items: [], total: 4 });
+    });
+});
@@ -0,0 +1,112 @@
+import { ResourceItem, ResourceFilter, ResourceFilterGroup, ResourceSort, ResourceQuery, ResourcePage } from '../types';
+
+// In-memory evaluation of a ResourceQuery, used by the local backend.
+// Mirrors what the Supabase backend pushes down to PostgREST.
+
+export const DEFAULT_SORT: ResourceSort[] = [{ field: 'createdAt', direction: 'desc' }];
+
+const getQueryValue = (resource: ResourceItem, field: string): any => {
+    if (field === 'categoryId') return resource.categoryId;
+    if (field === 'createdBy') return resource.createdBy;
+    if (field === 'createdAt') return resource.createdAt;
+    // Records not saved since updates were tracked count as updated at creation
+    if (field === 'updatedBy') return resource.updatedBy ?? resource.createdBy;
+    if (field === 'updatedAt') return resource.updatedAt ?? resource.createdAt;
+    return resource.data?.[field];
+};
+
+const isBlank = (value: any) => value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const toText = (value: any): string => Array.isArray(value) ? value.join(', ') : String(value);
+
+const compareValues = (a: any, b: any, numeric?: boolean): number => {
+    if (numeric || (typeof a === 'number' && typeof b === 'number')) return Number(a) - Number(b);
+    return toText(a).localeCompare(toText(b), 'vi');
+};
+
+export const matchesResourceFilter = (resource: ResourceItem, filter: ResourceFilter): boolean => {
+    const value = getQueryValue(resource, filter.field);
+    if (filter.op === 'empty') return isBlank(value);
+    if (isBlank(value)) return false;
+    switch (filter.op) {
+        case 'notEmpty':
+            return true;
+        case 'eq':
+            return filter.numeric ? Number(value) === Number(filter.value) : toText(value) === String(filter.value);
+        case 'neq':
+            return filter.numeric ? Number(value) !== Number(filter.value) : toText(value) !== String(filter.value);
+        case 'contains':
+            return toText(value).toLowerCase().includes(String(filter.value).toLowerCase());
+        case 'startsWith':
+            return toText(value).toLowerCase().startsWith(String(filter.value).toLowerCase());
+        case 'has': {
+            const wanted = Array.isArray(filter.value) ? filter.value : [String(filter.value)];
+            const items = Array.isArray(value) ? value : [value];
+            return items.some(item => wanted.includes(String(item)));
+        }
+        case 'gt':
+            return compareValues(value, filter.value, filter.numeric) > 0;
+        case 'gte':
+            return compareValues(value, filter.value, filter.numeric) >= 0;
+        case 'lt':
+            return compareValues(value, filter.value, filter.numeric) < 0;
+        case 'lte':
+            return compareValues(value, filter.value, filter.numeric) <= 0;
+        default:
+            return true;
+    }
+};
+
+export const isFilterGroup = (node: ResourceFilter | ResourceFilterGroup): node is ResourceFilterGroup => 'combinator' in node;
+
+// Empty groups match everything
+export const matchesFilterGroup = (resource: ResourceItem, group: ResourceFilterGroup): boolean => {
+    if (group.items.length === 0) return true;
+    const matches = (node: ResourceFilter | ResourceFilterGroup) =>
+        isFilterGroup(node) ? matchesFilterGroup(resource, node) : matchesResourceFilter(resource, node);
+    return group.combinator === 'and' ? group.items.every(matches) : group.items.some(matches);
+};
+
+// Sorted value: ids and option values replaced by their labels, several joined
+const getSortValue = (resource: ResourceItem, sort: ResourceSort): any => {
+    const value = getQueryValue(resource, sort.field);
+    if (!sort.labels || isBlank(value)) return value;
+    return (Array.isArray(value) ? value : [value]).map(v => sort.labels![String(v)] ?? String(v)).join(', ');
+};
+
+// Labels of the sorts on reference fields: the `titleKey` value of the referenced records
+export const withTitleLabels = (sort: ResourceSort[], titles: (titleKey: string) => Record<string, string>): ResourceSort[] =>
+    sort.map(({ titleKey, ...s }) => titleKey ? { ...s, labels: { ...titles(titleKey), ...s.labels } } : s);
+
+// Blank values sort last regardless of the direction
+export const compareResources = (a: ResourceItem, b: ResourceItem, sort: ResourceSort[]): number => {
+    for (const s of sort) {
+        const va = getSortValue(a, s);
+        const vb = getSortValue(b, s);
+        if (isBlank(va) || isBlank(vb)) {
+            if (isBlank(va) && isBlank(vb)) continue;
+            return isBlank(va) ? 1 : -1;
+        }
+        const result = compareValues(va, vb, s.numeric && !s.labels);
+        if (result !== 0) return s.direction === 'asc' ? result : -result;
+    }
+    return 0;
+};
+
+export const runResourceQuery = (resources: ResourceItem[], query: ResourceQuery): ResourcePage => {
+    const filters = query.filters || [];
+    const sort = withTitleLabels(query.sort && query.sort.length > 0 ? query.sort : DEFAULT_SORT, titleKey => Object.fromEntries(resources
+        .filter(r => !r.deletedAt && !isBlank(r.data?.[titleKey]))
+        .map(r => [r.id, toText(r.data[titleKey])])));
+    const matching = resources
+        .filter(r => !!query.trashed === !!r.deletedAt)
+        .filter(r => !query.categoryId || r.categoryId === query.categoryId)
+        .filter(r => !query.categoryIds || query.categoryIds.includes(r.categoryId))
+        .filter(r => filters.every(f => matchesResourceFilter(r, f)))
+        .filter(r => !query.where || matchesFilterGroup(r, query.where))
+        .sort((a, b) => compareResources(a, b, sort));
+
+    if (query.pageSize === undefined) return { items: matching, total: matching.length };
+    const start = (Math.max(query.page || 1, 1) - 1) * query.pageSize;
+    return { items: matching.slice(start, start + query.pageSize), total: matching.length };
+};
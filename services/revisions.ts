@@ -0,0 +1,35 @@
+import { Category, FieldDefinition, ResourceRevision } from '../types';
+import { normalizeDataKeys } from './fieldKeys';
+import { isEmptyValue, sameValue } from './validation';
+
+// Field-level history of a resource, built from its revisions (full data snapshots)
+
+export interface RevisionChange {
+    field: FieldDefinition;
+    before: any;
+    after: any;
+}
+
+export interface HistoryEntry {
+    revision: ResourceRevision;
+    version: number; // 1 = oldest recorded revision
+    changes: RevisionChange[]; // compared to the previous revision; for the first one, every filled field
+}
+
+// Fields of the current schema whose value differs. Formulas are left out, they are recomputed on read.
+export const diffRevisionData = (category: Category, before: Record<string, any> | undefined, after: Record<string, any>): RevisionChange[] => {
+    const old = before ? normalizeDataKeys(category, before) : {};
+    const next = normalizeDataKeys(category, after || {});
+    return category.fields
+        .filter(f => f.type !== 'formula')
+        .filter(f => before ? !sameValue(old[f.key], next[f.key]) : !isEmptyValue(next[f.key]))
+        .map(field => ({ field, before: old[field.key], after: next[field.key] }));
+};
+
+// Newest first, like the backend returns revisions
+export const buildHistory = (category: Category, revisions: ResourceRevision[]): HistoryEntry[] =>
+    revisions.map((revision, i) => ({
+        revision,
+        version: revisions.length - i,
+        changes: diffRevisionData(category, revisions[i + 1]?.data, revision.data)
+    }));
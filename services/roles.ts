@@ -0,0 +1,50 @@
+import { Category, CategoryAction, CategoryAclEntry, Permission, ProjectRole, Role, RoleDefinition, User, getCategoryActions, getUserRoles, resolvePermissions } from '../types';
+
+// Labels of the permission matrix in UserManager
+export const PERMISSION_LABELS: Record<Permission, { label: string; description: string }> = {
+    manageSchema: { label: 'Cấu trúc dữ liệu', description: 'Tạo, sửa, xóa danh mục và trường dữ liệu' },
+    manageProjects: { label: 'Dự án', description: 'Tạo, sửa, xóa dự án' },
+    createResource: { label: 'Thêm dữ liệu', description: 'Thêm bản ghi mới, nhập dữ liệu' },
+    editResource: { label: 'Sửa dữ liệu', description: 'Sửa mọi bản ghi và xem mọi danh mục' },
+    deleteResource: { label: 'Xóa dữ liệu', description: 'Xóa mọi bản ghi' },
+    viewAuditLog: { label: 'Nhật ký', description: 'Xem nhật ký hoạt động' },
+    manageUsers: { label: 'Thành viên', description: 'Quản lý thành viên và vai trò' },
+    manageSettings: { label: 'Cài đặt', description: 'Cài đặt hệ thống và thùng rác' }
+};
+
+// Columns of the category ACL editor in SchemaBuilder
+export const CATEGORY_ACTION_LABELS: Record<CategoryAction, string> = {
+    view: 'Xem',
+    create: 'Thêm',
+    editAny: 'Sửa tất cả',
+    editOwn: 'Sửa / xóa của mình',
+    delete: 'Xóa tất cả',
+    export: 'Xuất'
+};
+
+// Roles of the project members editor in ProjectManager
+export const PROJECT_ROLE_LABELS: Record<ProjectRole, { label: string; description: string }> = {
+    lead: { label: 'Trưởng dự án', description: 'Sửa mọi bản ghi của dự án' },
+    member: { label: 'Thành viên', description: 'Thêm bản ghi, sửa theo quyền của danh mục' },
+    viewer: { label: 'Chỉ xem', description: 'Chỉ xem bản ghi của dự án' }
+};
+
+// ACL granting every role what it can do in the category today, used when an admin switches to custom permissions.
+// Roles managing the schema are left out, they can always do everything.
+export const defaultCategoryAcl = (category: Category, definitions: RoleDefinition[]): CategoryAclEntry[] =>
+    definitions
+        .filter(role => !role.permissions.includes('manageSchema'))
+        .map(role => {
+            const member: User = { id: '', username: '', email: '', role: role.id, roles: [role.id], permissions: role.permissions };
+            return { type: 'role' as const, id: role.id, actions: getCategoryActions(member, { ...category, acl: undefined }) };
+        })
+        .filter(entry => entry.actions.length > 0);
+
+export const getRoleName = (definitions: RoleDefinition[], id: Role): string =>
+    definitions.find(d => d.id === id)?.name || id;
+
+// True when the user would no longer be able to manage users with these roles / role definitions
+// (UserManager asks before an admin locks themselves out)
+export const losesUserManagement = (user: User, roles: Role[], definitions: RoleDefinition[]): boolean =>
+    resolvePermissions(getUserRoles(user), definitions).includes('manageUsers')
+    && !resolvePermissions(roles, definitions).includes('manageUsers');
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { FieldDefinition, ResourceItem } from '../types';
+import { convertValue, countImpact, diffSchemas, migrateData } from './schemaMigration';
+
+const field = (id: string, key: string, type: FieldDefinition['type'], extra: Partial<FieldDefinition> = {}): FieldDefinition =>
+    ({ id, key, name: key, type, required: false, ...extra });
+
+const text = field('f1', 'code', 'text');
+const number = field('f1', 'code', 'number');
+
+describe('convertValue', () => {
+    it('parses numbers, dates and booleans from text', () => {
+        expect(convertValue(' 1 200,5 ', text, number)).toEqual({ ok: true, value: 1200.5 });
+        expect(convertValue('abc', text, number)).toEqual({ ok: false });
+        expect(convertValue('5/3/2024', text, { ...text, type: 'date' })).toEqual({ ok: true, value: '2024-03-05' });
+        expect(convertValue('Có', text, { ...text, type: 'boolean' }).ok).toBe(true);
+    });
+
+    it('turns choices into their labels and always converts empty values', () => {
+        const select = field('f1', 'status', 'select', { options: [{ value: 'open', label: 'Đang mở', color: 'blue' }] });
+        expect(convertValue('open', select, { ...select, type: 'text' })).toEqual({ ok: true, value: 'Đang mở' });
+        expect(convertValue('', text, number)).toEqual({ ok: true, value: undefined });
+    });
+});
+
+describe('diffSchemas / countImpact', () => {
+    const fields = [text, field('f2', 'note', 'text'), field('f3', 'name', 'text')];
+    const nextFields = [number, field('f3', 'title', 'text')];
+
+    it('lists the removed, retyped and rekeyed fields', () => {
+        expect(diffSchemas(fields, nextFields).map(c => [c.kind, c.field.key])).toEqual([['retyped', 'code'], ['removed', 'note'], ['rekeyed', 'name']]);
+        expect(diffSchemas(fields, fields)).toEqual([]);
+    });
+
+    it('adds the values and the unconvertible ones of every page', () => {
+        const page = (values: any[]) => values.map((code, i): ResourceItem => ({ id: `r${i}`, categoryId: 'c1', data: { code }, createdBy: 'admin', createdAt: i }));
+        const [retyped] = diffSchemas(fields, nextFields);
+        const counted = countImpact(countImpact(retyped, page(['1', 'x', ''])), page(['2,5', 'y']));
+        expect([counted.affected, counted.unconvertible]).toEqual([4, 2]);
+    });
+});
+
+describe('migrateData', () => {
+    const fields = [text, field('f2', 'note', 'text'), field('f3', 'name', 'text')];
+    const nextFields = [number, field('f3', 'title', 'text'), field('f4', 'archive', 'textarea')];
+    const changes = diffSchemas(fields, nextFields);
+
+    it('converts, renames and drops values with the default choices', () => {
+        expect(migrateData({ code: '42', note: 'n', name: 'A', other: 1 }, changes, { choices: {} }, nextFields))
+            .toEqual({ code: 42, title: 'A', other: 1 });
+    });
+
+    it('archives the values the admin chose to keep and the unconvertible ones', () => {
+        const plan = { choices: { f2: { action: 'archive' as const } }, archiveKey: 'archive' };
+        const migrated = migrateData({ code: 'abc', note: 'n' }, changes, plan, nextFields);
+        expect(migrated?.code).toBeUndefined();
+        expect(migrated?.archive).toContain('code: abc');
+        expect(migrated?.archive).toContain('note: n');
+    });
+
+    it('moves values to another field of the new schema', () => {
+        const plan = { choices: { f2: { action: 'rename' as const, targetKey: 'archive' } } };
+        expect(migrateData({ note: 'n' }, changes, plan, nextFields)).toEqual({ archive: 'n' });
+    });
+
+    it('returns null when the record holds none of the changed fields', () => {
+        expect(migrateData({ other: 1 }, changes, { choices: {} }, nextFields)).toBeNull();
+    });
+});
+
+describe('formula changes', () => {
+    const qty = field('f1', 'qty', 'number');
+    const price = field('f2', 'price', 'number');
+    const total = field('f3', 'total', 'formula', { formula: '{qty} * {price}' });
+
+    it('recompute added formulas and edited expressions', () => {
+        expect(diffSchemas([qty, price], [qty, price, total]).map(c => [c.kind, c.field.key])).toEqual([['recomputed', 'total']]);
+        const edited = { ...total, formula: '{qty} * {price} * 2' };
+        expect(diffSchemas([qty, price, total], [qty, price, edited]).map(c => c.kind)).toEqual(['recomputed']);
+        expect(diffSchemas([qty, price, total], [qty, price, { ...total, formula: ' {qty} * {price} ' }])).toEqual([]);
+    });
+
+    it('store the new results on every record, stale values included', () => {
+        const added = diffSchemas([qty, price], [qty, price, total]);
+        expect(migrateData({ qty: 2, price: 5 }, added, { choices: {} }, [qty, price, total])).toEqual({ qty: 2, price: 5, total: 10 });
+        const edited = { ...total, formula: '{qty} + {price}' };
+        const changes = diffSchemas([qty, price, total], [qty, price, edited]);
+        expect(migrateData({ qty: 2, price: 5, total: 10 }, changes, { choices: {} }, [qty, price, edited])).toEqual({ qty: 2, price: 5, total: 7 });
+        expect(migrateData({ qty: 2, price: 5, total: 7 }, changes, { choices: {} }, [qty, price, edited])).toBeNull();
+    });
+
+    it('follow renamed keys and the fields migrated before them', () => {
+        const renamed = { ...total, key: 'amount', formula: '{so_luong} * 3' };
+        const nextQty = { ...qty, key: 'so_luong' };
+        const changes = diffSchemas([qty, price, total], [nextQty, price, renamed]);
+        expect(changes.map(c => c.kind)).toEqual(['rekeyed', 'recomputed']);
+        expect(migrateData({ qty: 2, total: 0 }, changes, { choices: {} }, [nextQty, price, renamed], { qty: 'so_luong' })).toEqual({ so_luong: 2, amount: 6 });
+    });
+});
@@ -0,0 +1,194 @@
+import { Category, FieldDefinition, FieldType, ResourceItem } from '../types';
+import { isEmptyValue, sameValue } from './validation';
+import { applyFormulas } from './formula';
+
+// Schema migration: compares the saved fields of a category with the edited ones, previews the impact
+// on ResourceItem.data and rewrites the records according to the admin's choices before the schema is saved
+// (dataService.previewMigration / saveCategory read the records page by page).
+
+export type MigrationAction = 'drop' | 'rename' | 'convert' | 'archive';
+
+export interface SchemaChange {
+    kind: 'removed' | 'retyped' | 'rekeyed' | 'recomputed'; // recomputed: formula added or its expression changed
+    field: FieldDefinition; // field in the saved schema (the new formula itself when added)
+    next?: FieldDefinition; // same field (matched by id) in the edited schema, absent when removed
+    affected: number; // records holding a value in this field, every record of the category when recomputed
+    unconvertible: number; // retyped only: values that cannot be converted to the new type
+}
+
+export interface MigrationChoice {
+    action: MigrationAction;
+    targetKey?: string; // rename: field of the new schema receiving the values
+}
+
+export interface MigrationPlan {
+    choices: Record<string, MigrationChoice>; // by field id
+    archiveKey?: string; // text/textarea field of the new schema receiving archived values
+}
+
+const TEXT_TYPES: FieldType[] = ['text', 'textarea'];
+const TRUE_WORDS = ['true', '1', 'có', 'đúng', 'yes', 'x'];
+const FALSE_WORDS = ['false', '0', 'không', 'sai', 'no'];
+
+const stringify = (value: any): string => Array.isArray(value) ? value.join(', ') : String(value);
+
+// Converts a stored value from one field type to another. Empty values always convert (to nothing).
+export const convertValue = (value: any, from: FieldDefinition, to: FieldDefinition): { ok: boolean; value?: any } => {
+    if (isEmptyValue(value)) return { ok: true, value: undefined };
+    if (from.type === to.type) return { ok: true, value };
+
+    switch (to.type) {
+        case 'text':
+        case 'textarea':
+            if (from.type === 'boolean') return { ok: true, value: value === 'true' ? 'Có' : 'Không' };
+            if (from.type === 'select' || from.type === 'multiselect') {
+                const labels = (Array.isArray(value) ? value : [value]).map(v => from.options?.find(o => o.value === v)?.label || v);
+                return { ok: true, value: labels.join(', ') };
+            }
+            return { ok: true, value: stringify(value) };
+        case 'number': {
+            const text = stringify(value).trim().replace(/\s/g, '');
+            if (!/^-?\d+([.,]\d+)?$/.test(text)) return { ok: false };
+            return { ok: true, value: Number(text.replace(',', '.')) };
+        }
+        case 'date': {
+            const text = stringify(value).trim();
+            if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return { ok: true, value: text };
+            const vn = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/); // dd/mm/yyyy
+            if (vn) return { ok: true, value: `${vn[3]}-${vn[2].padStart(2, '0')}-${vn[1].padStart(2, '0')}` };
+            return { ok: false };
+        }
+        case 'boolean': {
+            const text = stringify(value).trim().toLowerCase();
+            if (TRUE_WORDS.includes(text)) return { ok: true, value: 'true' };
+            if (FALSE_WORDS.includes(text)) return { ok: true, value: 'false' };
+            return { ok: false };
+        }
+        case 'select':
+        case 'multiselect': {
+            const parts: string[] = from.type === 'multiselect' || Array.isArray(value)
+                ? (Array.isArray(value) ? value : [value])
+                : TEXT_TYPES.includes(from.type) && to.type === 'multiselect' ? String(value).split(/[;,]/) : [String(value)];
+            const mapped = parts.map(p => String(p).trim()).filter(p => p).map(p =>
+                to.options?.find(o => o.value === p || o.label.toLowerCase() === p.toLowerCase())?.value);
+            if (mapped.some(v => v === undefined)) return { ok: false };
+            if (to.type === 'select') return mapped.length <= 1 ? { ok: true, value: mapped[0] } : { ok: false };
+            return { ok: true, value: mapped };
+        }
+        case 'formula':
+            return { ok: true, value: undefined }; // recomputed from the other fields
+        case 'image':
+        case 'file':
+            return (from.type === 'image' || from.type === 'file') ? { ok: true, value } : { ok: false };
+        default:
+            return { ok: false }; // project / user / reference ids cannot be derived from other types
+    }
+};
+
+const formulaChanged = (field: FieldDefinition, next: FieldDefinition) =>
+    next.type === 'formula' && (field.type !== 'formula' || (field.formula || '').trim() !== (next.formula || '').trim());
+
+// Lists the changes of `nextFields` that affect stored data; their impact is counted by countImpact.
+// Formula results are stored with the records (backend filters and sorts read them), so new formulas and
+// edited expressions are recomputed on every record.
+export const diffSchemas = (fields: FieldDefinition[], nextFields: FieldDefinition[]): SchemaChange[] => {
+    const changes: SchemaChange[] = [];
+    fields.forEach(field => {
+        const next = nextFields.find(f => f.id === field.id);
+        if (!next) {
+            changes.push({ kind: 'removed', field, affected: 0, unconvertible: 0 });
+        } else if (formulaChanged(field, next)) {
+            changes.push({ kind: 'recomputed', field, next, affected: 0, unconvertible: 0 });
+        } else if (next.type !== field.type) {
+            changes.push({ kind: 'retyped', field, next, affected: 0, unconvertible: 0 });
+        } else if (next.key !== field.key) {
+            changes.push({ kind: 'rekeyed', field, next, affected: 0, unconvertible: 0 });
+        }
+    });
+    nextFields
+        .filter(next => next.type === 'formula' && !fields.some(f => f.id === next.id))
+        .forEach(next => changes.push({ kind: 'recomputed', field: next, next, affected: 0, unconvertible: 0 }));
+    return changes;
+};
+
+// Adds the values of `resources` (one page of the category) to the counts of the change
+export const countImpact = (change: SchemaChange, resources: ResourceItem[]): SchemaChange => {
+    const { field, next } = change;
+    const withValue = resources.filter(r => !isEmptyValue(r.data?.[field.key]));
+    const unconvertible = change.kind === 'retyped' && next
+        ? withValue.filter(r => !convertValue(r.data[field.key], field, next).ok).length
+        : 0;
+    return { ...change, affected: change.affected + withValue.length, unconvertible: change.unconvertible + unconvertible };
+};
+
+export const defaultChoice = (change: SchemaChange): MigrationChoice =>
+    change.kind === 'removed' ? { action: 'drop' } : { action: 'convert' };
+
+// Rewrites one record according to the plan, formulas recomputed with the new schema (`aliases` are its
+// renamed keys). Returns null when the record is unchanged.
+export const migrateData = (data: Record<string, any>, changes: SchemaChange[], plan: MigrationPlan, nextFields: FieldDefinition[], aliases?: Category['fieldKeyAliases']): Record<string, any> | null => {
+    const result: Record<string, any> = { ...data };
+    const archived: string[] = [];
+    let changed = false;
+
+    const archive = (field: FieldDefinition, value: any) => {
+        if (plan.archiveKey) archived.push(`${field.name}: ${stringify(value)}`);
+    };
+
+    changes.forEach(change => {
+        const { field, next } = change;
+        const value = data[field.key];
+        if (change.kind === 'recomputed') {
+            // the value is computed below; a formula stored under its former key leaves it
+            if (next && next.key !== field.key && field.key in result) { delete result[field.key]; changed = true; }
+            return;
+        }
+        if (isEmptyValue(value)) {
+            if (field.key in result && (!next || next.key !== field.key)) { delete result[field.key]; changed = true; }
+            return;
+        }
+        changed = true;
+        delete result[field.key];
+        const choice = plan.choices[field.id] || defaultChoice(change);
+
+        if (change.kind === 'rekeyed' && next) {
+            result[next.key] = value;
+            return;
+        }
+        switch (choice.action) {
+            case 'archive':
+                archive(field, value);
+                return;
+            case 'rename': {
+                const target = nextFields.find(f => f.key === choice.targetKey);
+                if (!target) return;
+                const converted = convertValue(value, field, target);
+                if (converted.ok) result[target.key] = converted.value;
+                else archive(field, value);
+                return;
+            }
+            case 'convert': {
+                if (!next) return;
+                const converted = convertValue(value, field, next);
+                if (converted.ok) {
+                    if (converted.value === undefined) delete result[next.key];
+                    else result[next.key] = converted.value;
+                } else {
+                    delete result[next.key];
+                    archive(field, value);
+                }
+                return;
+            }
+            default:
+                return; // drop
+        }
+    });
+
+    if (plan.archiveKey && archived.length > 0) {
+        const existing = result[plan.archiveKey] ? `${result[plan.archiveKey]}\n` : '';
+        result[plan.archiveKey] = existing + archived.join('\n');
+    }
+    const computed = applyFormulas({ fields: nextFields, fieldKeyAliases: aliases }, result);
+    const recomputed = nextFields.some(f => f.type === 'formula' && !sameValue(computed[f.key], data[f.key]));
+    return changed || recomputed ? computed : null;
+};
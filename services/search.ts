@@ -0,0 +1,111 @@
+import { Category, Project, ResourceItem, User, PERMISSIONS, ResourceFilter } from '../types';
+import { dataService, projectService, authService } from './storage';
+import { getResourceTitle, getTitleField } from './references';
+import { readableCategory } from './fieldAccess';
+
+// Global search of the command palette: resource text fields of every category the user may view,
+// projects and (for admins, who manage them) users. Results are ranked per group.
+
+export type SearchResultKind = 'resource' | 'project' | 'user';
+
+export interface SearchResult {
+    kind: SearchResultKind;
+    id: string;
+    title: string;
+    subtitle: string;
+    score: number;
+    resource?: ResourceItem;
+    project?: Project;
+    user?: User;
+}
+
+export interface SearchResults {
+    resources: SearchResult[];
+    projects: SearchResult[];
+    users: SearchResult[];
+}
+
+const RESULTS_PER_GROUP = 8;
+const SEARCHABLE_TYPES = ['text', 'textarea', 'formula'];
+
+// Higher is better, 0 = no match
+export const scoreMatch = (text: any, term: string): number => {
+    if (text === undefined || text === null) return 0;
+    const value = String(text).toLowerCase();
+    const query = term.toLowerCase();
+    if (!value || !query) return 0;
+    if (value === query) return 100;
+    if (value.startsWith(query)) return 70;
+    const index = value.indexOf(query);
+    if (index < 0) return 0;
+    return /[\s\-_/.,(]/.test(value[index - 1]) ? 50 : 30; // start of a word vs. inside a word
+};
+
+const bestScore = (texts: any[], term: string) => Math.max(0, ...texts.map(t => scoreMatch(t, term)));
+
+const rank = (results: SearchResult[]) =>
+    results.filter(r => r.score > 0).sort((a, b) => b.score - a.score || a.title.localeCompare(b.title)).slice(0, RESULTS_PER_GROUP);
+
+const searchCategory = async (category: Category, term: string): Promise<SearchResult[]> => {
+    const fields = category.fields.filter(f => SEARCHABLE_TYPES.includes(f.type));
+    if (fields.length === 0) return [];
+    const { items } = await dataService.queryResources({
+        categoryId: category.id,
+        where: { combinator: 'or', items: fields.map((f): ResourceFilter => ({ field: f.key, op: 'contains', value: term })) },
+        pageSize: RESULTS_PER_GROUP * 3
+    });
+    const titleKey = getTitleField(category)?.key;
+    return items.map(resource => {
+        const matched = fields.find(f => scoreMatch(resource.data?.[f.key], term) > 0);
+        const titleScore = titleKey ? scoreMatch(resource.data?.[titleKey], term) : 0;
+        return {
+            kind: 'resource' as const,
+            id: resource.id,
+            title: getResourceTitle(resource, category),
+            subtitle: matched && matched.key !== titleKey
+                ? `${category.name} · ${matched.name}: ${String(resource.data?.[matched.key]).slice(0, 80)}`
+                : category.name,
+            // Matches in the title weigh more than elsewhere
+            score: titleScore > 0 ? titleScore + 10 : bestScore(fields.map(f => resource.data?.[f.key]), term),
+            resource
+        };
+    });
+};
+
+export const searchAll = async (term: string, user: User): Promise<SearchResults> => {
+    const query = term.trim();
+    if (!query) return { resources: [], projects: [], users: [] };
+
+    const [categories, projects, users] = await Promise.all([
+        dataService.getCategories(),
+        projectService.getAll(),
+        PERMISSIONS.canManageUsers(user) ? authService.getAllUsers() : Promise.resolve([] as User[])
+    ]);
+    // Hidden fields are not searched, a match would reveal their content
+    const viewable = categories.filter(c => PERMISSIONS.canViewCategory(user, c)).map(c => readableCategory(user, c));
+    const resourceResults = (await Promise.all(viewable.map(c => searchCategory(c, query).catch(() => [])))).flat();
+
+    return {
+        resources: rank(resourceResults),
+        projects: rank(projects.map(p => {
+            const codeScore = scoreMatch(p.code, query);
+            return {
+                kind: 'project' as const,
+                id: p.id,
+                title: `${p.code} - ${p.name}`,
+                subtitle: p.description || '',
+                // Codes are what people type, descriptions are only a weak signal
+                score: Math.max(codeScore ? codeScore + 5 : 0, scoreMatch(p.name, query), scoreMatch(p.description, query) / 2),
+                project: p
+            };
+        })),
+        users: rank(users.map(u => ({
+            kind: 'user' as const,
+            id: u.id,
+            title: u.fullName || u.username,
+            subtitle: `@${u.username} · ${u.email}`,
+            score: bestScore([u.username, u.fullName, u.email], query),
+            user: u
+        })))
+    };
+};
@@ -1,19 +1,13 @@
 
+import { User, Category, FieldDefinition, ResourceItem, ResourceRevision, Role, RoleDefinition, SystemConfig, Project, ProjectRole, AuditLog, SchemaVersion, ResourceQuery, ResourcePage, ResourceFilter, ResourceFilterGroup, SavedView, PERMISSIONS, BUILT_IN_ROLES, getUserRoles, resolvePermissions, isMembersOnly } from '../types';
+import { getBackend } from './backend';
+import { generateUUID } from './uuid';
+import { ResourceConflictError } from './conflicts';
+import { keepLockedValues, redactResource, getHiddenKeys } from './fieldAccess';
+import { matchesFilterGroup, isFilterGroup } from './resourceQuery';
+import { SchemaChange, MigrationPlan, diffSchemas, countImpact, migrateData } from './schemaMigration';
 
-import { User, Category, ResourceItem, Role, SystemConfig, Project, AuditLog } from '../types';
-import { supabase } from './supabase';
-
-// Helper to generate UUIDs client-side if needed (Supabase usually handles this, but good for optimistic UI)
-export const generateUUID = () => {
-    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
-        return crypto.randomUUID();
-    }
-    // Fallback for environments where crypto.randomUUID is not available (e.g. non-secure contexts)
-    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-        var r = Math.random() * 16 | 0, v = c == 'x' ? r : (r & 0x3 | 0x8);
-        return v.toString(16);
-    });
-};
+export { generateUUID };
 
 const DEFAULT_LOGO = "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 100 100' fill='none'%3E%3Crect width='100' height='100' rx='20' fill='url(%23paint0_linear)'/%3E%3Cpath d='M30 50L45 65L70 35' stroke='white' stroke-width='10' stroke-linecap='round' stroke-linejoin='round'/%3E%3Cdefs%3E%3ClinearGradient id='paint0_linear' x1='0' y1='0' x2='100' y2='100' gradientUnits='userSpaceOnUse'%3E%3Cstop stop-color='%232563EB'/%3E%3Cstop offset='1' stop-color='%234F46E5'/%3E%3C/linearGradient%3E%3C/defs%3E%3C/svg%3E";
 
@@ -24,34 +18,189 @@ const DEFAULT_CONFIG: SystemConfig = {
     footerText: '© 2024 ResourceVault Enterprise Edition',
     logoUrl: DEFAULT_LOGO,
     faviconUrl: DEFAULT_LOGO,
-    allowRegistration: true
+    allowRegistration: true,
+    trashRetentionDays: 30
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The signed-in user with resolved permissions (kept by authService), checked by the resource writes of dataService
+let signedInUser: User | null = null;
+
+type ResourceCheck = (user: User, resource: ResourceItem, category: Category) => boolean;
+
+// Rejects the writes reserved to a permission of the signed-in user (schemas, recycle bin)
+const assertPermitted = (check: (user: User) => boolean, message: string) => {
+    const user = signedInUser;
+    if (!user) throw new Error('Bạn cần đăng nhập để thay đổi dữ liệu');
+    if (!check(user)) throw new Error(message);
+};
+
+// Rejects the whole write when one of the records is outside the category permissions of the signed-in user
+const assertCategoryAccess = async (resources: ResourceItem[], check: ResourceCheck, message: string) => {
+    if (resources.length === 0) return;
+    const user = signedInUser;
+    if (!user) throw new Error('Bạn cần đăng nhập để thay đổi dữ liệu');
+    const categories = await getBackend().listCategories();
+    const denied = resources.some(r => {
+        const category = categories.find(c => c.id === r.categoryId);
+        return !category || !check(user, r, category);
+    });
+    if (denied) throw new Error(message);
+};
+
+// Ids of the categories the signed-in user may view, undefined when every category is visible
+const viewableCategoryIds = (categories: Category[]): string[] | undefined => {
+    const user = signedInUser;
+    if (!user) return undefined;
+    const viewable = categories.filter(c => PERMISSIONS.canViewCategory(user, c));
+    return viewable.length === categories.length ? undefined : viewable.map(c => c.id);
+};
+
+// Condition limiting the member-only categories to the records linking one of the signed-in user's projects,
+// evaluated by the backend like the filters of the query
+const membersOnlyCondition = (categories: Category[]): ResourceFilterGroup | undefined => {
+    const user = signedInUser;
+    if (!user) return undefined;
+    const limited = categories.filter(c => isMembersOnly(user, c));
+    if (limited.length === 0) return undefined;
+    const projectIds = Object.keys(user.projectRoles || {});
+    const linking = (category: Category): ResourceFilter[] => projectIds.length === 0 ? [] : category.fields
+        .filter(f => f.type === 'project')
+        .map(f => ({ field: f.key, op: 'has', value: [...projectIds, 'all'] }));
+    return {
+        combinator: 'or',
+        items: [
+            { combinator: 'and', items: limited.map((c): ResourceFilter => ({ field: 'categoryId', op: 'neq', value: c.id })) },
+            ...limited.filter(c => linking(c).length > 0).map((c): ResourceFilterGroup => ({
+                combinator: 'and',
+                items: [{ field: 'categoryId', op: 'eq', value: c.id }, { combinator: 'or', items: linking(c) }]
+            }))
+        ]
+    };
+};
+
+// Member-only records are also checked in their stored version: the copy sent by the client may link other projects
+const assertStoredAccess = async (ids: string[], check: ResourceCheck, message: string) => {
+    const user = signedInUser;
+    if (!user || ids.length === 0) return;
+    const backend = getBackend();
+    const categories = (await backend.listCategories()).filter(c => isMembersOnly(user, c));
+    if (categories.length === 0) return;
+    const stored = await backend.listResourcesByIds(ids);
+    const denied = stored.some(r => {
+        const category = categories.find(c => c.id === r.categoryId);
+        return !!category && !check(user, r, category);
+    });
+    if (denied) throw new Error(message);
 };
 
+// Strips the fields the signed-in user may not read (see services/fieldAccess.ts)
+const redactResources = <T extends Pick<ResourceItem, 'categoryId' | 'data'>>(resources: T[], categories: Category[]): T[] => {
+    const user = signedInUser;
+    if (!user) return resources;
+    return resources.map(r => {
+        const category = categories.find(c => c.id === r.categoryId);
+        return category ? redactResource(user, category, r) : r;
+    });
+};
+
+// Drops the filters, conditions and sorts on keys the signed-in user may not read in one of the queried categories
+// (see getHiddenKeys): matching or ordering on them would reveal the hidden values
+const withoutHiddenKeys = (query: ResourceQuery, categories: Category[]): ResourceQuery => {
+    const user = signedInUser;
+    if (!user) return query;
+    const queried = categories.filter(c => query.categoryId ? c.id === query.categoryId : !query.categoryIds || query.categoryIds.includes(c.id));
+    const hidden = new Set(queried.flatMap(c => getHiddenKeys(user, c)));
+    if (hidden.size === 0) return query;
+    // Groups left without conditions are dropped with them
+    const keepGroup = (group: ResourceFilterGroup): ResourceFilterGroup | undefined => {
+        const items = group.items.flatMap((node): (ResourceFilter | ResourceFilterGroup)[] => {
+            if (!isFilterGroup(node)) return hidden.has(node.field) ? [] : [node];
+            const kept = keepGroup(node);
+            return kept ? [kept] : [];
+        });
+        return items.length > 0 ? { ...group, items } : undefined;
+    };
+    return {
+        ...query,
+        filters: query.filters?.filter(f => !hidden.has(f.field)),
+        where: query.where && keepGroup(query.where),
+        sort: query.sort?.filter(s => !hidden.has(s.field))
+    };
+};
+
+// Reference sorts order by the titles of the target records: they fall back to the stored ids when
+// the user may not read the title field of every target record
+const withReadableTitles = (query: ResourceQuery, categories: Category[]): ResourceQuery => {
+    const user = signedInUser;
+    if (!user || !query.sort?.some(s => s.titleKey)) return query;
+    const viewable = viewableCategoryIds(categories);
+    const readable = (fieldKey: string, titleKey: string) => {
+        const field = categories.flatMap(c => c.fields).find(f => f.key === fieldKey && f.type === 'reference');
+        const target = categories.find(c => c.id === field?.reference?.categoryId);
+        return !!target && (!viewable || viewable.includes(target.id)) && !isMembersOnly(user, target) && !getHiddenKeys(user, target).includes(titleKey);
+    };
+    return { ...query, sort: query.sort.map(({ titleKey, ...s }) => titleKey && readable(s.field, titleKey) ? { ...s, titleKey } : s) };
+};
+
+// Puts back the stored values of the fields the signed-in user may not change
+const keepLockedFields = async (resources: ResourceItem[]): Promise<ResourceItem[]> => {
+    const user = signedInUser;
+    if (!user) return resources;
+    const backend = getBackend();
+    const categories = await backend.listCategories();
+    const categoryOf = (r: ResourceItem) => categories.find(c => c.id === r.categoryId);
+    const locked = resources.filter(r => categoryOf(r)?.fields.some(f => !PERMISSIONS.canWriteField(user, f)));
+    if (locked.length === 0) return resources;
+    const stored = await backend.listResourcesByIds(locked.map(r => r.id));
+    return resources.map(r => locked.includes(r) ? keepLockedValues(user, categoryOf(r)!, r, stored.find(s => s.id === r.id)) : r);
+};
+
+// Moved records leave the category they are stored in: the user needs to edit and delete them there
+const assertMoveSource = async (ids: string[], message: string) => {
+    const user = signedInUser;
+    if (!user || ids.length === 0) return;
+    const backend = getBackend();
+    const [categories, stored] = await Promise.all([backend.listCategories(), backend.listResourcesByIds(ids)]);
+    const denied = ids.some(id => {
+        const resource = stored.find(r => r.id === id);
+        const category = resource && categories.find(c => c.id === resource.categoryId);
+        return !resource || !category || !PERMISSIONS.canEditResource(user, resource, category) || !PERMISSIONS.canDeleteResource(user, resource, category);
+    });
+    if (denied) throw new Error(message);
+};
+
+const canSave = ({ newIds = [], moved }: SaveResourceOptions): ResourceCheck => (user, resource, category) => moved || newIds.includes(resource.id)
+    ? PERMISSIONS.canCreateResource(user, category, resource)
+    : PERMISSIONS.canEditResource(user, resource, category);
+
 // --- AUDIT SERVICE ---
 export const auditService = {
-    log: async (action: 'LOGIN' | 'CREATE' | 'UPDATE' | 'DELETE', target: string, details: string, userId?: string, username?: string) => {
+    log: async (action: AuditLog['action'], target: string, details: string, userId?: string, username?: string) => {
         try {
+            const backend = getBackend();
             // If user info not provided, try to get current session
             let uid = userId;
             let uname = username;
 
             if (!uid) {
-                const { data: { session } } = await supabase.auth.getSession();
-                if (session) {
-                    uid = session.user.id;
+                const sessionUser = await backend.getSessionUser();
+                if (sessionUser) {
+                    uid = sessionUser.id;
                     // Try to get username from profile if not provided
                     if (!uname) {
-                         const { data } = await supabase.from('profiles').select('username').eq('id', uid).single();
-                         uname = data?.username || session.user.email;
+                         const profile = await backend.getProfile(uid);
+                         uname = profile?.username || sessionUser.email;
                     }
                 }
             }
 
             if (!uid) return; // Can't log without user
 
-            await supabase.from('audit_logs').insert({
+            await backend.insertAuditLog({
                 user_id: uid,
-                username: uname,
+                username: uname || '',
                 action,
                 target,
                 details
@@ -62,101 +211,136 @@ export const auditService = {
     },
 
     getLogs: async (): Promise<AuditLog[]> => {
-        const { data, error } = await supabase
-            .from('audit_logs')
-            .select('*')
-            .order('created_at', { ascending: false })
-            .limit(100); // Limit to last 100 logs for performance
-        
-        if (error) throw new Error(error.message);
-        return data as AuditLog[];
+        return getBackend().listAuditLogs(100); // Limit to last 100 logs for performance
     }
 };
 
+// --- ROLE SERVICE ---
+const USERS_DENIED = 'Bạn không có quyền quản lý thành viên và vai trò';
+
+export const roleService = {
+  // Built-in roles first (with their saved permissions), then the custom roles
+  getAll: async (): Promise<RoleDefinition[]> => {
+    const stored = await getBackend().listRoles();
+    const builtIn = BUILT_IN_ROLES.map(def => {
+      const saved = stored.find(r => r.id === def.id);
+      if (!saved || def.id === 'admin') return def;
+      return { ...def, permissions: saved.permissions };
+    });
+    const custom = stored.filter(r => !BUILT_IN_ROLES.some(def => def.id === r.id)).map(r => ({ ...r, builtIn: undefined }));
+    return [...builtIn, ...custom];
+  },
+
+  save: async (role: RoleDefinition) => {
+    assertPermitted(PERMISSIONS.canManageUsers, USERS_DENIED);
+    if (role.id === 'admin') throw new Error('Không thể thay đổi quyền của vai trò Admin');
+    await getBackend().upsertRole(role);
+    // LOGGING
+    auditService.log('UPDATE', 'Role', `Cập nhật vai trò: ${role.name} (${role.permissions.join(', ') || 'không có quyền'})`);
+  },
+
+  // Members of a deleted role keep their other roles, users left without a role fall back to 'user'
+  delete: async (role: RoleDefinition) => {
+    assertPermitted(PERMISSIONS.canManageUsers, USERS_DENIED);
+    if (BUILT_IN_ROLES.some(def => def.id === role.id)) throw new Error('Không thể xóa vai trò mặc định');
+    const backend = getBackend();
+    const users = await backend.listProfiles();
+    for (const user of users.filter(u => getUserRoles(u).includes(role.id))) {
+      const roles = getUserRoles(user).filter(r => r !== role.id);
+      await backend.updateProfile(user.id, { role: roles[0] || 'user', roles: roles.length > 0 ? roles : ['user'] });
+    }
+    await backend.deleteRole(role.id);
+    // LOGGING
+    auditService.log('DELETE', 'Role', `Xóa vai trò: ${role.name}`);
+  },
+
+  // The user with the permissions granted by all of their roles and their roles in the projects they belong to
+  resolveUser: async (user: User): Promise<User> => {
+    const roles = getUserRoles(user);
+    const projectRoles: Record<string, ProjectRole> = {};
+    try {
+      (await projectService.getAll()).forEach(p => {
+        const member = p.members?.find(m => m.userId === user.id);
+        if (member) projectRoles[p.id] = member.role;
+      });
+    } catch (e) {
+      console.warn("Failed to load project memberships", e);
+    }
+    try {
+      return { ...user, roles, permissions: resolvePermissions(roles, await roleService.getAll()), projectRoles };
+    } catch (e) {
+      console.warn("Failed to load roles, using the built-in permissions", e);
+      return { ...user, roles, permissions: resolvePermissions(roles, BUILT_IN_ROLES), projectRoles };
+    }
+  }
+};
+
 export const authService = {
   login: async (identifier: string, password: string): Promise<User | null> => {
+    const backend = getBackend();
     // 1. Resolve identifier: Check if it's a username (no @)
     let emailToUse = identifier;
     
     if (!identifier.includes('@')) {
-        const { data: profileData } = await supabase
-            .from('profiles')
-            .select('email')
-            .eq('username', identifier)
-            .single();
+        const profileData = await backend.findProfileByUsername(identifier);
         if (profileData) {
             emailToUse = profileData.email;
         }
     }
 
-    // 2. Authenticate with Supabase Auth (Email/Password)
-    const { data: authData, error: authError } = await supabase.auth.signInWithPassword({
-        email: emailToUse,
-        password: password,
-    });
-
-    if (authError) throw new Error(authError.message);
-    if (!authData.user) return null;
+    // 2. Authenticate (Email/Password)
+    const identity = await backend.signIn(emailToUse, password);
 
     // 3. Fetch extended profile data
-    const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', authData.user.id)
-        .single();
+    const profile = await backend.getProfile(identity.id);
     
-    // Self-healing logic... (omitted for brevity, assumed same as before)
-    if (profileError && profileError.code === 'PGRST116') {
-         await supabase.from('profiles').insert([{
-            id: authData.user.id,
-            email: authData.user.email,
-            username: authData.user.email?.split('@')[0] || 'user',
-            role: 'user',
-            full_name: ''
-         }]);
+    // Self-healing: create a missing profile row for an existing auth account
+    if (!profile) {
+        try {
+            await backend.insertProfile({
+                id: identity.id,
+                email: identity.email,
+                username: identity.email.split('@')[0] || 'user',
+                role: 'user',
+                fullName: ''
+            });
+        } catch (e) {
+            console.warn("Failed to create missing profile", e);
+        }
     }
 
     const user: User = {
-        id: profile?.id || authData.user.id,
-        username: profile?.username || authData.user.email!.split('@')[0],
-        email: profile?.email || authData.user.email!,
-        role: (profile?.role as Role) || 'user',
-        fullName: profile?.full_name,
-        avatarUrl: profile?.avatar_url
+        id: profile?.id || identity.id,
+        username: profile?.username || identity.email.split('@')[0],
+        email: profile?.email || identity.email,
+        role: profile?.role || 'user',
+        fullName: profile?.fullName,
+        avatarUrl: profile?.avatarUrl,
+        roles: profile?.roles
     };
 
     // LOGGING
     auditService.log('LOGIN', 'System', 'Người dùng đăng nhập thành công', user.id, user.username);
     
-    return user;
+    signedInUser = await roleService.resolveUser(user);
+    return signedInUser;
   },
   
   register: async (username: string, email: string, password: string, role: Role, fullName: string): Promise<User> => {
-    const { data: authData, error: authError } = await supabase.auth.signUp({
-        email,
-        password,
-    });
+    const backend = getBackend();
+    const identity = await backend.signUp(email, password);
 
-    if (authError) throw new Error(authError.message);
-    if (!authData.user) throw new Error('Không thể tạo người dùng');
-
-    const { error: profileError } = await supabase
-        .from('profiles')
-        .insert([{
-            id: authData.user.id,
-            username,
-            email,
-            role,
-            full_name: fullName
-        }]);
-
-    if (profileError) console.error("Register profile creation error:", profileError);
+    try {
+        await backend.insertProfile({ id: identity.id, username, email, role, fullName });
+    } catch (profileError) {
+        console.error("Register profile creation error:", profileError);
+    }
 
     // LOGGING (Using system context as we might not be logged in fully yet, or log as the new user)
-    auditService.log('CREATE', 'User', `Đăng ký tài khoản mới: ${username}`, authData.user.id, username);
+    auditService.log('CREATE', 'User', `Đăng ký tài khoản mới: ${username}`, identity.id, username);
 
     return {
-        id: authData.user.id,
+        id: identity.id,
         username,
         email,
         role,
@@ -165,256 +349,612 @@ export const authService = {
   },
 
   logout: async () => {
-    await supabase.auth.signOut();
+    signedInUser = null;
+    await getBackend().signOut();
   },
   
   getCurrentUser: async (): Promise<User | null> => {
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session?.user) return null;
-
-    const { data: profile } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', session.user.id)
-        .single();
-
-    if (profile) {
-        return {
-            id: profile.id,
-            username: profile.username,
-            email: profile.email,
-            role: profile.role as Role,
-            fullName: profile.full_name,
-            avatarUrl: profile.avatar_url
-        };
+    const backend = getBackend();
+    const sessionUser = await backend.getSessionUser();
+    if (!sessionUser) {
+        signedInUser = null;
+        return null;
     }
-    
-    return { // Fallback
-        id: session.user.id,
-        email: session.user.email!,
-        username: session.user.email?.split('@')[0] || 'user',
+
+    const profile = await backend.getProfile(sessionUser.id);
+    signedInUser = await roleService.resolveUser(profile || { // Fallback
+        id: sessionUser.id,
+        email: sessionUser.email,
+        username: sessionUser.email.split('@')[0] || 'user',
         role: 'user',
         fullName: '',
         avatarUrl: ''
-    };
+    });
+    return signedInUser;
   },
 
   getAllUsers: async (): Promise<User[]> => {
-    const { data, error } = await supabase.from('profiles').select('*');
-    if (error) throw new Error(error.message);
-    
-    return data.map((p: any) => ({
-        id: p.id,
-        username: p.username,
-        email: p.email,
-        role: p.role as Role,
-        fullName: p.full_name,
-        avatarUrl: p.avatar_url
-    }));
+    return getBackend().listProfiles();
   },
 
-  updateUserRole: async (userId: string, newRole: Role) => {
-    const { error } = await supabase.from('profiles').update({ role: newRole }).eq('id', userId);
-    if (error) throw new Error(error.message);
+  // The first role is stored as the primary `role` for code reading a single role
+  updateUserRoles: async (userId: string, roles: Role[]) => {
+    assertPermitted(PERMISSIONS.canManageUsers, USERS_DENIED);
+    if (roles.length === 0) throw new Error('Thành viên cần ít nhất một vai trò');
+    await getBackend().updateProfile(userId, { role: roles[0], roles });
     
     // LOGGING
-    auditService.log('UPDATE', 'User', `Cập nhật quyền thành viên ${userId} thành ${newRole}`);
+    auditService.log('UPDATE', 'User', `Cập nhật quyền thành viên ${userId} thành ${roles.join(', ')}`);
   },
 
   updateUserDetails: async (userId: string, data: Partial<User>) => {
-    const updates: any = {};
-    if (data.fullName) updates.full_name = data.fullName;
-    const { error } = await supabase.from('profiles').update(updates).eq('id', userId);
-    if (error) throw new Error(error.message);
+    const updates: Partial<User> = {};
+    if (data.fullName) updates.fullName = data.fullName;
+    await getBackend().updateProfile(userId, updates);
   },
 
   uploadAvatar: async (userId: string, file: File): Promise<string> => {
       const fileExt = file.name.split('.').pop();
-      const fileName = `${userId}/${Date.now()}.${fileExt}`;
-      const filePath = `${fileName}`;
-      const { error: uploadError } = await supabase.storage.from('avatars').upload(filePath, file);
-      if (uploadError) throw new Error('Lỗi tải ảnh lên: ' + uploadError.message);
-      const { data } = supabase.storage.from('avatars').getPublicUrl(filePath);
-      return data.publicUrl;
+      const filePath = `${userId}/${Date.now()}.${fileExt}`;
+      try {
+          return await getBackend().uploadFile('avatars', filePath, file);
+      } catch (e: any) {
+          throw new Error('Lỗi tải ảnh lên: ' + e.message);
+      }
   },
 
   uploadSystemAsset: async (file: File): Promise<string> => {
     const fileExt = file.name.split('.').pop();
     const fileName = `assets/${Date.now()}_${Math.random().toString(36).substring(7)}.${fileExt}`;
-    const { error: uploadError } = await supabase.storage.from('system-assets').upload(fileName, file);
-    if (uploadError) throw new Error('Lỗi tải file hệ thống: ' + uploadError.message);
-    const { data } = supabase.storage.from('system-assets').getPublicUrl(fileName);
-    return data.publicUrl;
+    try {
+        return await getBackend().uploadFile('system-assets', fileName, file);
+    } catch (e: any) {
+        throw new Error('Lỗi tải file hệ thống: ' + e.message);
+    }
   },
 
   uploadResourceFile: async (file: File): Promise<string> => {
     const fileExt = file.name.split('.').pop();
     const fileName = `files/${Date.now()}_${Math.random().toString(36).substring(7)}.${fileExt}`;
-    const { error: uploadError } = await supabase.storage.from('resource-attachments').upload(fileName, file);
-    if (uploadError) throw new Error('Lỗi tải file đính kèm: ' + uploadError.message);
-    const { data } = supabase.storage.from('resource-attachments').getPublicUrl(fileName);
-    return data.publicUrl;
+    try {
+        return await getBackend().uploadFile('resource-attachments', fileName, file);
+    } catch (e: any) {
+        throw new Error('Lỗi tải file đính kèm: ' + e.message);
+    }
   },
 
   updateProfile: async (userId: string, data: { fullName: string, avatarUrl: string }) => {
-      const { error } = await supabase.from('profiles').update({ full_name: data.fullName, avatar_url: data.avatarUrl }).eq('id', userId);
-      if (error) throw new Error(error.message);
+      await getBackend().updateProfile(userId, { fullName: data.fullName, avatarUrl: data.avatarUrl });
       // LOGGING
       auditService.log('UPDATE', 'Profile', 'Cập nhật thông tin cá nhân');
   },
 
   changePassword: async (email: string, oldPassword: string, newPassword: string) => {
-      const { error: signInError } = await supabase.auth.signInWithPassword({ email, password: oldPassword });
-      if (signInError) throw new Error("Mật khẩu cũ không chính xác.");
-      const { error: updateError } = await supabase.auth.updateUser({ password: newPassword });
-      if (updateError) throw new Error("Lỗi khi cập nhật mật khẩu: " + updateError.message);
+      const backend = getBackend();
+      try {
+          await backend.signIn(email, oldPassword);
+      } catch (e) {
+          throw new Error("Mật khẩu cũ không chính xác.");
+      }
+      try {
+          await backend.updatePassword(newPassword);
+      } catch (e: any) {
+          throw new Error("Lỗi khi cập nhật mật khẩu: " + e.message);
+      }
       
       // LOGGING
       auditService.log('UPDATE', 'Profile', 'Thay đổi mật khẩu');
   },
 
   deleteUser: async (userId: string) => {
-    const { error } = await supabase.from('profiles').delete().eq('id', userId);
-    if (error) throw new Error(error.message);
+    await getBackend().deleteProfile(userId);
     // LOGGING
     auditService.log('DELETE', 'User', `Xóa người dùng ID: ${userId}`);
   }
 };
 
+export interface ImportCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+  rejected: number;
+}
+
+export type BulkAction = 'delete' | 'edit' | 'move' | 'duplicate' | 'export';
+
+const BULK_AUDIT: Record<BulkAction, { action: AuditLog['action']; label: string }> = {
+  delete: { action: 'DELETE', label: 'Xóa hàng loạt' },
+  edit: { action: 'UPDATE', label: 'Sửa hàng loạt' },
+  move: { action: 'UPDATE', label: 'Chuyển danh mục hàng loạt' },
+  duplicate: { action: 'CREATE', label: 'Sao chép hàng loạt' },
+  export: { action: 'EXPORT', label: 'Xuất dữ liệu đã chọn' }
+};
+
+export interface SaveResourceOptions {
+  savedBy: string;
+  note?: string;
+  previous?: ResourceItem; // saved version, recorded first for records saved before revisions existed
+  newIds?: string[]; // records created by this save: their update stamp repeats the creation
+  moved?: boolean; // records moved to another category: checked against adding records there and removing them from the stored one
+  // saveResource only: version the edit started from, the save is rejected with a ResourceConflictError
+  // when the stored record has a newer one
+  expectedVersion?: number;
+}
+
+const toRevision = (resource: ResourceItem, createdBy: string, note?: string, createdAt = Date.now()): ResourceRevision => ({
+  id: generateUUID(),
+  resourceId: resource.id,
+  categoryId: resource.categoryId,
+  data: resource.data,
+  createdAt,
+  createdBy,
+  note
+});
+
+export interface SaveCategoryOptions {
+  createdBy: string;
+  previous?: Category;
+  migration?: { changes: SchemaChange[]; plan: MigrationPlan }; // choices of the migration preview
+  note?: string;
+}
+
+const SCHEMA_DENIED = 'Bạn không có quyền quản lý cấu trúc danh mục';
+const VIEW_DENIED = 'Bạn không có quyền sửa chế độ xem này';
+
+// Records read per query by the schema migration
+const MIGRATION_PAGE_SIZE = 500;
+
+// Visits the matches of the query one page at a time
+const forEachPage = async (query: ResourceQuery, visit: (items: ResourceItem[]) => void) => {
+  for (let page = 1; ; page++) {
+    const { items, total } = await getBackend().queryResources({ ...query, page, pageSize: MIGRATION_PAGE_SIZE });
+    visit(items);
+    if (items.length === 0 || page * MIGRATION_PAGE_SIZE >= total) return;
+  }
+};
+
+// Rewrites the records holding a value in one of the changed fields, a page at a time, each page saved in one
+// batch with its revisions. The ids are collected first: rewritten records may still match the query.
+const migrateRecords = async (category: Category, previous: Category, migration: NonNullable<SaveCategoryOptions['migration']>, createdBy: string, note: string): Promise<number> => {
+  const backend = getBackend();
+  const ids: string[] = [];
+  await forEachPage({
+    categoryId: previous.id,
+    // recomputed formulas rewrite every record
+    where: migration.changes.some(c => c.kind === 'recomputed')
+        ? undefined
+        : { combinator: 'or', items: migration.changes.map((c): ResourceFilter => ({ field: c.field.key, op: 'notEmpty' })) }
+  }, items => ids.push(...items.map(r => r.id)));
+  let count = 0;
+  for (let start = 0; start < ids.length; start += MIGRATION_PAGE_SIZE) {
+    const stored = await backend.listResourcesByIds(ids.slice(start, start + MIGRATION_PAGE_SIZE));
+    const rewritten = stored.flatMap(r => {
+      const data = migrateData(r.data || {}, migration.changes, migration.plan, category.fields, category.fieldKeyAliases);
+      return data ? [{ ...r, data }] : [];
+    });
+    if (rewritten.length === 0) continue;
+    const stamped = stampUpdate(rewritten, createdBy);
+    await backend.upsertResources(stamped);
+    await backend.insertResourceRevisions(stamped.map(r => toRevision(r, createdBy, note)));
+    count += stamped.length;
+  }
+  return count;
+};
+
+// updatedAt / updatedBy and version of saved resources; new records repeat their creation, at version 1
+const stampUpdate = (resources: ResourceItem[], updatedBy: string, newIds: string[] = []): ResourceItem[] => {
+  const updatedAt = Date.now();
+  return resources.map(r => newIds.includes(r.id)
+    ? { ...r, updatedAt: r.createdAt, updatedBy: r.createdBy, version: 1 }
+    : { ...r, updatedAt, updatedBy, version: (r.version || 0) + 1 });
+};
+
+// Values combined in one query by findResourcesByValues (they are sent in the URL)
+const VALUES_PER_QUERY = 50;
+
 export const dataService = {
+  // Categories outside the recycle bin
   getCategories: async (): Promise<Category[]> => {
-    const { data, error } = await supabase.from('categories').select('*').order('created_at', { ascending: true });
-    if (error) return [];
-    return data.map((c: any) => ({
-        id: c.id,
-        name: c.name,
-        description: c.description,
-        fields: c.fields,
-        createdAt: c.created_at,
-        accessLevel: c.access_level,
-        icon: c.icon
+    return (await getBackend().listCategories()).filter(c => !c.deletedAt);
+  },
+
+  // Impact of a schema edit on the stored records, the changes without values left out. Values are counted by the
+  // backend; those of retyped fields are checked page by page.
+  previewMigration: async (previous: Category, nextFields: FieldDefinition[]): Promise<SchemaChange[]> => {
+    assertPermitted(PERMISSIONS.canManageSchema, SCHEMA_DENIED);
+    const backend = getBackend();
+    const changes = await Promise.all(diffSchemas(previous.fields, nextFields).map(async change => {
+        const query: ResourceQuery = { categoryId: previous.id, filters: change.kind === 'recomputed' ? [] : [{ field: change.field.key, op: 'notEmpty' }] };
+        if (change.kind !== 'retyped') return { ...change, affected: (await backend.queryResources({ ...query, pageSize: 0 })).total };
+        let counted = change;
+        await forEachPage(query, items => { counted = countImpact(counted, items); });
+        return counted;
     }));
+    return changes.filter(c => c.affected > 0);
   },
 
-  saveCategory: async (category: Category) => {
-    // Check if insert or update for logging
-    const isNew = !category.id; 
-    const payload = {
-        id: category.id,
-        name: category.name,
-        description: category.description,
+  // Every save records a new schema version. `previous` is the category before the edit (recorded as the
+  // first version of categories created before versioning existed); with a `migration` the records are
+  // rewritten (see migrateRecords) before the new fields are saved. Returns the version and the rewritten count.
+  saveCategory: async (category: Category, options: SaveCategoryOptions): Promise<{ version: number; migrated: number }> => {
+    assertPermitted(PERMISSIONS.canManageSchema, SCHEMA_DENIED);
+    const backend = getBackend();
+    const versions = await backend.listSchemaVersions(category.id);
+    let latest = versions[0]?.version || 0;
+    const version = (latest === 0 && options.previous ? 1 : latest) + 1;
+    const migrated = options.previous && options.migration
+        ? await migrateRecords(category, options.previous, options.migration, options.createdBy, `Chuyển đổi theo cấu trúc phiên bản ${version}`)
+        : 0;
+
+    if (latest === 0 && options.previous) {
+        latest = 1;
+        await backend.insertSchemaVersion({
+            id: generateUUID(),
+            categoryId: category.id,
+            version: latest,
+            fields: options.previous.fields,
+            createdAt: options.previous.createdAt,
+            createdBy: options.createdBy,
+            note: 'Phiên bản ban đầu'
+        });
+    }
+    await backend.upsertCategory({ ...category, schemaVersion: version });
+    await backend.insertSchemaVersion({
+        id: generateUUID(),
+        categoryId: category.id,
+        version,
         fields: category.fields,
-        access_level: category.accessLevel,
-        icon: category.icon,
-        created_at: category.createdAt
-    };
-    const { error } = await supabase.from('categories').upsert(payload);
-    if (error) throw new Error(error.message);
+        createdAt: Date.now(),
+        createdBy: options.createdBy,
+        note: options.note
+    });
 
     // LOGGING
-    auditService.log(isNew ? 'CREATE' : 'UPDATE', 'Schema', `Lưu danh mục: ${category.name}`);
+    const migratedText = migrated > 0 ? `, chuyển đổi ${migrated} bản ghi` : '';
+    auditService.log(options.previous ? 'UPDATE' : 'CREATE', 'Schema', `Lưu danh mục: ${category.name} (phiên bản ${version}${migratedText})`);
+    return { version, migrated };
   },
 
-  deleteCategory: async (id: string) => {
-    const { error } = await supabase.from('categories').delete().eq('id', id);
-    if (error) throw new Error(error.message);
+  getSchemaVersions: async (categoryId: string): Promise<SchemaVersion[]> => {
+    return getBackend().listSchemaVersions(categoryId);
+  },
+
+  // Moves the category and its resources to the recycle bin, trashRestoreCategory brings both back
+  deleteCategory: async (category: Category, deletedBy: string) => {
+    assertPermitted(PERMISSIONS.canManageSchema, SCHEMA_DENIED);
+    const backend = getBackend();
+    const deletedAt = Date.now();
+    const ids = (await backend.listResources(category.id)).map(r => r.id);
+    if (ids.length > 0) await backend.markResourcesDeleted(ids, { deletedAt, deletedBy, deletedWith: category.id });
+    await backend.upsertCategory({ ...category, deletedAt, deletedBy });
     // LOGGING
-    auditService.log('DELETE', 'Schema', `Xóa danh mục ID: ${id}`);
+    auditService.log('DELETE', 'Schema', `Chuyển danh mục vào thùng rác: ${category.name} (kèm ${ids.length} bản ghi)`);
   },
 
+  // Reads only return the categories the signed-in user may view
+  // and without the fields the user may not read
   getResources: async (categoryId?: string): Promise<ResourceItem[]> => {
-    let query = supabase.from('resources').select('*');
-    if (categoryId) query = query.eq('category_id', categoryId);
-    const { data, error } = await query.order('created_at', { ascending: false });
-    if (error) return [];
-    return data.map((r: any) => ({
-        id: r.id,
-        categoryId: r.category_id,
-        data: r.data,
-        createdBy: r.created_by,
-        createdAt: r.created_at
-    }));
+    const categories = await getBackend().listCategories();
+    const viewable = viewableCategoryIds(categories);
+    if (viewable && categoryId && !viewable.includes(categoryId)) return [];
+    const resources = (await getBackend().listResources(categoryId)).filter(r => !viewable || viewable.includes(r.categoryId));
+    const condition = membersOnlyCondition(categories);
+    return redactResources(condition ? resources.filter(r => matchesFilterGroup(r, condition)) : resources, categories);
   },
 
-  saveResource: async (resource: ResourceItem) => {
-    // Determine if creating or updating
-    // Note: In this app logic, we might not know easily if ID exists without fetching, 
-    // but 'createdAt' usually hints. Or we can assume.
-    const payload = {
-        id: resource.id,
-        category_id: resource.categoryId,
-        data: resource.data,
-        created_by: resource.createdBy,
-        created_at: resource.createdAt
-    };
-    const { error } = await supabase.from('resources').upsert(payload);
-    if (error) throw new Error(error.message);
+  // Records outside the recycle bin among the given ids, with the same checks as getResources
+  getResourcesByIds: async (ids: string[]): Promise<ResourceItem[]> => {
+    if (ids.length === 0) return [];
+    const backend = getBackend();
+    const [categories, stored] = await Promise.all([backend.listCategories(), backend.listResourcesByIds(ids)]);
+    const viewable = viewableCategoryIds(categories);
+    const condition = membersOnlyCondition(categories);
+    const resources = stored.filter(r => !r.deletedAt && (!viewable || viewable.includes(r.categoryId)) && (!condition || matchesFilterGroup(r, condition)));
+    return redactResources(resources, categories);
+  },
+
+  // Records of the category whose field contains one of the values (case-insensitive), a few values per query.
+  // Candidates of uniqueness checks and of imported titles: callers compare the values exactly.
+  findResourcesByValues: async (categoryId: string, fieldKey: string, values: string[]): Promise<ResourceItem[]> => {
+    const wanted = Array.from(new Set(values.map(v => v.trim()).filter(v => v !== '')));
+    const chunks = Array.from({ length: Math.ceil(wanted.length / VALUES_PER_QUERY) }, (_, i) => wanted.slice(i * VALUES_PER_QUERY, (i + 1) * VALUES_PER_QUERY));
+    const pages = await Promise.all(chunks.map(part => dataService.queryResources({
+      categoryId,
+      where: { combinator: 'or', items: part.map((value): ResourceFilter => ({ field: fieldKey, op: 'contains', value })) }
+    })));
+    const found = new Map<string, ResourceItem>();
+    pages.forEach(page => page.items.forEach(r => found.set(r.id, r)));
+    return Array.from(found.values());
+  },
+
+  // One page of resources filtered and sorted by the backend, plus the total number of matches
+  queryResources: async (query: ResourceQuery): Promise<ResourcePage> => {
+    const categories = await getBackend().listCategories();
+    const viewable = viewableCategoryIds(categories);
+    if (viewable && query.categoryId && !viewable.includes(query.categoryId)) return { items: [], total: 0 };
+    const condition = membersOnlyCondition(categories);
+    const categoryIds = viewable ? (query.categoryIds ? query.categoryIds.filter(id => viewable.includes(id)) : viewable) : query.categoryIds;
+    const allowed = withReadableTitles(withoutHiddenKeys({ ...query, categoryIds }, categories), categories);
+    const page = await getBackend().queryResources({
+      ...allowed,
+      where: condition && allowed.where ? { combinator: 'and', items: [allowed.where, condition] } : condition || allowed.where
+    });
+    return { ...page, items: redactResources(page.items, categories) };
+  },
+
+  // Every save records a revision with the full data
+  saveResource: async (saved: ResourceItem, options: SaveResourceOptions) => {
+    await assertCategoryAccess([saved], canSave(options), 'Bạn không có quyền lưu bản ghi trong danh mục này');
+    if (!options.newIds?.includes(saved.id)) await assertStoredAccess([saved.id], PERMISSIONS.canEditResource, 'Bạn không có quyền sửa bản ghi này');
+    if (options.moved) await assertMoveSource([saved.id], 'Bạn không có quyền chuyển bản ghi này khỏi danh mục của nó');
+    const backend = getBackend();
+    const [checked] = await keepLockedFields([saved]);
+    const [resource] = stampUpdate([{ ...checked, version: options.expectedVersion ?? checked.version }], options.savedBy, options.newIds);
+    const revisions: ResourceRevision[] = [];
+    if (options.previous && (await backend.listResourceRevisions(resource.id)).length === 0) {
+        revisions.push(toRevision(options.previous, options.previous.updatedBy ?? options.previous.createdBy, 'Phiên bản ban đầu', options.previous.updatedAt ?? options.previous.createdAt));
+    }
+    try {
+        await backend.upsertResource(resource, options.expectedVersion);
+    } catch (e) {
+        // The stored record is shown in the merge dialog
+        if (e instanceof ResourceConflictError && e.current) e.current = redactResources([e.current], await backend.listCategories())[0];
+        throw e;
+    }
+    revisions.push(toRevision(resource, options.savedBy, options.note));
+    await backend.insertResourceRevisions(revisions);
 
     // LOGGING
     auditService.log('UPDATE', 'Resource', `Lưu bản ghi trong danh mục ${resource.categoryId}`);
   },
 
-  deleteResource: async (id: string) => {
-    const { error } = await supabase.from('resources').delete().eq('id', id);
-    if (error) throw new Error(error.message);
+  // Deletes move resources to the recycle bin (see trashService)
+  deleteResource: async (resource: ResourceItem, deletedBy: string) => {
+    await assertCategoryAccess([resource], PERMISSIONS.canDeleteResource, 'Bạn không có quyền xóa bản ghi này');
+    await assertStoredAccess([resource.id], PERMISSIONS.canDeleteResource, 'Bạn không có quyền xóa bản ghi này');
+    await getBackend().markResourcesDeleted([resource.id], { deletedAt: Date.now(), deletedBy });
     // LOGGING
-    auditService.log('DELETE', 'Resource', `Xóa bản ghi ID: ${id}`);
+    auditService.log('DELETE', 'Resource', `Chuyển bản ghi vào thùng rác ID: ${resource.id}`);
   },
   
+  // Import and bulk action batches, saved / deleted atomically. Logged as a whole by logImport / logBulkAction.
+  saveResources: async (resources: ResourceItem[], options: SaveResourceOptions) => {
+    if (resources.length === 0) return;
+    await assertCategoryAccess(resources, canSave(options), 'Bạn không có quyền lưu một số bản ghi trong danh mục này');
+    await assertStoredAccess(resources.map(r => r.id).filter(id => !options.newIds?.includes(id)), PERMISSIONS.canEditResource, 'Bạn không có quyền sửa một số bản ghi đã chọn');
+    if (options.moved) await assertMoveSource(resources.map(r => r.id), 'Bạn không có quyền chuyển một số bản ghi đã chọn khỏi danh mục của chúng');
+    const backend = getBackend();
+    const stamped = stampUpdate(await keepLockedFields(resources), options.savedBy, options.newIds);
+    await backend.upsertResources(stamped);
+    await backend.insertResourceRevisions(stamped.map(r => toRevision(r, options.savedBy, options.note)));
+  },
+
+  getResourceRevisions: async (resourceId: string): Promise<ResourceRevision[]> => {
+    const backend = getBackend();
+    const [revisions, categories] = await Promise.all([backend.listResourceRevisions(resourceId), backend.listCategories()]);
+    return redactResources(revisions, categories);
+  },
+
+  deleteResources: async (resources: ResourceItem[], deletedBy: string) => {
+    if (resources.length === 0) return;
+    await assertCategoryAccess(resources, PERMISSIONS.canDeleteResource, 'Bạn không có quyền xóa một số bản ghi đã chọn');
+    await assertStoredAccess(resources.map(r => r.id), PERMISSIONS.canDeleteResource, 'Bạn không có quyền xóa một số bản ghi đã chọn');
+    await getBackend().markResourcesDeleted(resources.map(r => r.id), { deletedAt: Date.now(), deletedBy });
+  },
+
+  logImport: async (category: Category, counts: ImportCounts) => {
+    // LOGGING
+    auditService.log('UPDATE', 'Resource', `Nhập dữ liệu vào danh mục ${category.name}: tạo mới ${counts.created}, cập nhật ${counts.updated}, không đổi ${counts.unchanged}, xóa ${counts.deleted}, bị từ chối ${counts.rejected}`);
+  },
+
+  // One entry per bulk action with the affected ids (for duplicates: the ids of the copies)
+  logBulkAction: async (action: BulkAction, ids: string[], details: string) => {
+    if (ids.length === 0) return;
+    const { action: auditAction, label } = BULK_AUDIT[action];
+    // LOGGING
+    auditService.log(auditAction, 'Resource', `${label} ${ids.length} bản ghi (${details}). ID: ${ids.join(', ')}`);
+  },
+
+  // Saved views the user may see: their own and those shared with their role
+  getSavedViews: async (user: User, categoryId?: string): Promise<SavedView[]> => {
+    const views = await getBackend().listSavedViews(categoryId);
+    return views.filter(v => PERMISSIONS.canViewSavedView(user, v));
+  },
+
+  // Only the owner (or a schema manager) writes a view, checked on the stored copy as well as the new one
+  saveSavedView: async (view: SavedView) => {
+    const stored = (await getBackend().listSavedViews()).find(v => v.id === view.id);
+    assertPermitted(user => PERMISSIONS.canEditSavedView(user, view) && (!stored || PERMISSIONS.canEditSavedView(user, stored)), VIEW_DENIED);
+    await getBackend().upsertSavedView(view);
+  },
+
+  deleteSavedView: async (id: string) => {
+    const stored = (await getBackend().listSavedViews()).find(v => v.id === id);
+    assertPermitted(user => !stored || PERMISSIONS.canEditSavedView(user, stored), VIEW_DENIED);
+    await getBackend().deleteSavedView(id);
+  },
+
   getSystemConfig: async (): Promise<SystemConfig> => {
-      const { data, error } = await supabase.from('system_config').select('config').limit(1).single();
-      if (error || !data) return DEFAULT_CONFIG;
-      return { ...DEFAULT_CONFIG, ...data.config };
+      try {
+          const config = await getBackend().getSystemConfig();
+          return config ? { ...DEFAULT_CONFIG, ...config } : DEFAULT_CONFIG;
+      } catch (e) {
+          return DEFAULT_CONFIG;
+      }
   },
 
   saveSystemConfig: async (config: SystemConfig) => {
-      const { error } = await supabase.from('system_config').upsert({ id: 1, config: config });
-      if (error) throw new Error(error.message);
+      await getBackend().saveSystemConfig(config);
       // LOGGING
       auditService.log('UPDATE', 'System', 'Cập nhật cấu hình hệ thống');
   }
 };
 
 export const projectService = {
+    // Projects outside the recycle bin
     getAll: async (): Promise<Project[]> => {
-        const { data, error } = await supabase.from('projects').select('*').order('code', { ascending: true });
-        if (error) throw new Error(error.message);
-        return data.map((p: any) => ({
-            id: p.id,
-            name: p.name,
-            code: p.code,
-            description: p.description,
-            status: p.status,
-            createdAt: p.created_at
-        }));
+        return (await getBackend().listProjects()).filter(p => !p.deletedAt);
     },
 
+    // Codes of projects in the recycle bin stay taken, so they can be restored
+
     checkCodeExists: async (code: string, excludeId?: string): Promise<boolean> => {
-        let query = supabase.from('projects').select('id').eq('code', code);
-        if (excludeId) query = query.neq('id', excludeId);
-        const { data, error } = await query;
-        if (error) return false;
-        return data && data.length > 0;
+        return getBackend().projectCodeExists(code, excludeId);
     },
 
     save: async (project: Partial<Project>) => {
-        const { error } = await supabase.from('projects').upsert({
-            id: project.id,
-            name: project.name,
-            code: project.code,
-            description: project.description,
-            status: project.status,
-        });
-        if (error) throw new Error(error.message);
+        await getBackend().upsertProject(project);
         
         // LOGGING
         auditService.log(project.id ? 'UPDATE' : 'CREATE', 'Project', `Lưu dự án: ${project.code}`);
     },
 
-    delete: async (id: string) => {
-        const { error } = await supabase.from('projects').delete().eq('id', id);
-        if (error) throw new Error(error.message);
+    delete: async (project: Project, deletedBy: string) => {
+        await getBackend().upsertProject({ ...project, deletedAt: Date.now(), deletedBy });
         // LOGGING
-        auditService.log('DELETE', 'Project', `Xóa dự án ID: ${id}`);
+        auditService.log('DELETE', 'Project', `Chuyển dự án vào thùng rác: ${project.code}`);
     }
-};
\ No newline at end of file
+};
+
+// --- RECYCLE BIN ---
+export interface TrashContents {
+    categories: Category[];
+    projects: Project[];
+    resources: ResourceItem[]; // including those deleted with their category
+    allCategories: Category[]; // to name the category of every resource
+}
+
+export interface PurgeCounts {
+    categories: number;
+    projects: number;
+    resources: number;
+}
+
+const withoutTrashMark = <T extends { deletedAt?: number; deletedBy?: string }>(item: T): T => {
+    const { deletedAt, deletedBy, ...rest } = item;
+    return rest as T;
+};
+
+const TRASH_DENIED = 'Bạn không có quyền quản lý thùng rác';
+
+// Everything in the recycle bin, as stored
+const listTrash = async (query: Omit<ResourceQuery, 'trashed'> = {}): Promise<TrashContents> => {
+    const backend = getBackend();
+    const [allCategories, projects, page] = await Promise.all([
+        backend.listCategories(),
+        backend.listProjects(),
+        backend.queryResources({ ...query, trashed: true })
+    ]);
+    return {
+        categories: allCategories.filter(c => c.deletedAt),
+        projects: projects.filter(p => p.deletedAt),
+        resources: page.items.sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0)),
+        allCategories
+    };
+};
+
+// Restoring and purging need the manageSettings permission; the contents are read like the live records
+export const trashService = {
+    getContents: async (): Promise<TrashContents> => {
+        const categories = await getBackend().listCategories();
+        const viewable = viewableCategoryIds(categories);
+        const contents = await listTrash({ categoryIds: viewable, where: membersOnlyCondition(categories) });
+        const visible = (c: Category) => !viewable || viewable.includes(c.id);
+        return {
+            ...contents,
+            categories: contents.categories.filter(visible),
+            resources: redactResources(contents.resources, contents.allCategories),
+            allCategories: contents.allCategories.filter(visible)
+        };
+    },
+
+    restoreResources: async (ids: string[]) => {
+        assertPermitted(PERMISSIONS.canManageSettings, TRASH_DENIED);
+        if (ids.length === 0) return;
+        await getBackend().markResourcesDeleted(ids, null);
+        // LOGGING
+        auditService.log('UPDATE', 'Resource', `Khôi phục ${ids.length} bản ghi từ thùng rác. ID: ${ids.join(', ')}`);
+    },
+
+    // Also restores the resources deleted with the category
+    restoreCategory: async (category: Category) => {
+        assertPermitted(PERMISSIONS.canManageSettings, TRASH_DENIED);
+        const backend = getBackend();
+        const deletedWith = (await backend.queryResources({ categoryId: category.id, trashed: true })).items.filter(r => r.deletedWith === category.id);
+        await backend.upsertCategory(withoutTrashMark(category));
+        if (deletedWith.length > 0) await backend.markResourcesDeleted(deletedWith.map(r => r.id), null);
+        // LOGGING
+        auditService.log('UPDATE', 'Schema', `Khôi phục danh mục từ thùng rác: ${category.name} (kèm ${deletedWith.length} bản ghi)`);
+    },
+
+    restoreProject: async (project: Project) => {
+        assertPermitted(PERMISSIONS.canManageSettings, TRASH_DENIED);
+        await getBackend().upsertProject(withoutTrashMark(project));
+        // LOGGING
+        auditService.log('UPDATE', 'Project', `Khôi phục dự án từ thùng rác: ${project.code}`);
+    },
+
+    purgeResources: async (ids: string[]) => {
+        assertPermitted(PERMISSIONS.canManageSettings, TRASH_DENIED);
+        if (ids.length === 0) return;
+        await getBackend().deleteResources(ids);
+        // LOGGING
+        auditService.log('DELETE', 'Resource', `Xóa vĩnh viễn ${ids.length} bản ghi. ID: ${ids.join(', ')}`);
+    },
+
+    // Every resource of the category goes with it
+    purgeCategory: async (category: Category) => {
+        assertPermitted(PERMISSIONS.canManageSettings, TRASH_DENIED);
+        const backend = getBackend();
+        const [live, trashed] = await Promise.all([
+            backend.listResources(category.id),
+            backend.queryResources({ categoryId: category.id, trashed: true })
+        ]);
+        const ids = [...live, ...trashed.items].map(r => r.id);
+        if (ids.length > 0) await backend.deleteResources(ids);
+        await backend.deleteCategory(category.id);
+        // LOGGING
+        auditService.log('DELETE', 'Schema', `Xóa vĩnh viễn danh mục: ${category.name} (kèm ${ids.length} bản ghi)`);
+    },
+
+    purgeProject: async (project: Project) => {
+        assertPermitted(PERMISSIONS.canManageSettings, TRASH_DENIED);
+        await getBackend().deleteProject(project.id);
+        // LOGGING
+        auditService.log('DELETE', 'Project', `Xóa vĩnh viễn dự án: ${project.code}`);
+    },
+
+    // Purges the items deleted more than `retentionDays` ago; 0 / undefined keeps everything
+    purgeExpired: async (retentionDays?: number): Promise<PurgeCounts> => {
+        assertPermitted(PERMISSIONS.canManageSettings, TRASH_DENIED);
+        const counts: PurgeCounts = { categories: 0, projects: 0, resources: 0 };
+        if (!retentionDays || retentionDays <= 0) return counts;
+        const backend = getBackend();
+        const cutoff = Date.now() - retentionDays * DAY_MS;
+        const contents = await listTrash();
+        const expired = <T extends { deletedAt?: number }>(items: T[]) => items.filter(i => (i.deletedAt || 0) < cutoff);
+
+        for (const category of expired(contents.categories)) {
+            const ids = (await backend.queryResources({ categoryId: category.id, trashed: true })).items.map(r => r.id);
+            if (ids.length > 0) await backend.deleteResources(ids);
+            await backend.deleteCategory(category.id);
+            counts.categories++;
+            counts.resources += ids.length;
+        }
+        for (const project of expired(contents.projects)) {
+            await backend.deleteProject(project.id);
+            counts.projects++;
+        }
+        const purgedCategoryIds = expired(contents.categories).map(c => c.id);
+        const resourceIds = expired(contents.resources).filter(r => !purgedCategoryIds.includes(r.categoryId)).map(r => r.id);
+        if (resourceIds.length > 0) await backend.deleteResources(resourceIds);
+        counts.resources += resourceIds.length;
+
+        if (counts.categories + counts.projects + counts.resources > 0) {
+            // LOGGING
+            auditService.log('DELETE', 'System', `Tự động xóa vĩnh viễn mục trong thùng rác quá ${retentionDays} ngày: ${counts.categories} danh mục, ${counts.projects} dự án, ${counts.resources} bản ghi`);
+        }
+        return counts;
+    }
+};
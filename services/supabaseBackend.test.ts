@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { serializeFilter, serializeFilterGroup } from './supabaseBackend';
+
+describe('serializeFilter', () => {
+    it('maps built-in columns and data fields', () => {
+        expect(serializeFilter({ field: 'categoryId', op: 'eq', value: 'c1' })).toBe('category_id.eq."c1"');
+        expect(serializeFilter({ field: 'status', op: 'neq', value: 'open' })).toBe('data->>status.neq."open"');
+        expect(serializeFilter({ field: 'qty', op: 'gte', value: 5, numeric: true })).toBe('data->qty.gte."5"');
+    });
+
+    it('quotes the reserved characters of values', () => {
+        expect(serializeFilter({ field: 'name', op: 'contains', value: 'a,b "c" (d)\\' })).toBe('data->>name.ilike."*a,b \\"c\\" (d)\\\\*"');
+        expect(serializeFilter({ field: 'name', op: 'startsWith', value: 'Máy' })).toBe('data->>name.ilike."Máy*"');
+    });
+
+    it('checks blank values as null, empty text or empty arrays', () => {
+        expect(serializeFilter({ field: 'tags', op: 'empty' })).toBe('or(data->>tags.is.null,data->>tags.eq."",data->>tags.eq."[]")');
+        expect(serializeFilter({ field: 'tags', op: 'notEmpty' })).toBe('and(data->>tags.not.is.null,data->>tags.neq."",data->>tags.neq."[]")');
+    });
+
+    it('matches `has` on arrays and single values', () => {
+        expect(serializeFilter({ field: 'createdBy', op: 'has', value: ['admin', 'bob'] })).toBe('created_by.in.("admin","bob")');
+        expect(serializeFilter({ field: 'project', op: 'has', value: ['p1'] })).toBe('or(data->project.cs."[\\"p1\\"]",data->>project.eq."p1")');
+    });
+});
+
+describe('serializeFilterGroup', () => {
+    it('nests groups and leaves out empty ones', () => {
+        expect(serializeFilterGroup({
+            combinator: 'or',
+            items: [
+                { field: 'categoryId', op: 'neq', value: 'c1' },
+                { combinator: 'and', items: [] },
+                { combinator: 'and', items: [{ field: 'qty', op: 'lt', value: 3, numeric: true }, { field: 'name', op: 'notEmpty' }] }
+            ]
+        })).toBe('or(category_id.neq."c1",and(data->qty.lt."3",and(data->>name.not.is.null,data->>name.neq."",data->>name.neq."[]")))');
+        expect(serializeFilterGroup({ combinator: 'and', items: [] })).toBe('');
+    });
+});
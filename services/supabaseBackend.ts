@@ -0,0 +1,638 @@
+import { User, Category, ResourceItem, ResourceRevision, Role, Project, AuditLog, SchemaVersion, ResourceFilter, ResourceFilterGroup, SavedView, RoleDefinition } from '../types';
+import type { StorageBackend, ChangeTable, ChangeListener, PresenceMember } from './backend';
+import { ResourceConflictError } from './conflicts';
+import { supabase } from './supabase';
+import { DEFAULT_SORT, runResourceQuery, withTitleLabels } from './resourceQuery';
+
+// --- Row mappers (snake_case DB columns -> app types) ---
+const toUser = (p: any): User => ({
+    id: p.id,
+    username: p.username,
+    email: p.email,
+    role: p.role as Role,
+    roles: p.roles && p.roles.length > 0 ? p.roles : undefined,
+    fullName: p.full_name,
+    avatarUrl: p.avatar_url
+});
+
+const toCategory = (c: any): Category => ({
+    id: c.id,
+    name: c.name,
+    description: c.description,
+    fields: c.fields,
+    createdAt: c.created_at,
+    accessLevel: c.access_level,
+    acl: c.acl || undefined,
+    membersOnly: c.members_only || undefined,
+    icon: c.icon,
+    schemaVersion: c.schema_version ?? undefined,
+    fieldKeyAliases: c.field_key_aliases || undefined,
+    deletedAt: c.deleted_at ?? undefined,
+    deletedBy: c.deleted_by || undefined
+});
+
+const toSchemaVersion = (v: any): SchemaVersion => ({
+    id: v.id,
+    categoryId: v.category_id,
+    version: v.version,
+    fields: v.fields,
+    createdAt: v.created_at,
+    createdBy: v.created_by,
+    note: v.note || undefined
+});
+
+const toResource = (r: any): ResourceItem => ({
+    id: r.id,
+    categoryId: r.category_id,
+    data: r.data,
+    createdBy: r.created_by,
+    createdAt: r.created_at,
+    updatedBy: r.updated_by || undefined,
+    updatedAt: r.updated_at ?? undefined,
+    version: r.version ?? undefined,
+    deletedAt: r.deleted_at ?? undefined,
+    deletedBy: r.deleted_by || undefined,
+    deletedWith: r.deleted_with || undefined
+});
+
+// Trash columns are left out: they are only written by markResourcesDeleted
+const toResourceRow = (resource: ResourceItem) => ({
+    id: resource.id,
+    category_id: resource.categoryId,
+    data: resource.data,
+    created_by: resource.createdBy,
+    created_at: resource.createdAt,
+    updated_by: resource.updatedBy ?? null,
+    updated_at: resource.updatedAt ?? null,
+    version: resource.version ?? 0
+});
+
+const toRevision = (r: any): ResourceRevision => ({
+    id: r.id,
+    resourceId: r.resource_id,
+    categoryId: r.category_id,
+    data: r.data,
+    createdAt: r.created_at,
+    createdBy: r.created_by,
+    note: r.note || undefined
+});
+
+const toRole = (r: any): RoleDefinition => ({
+    id: r.id,
+    name: r.name,
+    description: r.description || undefined,
+    permissions: r.permissions || [],
+    builtIn: r.built_in || undefined
+});
+
+const toSavedView = (v: any): SavedView => ({
+    id: v.id,
+    categoryId: v.category_id,
+    name: v.name,
+    ownerId: v.owner_id,
+    ownerName: v.owner_name,
+    sharedRole: v.shared_role || undefined,
+    state: v.state,
+    createdAt: v.created_at
+});
+
+// PostgREST caps every response (max-rows, 1000 by default): reads without a page are fetched range by range
+// until the exact count is reached. `select` builds the query again for every range.
+const FETCH_CHUNK = 1000;
+const fetchAllRows = async (select: () => any): Promise<{ rows: any[]; total: number }> => {
+    const rows: any[] = [];
+    let total = 0;
+    do {
+        const { data, count, error } = await select().range(rows.length, rows.length + FETCH_CHUNK - 1);
+        if (error) throw new Error(error.message);
+        if (!data || data.length === 0) break;
+        rows.push(...data);
+        total = count || 0;
+    } while (rows.length < total);
+    return { rows, total: Math.max(total, rows.length) };
+};
+
+// Ids are sent in the URL: long lists are split
+const ID_CHUNK = 200;
+const chunk = <T,>(items: T[], size: number): T[][] =>
+    Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+const fetchResourcesByIds = async (ids: string[]): Promise<ResourceItem[]> => {
+    const lists = await Promise.all(chunk(Array.from(new Set(ids)), ID_CHUNK).map(async part => {
+        const { data, error } = await supabase.from('resources').select('*').in('id', part);
+        if (error) throw new Error(error.message);
+        return data.map(toResource);
+    }));
+    return lists.flat();
+};
+
+// Maps a ResourceQuery field to a PostgREST column: built-in columns or a path into the `data` jsonb.
+// `->` keeps the jsonb value so numbers compare numerically, `->>` extracts text.
+const toQueryColumn = (field: string, numeric?: boolean): string => {
+    if (field === 'categoryId') return 'category_id';
+    if (field === 'createdBy') return 'created_by';
+    if (field === 'createdAt') return 'created_at';
+    if (field === 'updatedBy') return 'updated_by';
+    if (field === 'updatedAt') return 'updated_at';
+    return numeric ? `data->${field}` : `data->>${field}`;
+};
+
+// Quotes a value for PostgREST's logic tree syntax (commas, dots and parentheses are reserved)
+const quoteValue = (value: any): string => `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Serializes a filter to a PostgREST condition, e.g. `data->>status.eq."open"`
+export const serializeFilter = (filter: ResourceFilter): string => {
+    const column = toQueryColumn(filter.field, filter.numeric);
+    const text = toQueryColumn(filter.field);
+    switch (filter.op) {
+        case 'eq':
+        case 'neq':
+        case 'gt':
+        case 'gte':
+        case 'lt':
+        case 'lte':
+            return `${column}.${filter.op}.${quoteValue(filter.value)}`;
+        case 'contains': return `${text}.ilike.${quoteValue(`*${filter.value}*`)}`;
+        case 'startsWith': return `${text}.ilike.${quoteValue(`${filter.value}*`)}`;
+        case 'empty': return `or(${text}.is.null,${text}.eq."",${text}.eq."[]")`;
+        case 'notEmpty': return `and(${text}.not.is.null,${text}.neq."",${text}.neq."[]")`;
+        case 'has': {
+            const wanted = Array.isArray(filter.value) ? filter.value : [String(filter.value)];
+            if (text === 'category_id' || text === 'created_by' || text === 'updated_by') return `${text}.in.(${wanted.map(quoteValue).join(',')})`;
+            // Matches array fields containing a value as well as single-value fields equal to it
+            return `or(${wanted.flatMap(v => [
+                `data->${filter.field}.cs.${quoteValue(JSON.stringify([v]))}`,
+                `${text}.eq.${quoteValue(v)}`
+            ]).join(',')})`;
+        }
+        default: return `${text}.not.is.null`;
+    }
+};
+
+export const serializeFilterGroup = (group: ResourceFilterGroup): string => {
+    const items = group.items.map(item => 'combinator' in item ? serializeFilterGroup(item) : serializeFilter(item)).filter(item => item);
+    return items.length > 0 ? `${group.combinator}(${items.join(',')})` : '';
+};
+
+const toProject = (p: any): Project => ({
+    id: p.id,
+    name: p.name,
+    code: p.code,
+    description: p.description,
+    status: p.status,
+    members: p.members || undefined,
+    createdAt: p.created_at,
+    deletedAt: p.deleted_at ?? undefined,
+    deletedBy: p.deleted_by || undefined
+});
+
+const CHANGE_TABLES: ChangeTable[] = ['profiles', 'roles', 'categories', 'resources', 'projects', 'system_config', 'audit_logs'];
+
+const toRecord = (table: ChangeTable, row: any): Record<string, any> | null => {
+    if (!row || Object.keys(row).length === 0) return null;
+    switch (table) {
+        case 'profiles': return toUser(row);
+        case 'roles': return toRole(row);
+        case 'categories': return toCategory(row);
+        case 'resources': return toResource(row);
+        case 'projects': return toProject(row);
+        default: return row;
+    }
+};
+
+export const createSupabaseBackend = (): StorageBackend => {
+  // One shared channel for the whole app, opened on first listener and closed with the last one
+  const listeners = new Set<ChangeListener>();
+  let channel: ReturnType<typeof supabase.channel> | null = null;
+
+  const openChannel = () => {
+      let ch = supabase.channel('rv_changes');
+      CHANGE_TABLES.forEach(table => {
+          ch = ch.on('postgres_changes', { event: '*', schema: 'public', table }, (payload: any) => {
+              const change = {
+                  table,
+                  event: payload.eventType,
+                  new: toRecord(table, payload.new),
+                  old: toRecord(table, payload.old)
+              };
+              listeners.forEach(listener => listener(change));
+          });
+      });
+      return ch.subscribe();
+  };
+
+  return {
+    // --- Auth ---
+    signIn: async (email, password) => {
+        const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error) throw new Error(error.message);
+        if (!data.user) throw new Error('Không thể đăng nhập');
+        return { id: data.user.id, email: data.user.email! };
+    },
+
+    signUp: async (email, password) => {
+        const { data, error } = await supabase.auth.signUp({ email, password });
+        if (error) throw new Error(error.message);
+        if (!data.user) throw new Error('Không thể tạo người dùng');
+        return { id: data.user.id, email: data.user.email || email };
+    },
+
+    signOut: async () => {
+        await supabase.auth.signOut();
+    },
+
+    getSessionUser: async () => {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session?.user) return null;
+        return { id: session.user.id, email: session.user.email! };
+    },
+
+    updatePassword: async (newPassword) => {
+        const { error } = await supabase.auth.updateUser({ password: newPassword });
+        if (error) throw new Error(error.message);
+    },
+
+    // --- Profiles ---
+    getProfile: async (id) => {
+        const { data, error } = await supabase.from('profiles').select('*').eq('id', id).single();
+        if (error || !data) return null;
+        return toUser(data);
+    },
+
+    findProfileByUsername: async (username) => {
+        const { data, error } = await supabase.from('profiles').select('*').eq('username', username).single();
+        if (error || !data) return null;
+        return toUser(data);
+    },
+
+    listProfiles: async () => {
+        const { data, error } = await supabase.from('profiles').select('*');
+        if (error) throw new Error(error.message);
+        return data.map(toUser);
+    },
+
+    insertProfile: async (profile) => {
+        const { error } = await supabase.from('profiles').insert([{
+            id: profile.id,
+            username: profile.username,
+            email: profile.email,
+            role: profile.role,
+            roles: profile.roles || [profile.role],
+            full_name: profile.fullName || ''
+        }]);
+        if (error) throw new Error(error.message);
+    },
+
+    updateProfile: async (id, updates) => {
+        const row: any = {};
+        if (updates.role !== undefined) row.role = updates.role;
+        if (updates.roles !== undefined) row.roles = updates.roles;
+        if (updates.fullName !== undefined) row.full_name = updates.fullName;
+        if (updates.avatarUrl !== undefined) row.avatar_url = updates.avatarUrl;
+        const { error } = await supabase.from('profiles').update(row).eq('id', id);
+        if (error) throw new Error(error.message);
+    },
+
+    deleteProfile: async (id) => {
+        const { error } = await supabase.from('profiles').delete().eq('id', id);
+        if (error) throw new Error(error.message);
+    },
+
+    // --- Roles ---
+    listRoles: async () => {
+        const { data, error } = await supabase.from('roles').select('*').order('name', { ascending: true });
+        if (error) throw new Error(error.message);
+        return data.map(toRole);
+    },
+
+    upsertRole: async (role) => {
+        const { error } = await supabase.from('roles').upsert({
+            id: role.id,
+            name: role.name,
+            description: role.description || null,
+            permissions: role.permissions,
+            built_in: !!role.builtIn
+        });
+        if (error) throw new Error(error.message);
+    },
+
+    deleteRole: async (id) => {
+        const { error } = await supabase.from('roles').delete().eq('id', id);
+        if (error) throw new Error(error.message);
+    },
+
+    // --- Files ---
+    uploadFile: async (bucket, path, file) => {
+        const { error } = await supabase.storage.from(bucket).upload(path, file);
+        if (error) throw new Error(error.message);
+        const { data } = supabase.storage.from(bucket).getPublicUrl(path);
+        return data.publicUrl;
+    },
+
+    // --- Categories ---
+    listCategories: async () => {
+        const { data, error } = await supabase.from('categories').select('*').order('created_at', { ascending: true });
+        if (error) return [];
+        return data.map(toCategory);
+    },
+
+    upsertCategory: async (category) => {
+        const { error } = await supabase.from('categories').upsert({
+            id: category.id,
+            name: category.name,
+            description: category.description,
+            fields: category.fields,
+            access_level: category.accessLevel,
+            acl: category.acl || null,
+            members_only: !!category.membersOnly,
+            icon: category.icon,
+            schema_version: category.schemaVersion,
+            field_key_aliases: category.fieldKeyAliases || null,
+            created_at: category.createdAt,
+            deleted_at: category.deletedAt ?? null,
+            deleted_by: category.deletedBy || null
+        });
+        if (error) throw new Error(error.message);
+    },
+
+    deleteCategory: async (id) => {
+        const { error } = await supabase.from('categories').delete().eq('id', id);
+        if (error) throw new Error(error.message);
+    },
+
+    // --- Schema versions ---
+    listSchemaVersions: async (categoryId) => {
+        const { data, error } = await supabase
+            .from('schema_versions')
+            .select('*')
+            .eq('category_id', categoryId)
+            .order('version', { ascending: false });
+        if (error) throw new Error(error.message);
+        return data.map(toSchemaVersion);
+    },
+
+    insertSchemaVersion: async (version) => {
+        const { error } = await supabase.from('schema_versions').insert({
+            id: version.id,
+            category_id: version.categoryId,
+            version: version.version,
+            fields: version.fields,
+            created_at: version.createdAt,
+            created_by: version.createdBy,
+            note: version.note || null
+        });
+        if (error) throw new Error(error.message);
+    },
+
+    // --- Resources ---
+    listResources: async (categoryId) => {
+        try {
+            const { rows } = await fetchAllRows(() => {
+                let query = supabase.from('resources').select('*', { count: 'exact' }).is('deleted_at', null);
+                if (categoryId) query = query.eq('category_id', categoryId);
+                return query.order('created_at', { ascending: false }).order('id');
+            });
+            return rows.map(toResource);
+        } catch (e) {
+            return [];
+        }
+    },
+
+    listResourcesByIds: fetchResourcesByIds,
+
+    queryResources: async ({ categoryId, categoryIds, filters = [], where, sort = [], page = 1, pageSize, trashed }) => {
+        const condition = serializeFilterGroup({ combinator: 'and', items: where ? [...filters, where] : filters });
+        const select = (columns = '*') => {
+            let query: any = supabase.from('resources').select(columns, { count: 'exact', head: pageSize === 0 });
+            query = trashed ? query.not('deleted_at', 'is', null) : query.is('deleted_at', null);
+            if (categoryId) query = query.eq('category_id', categoryId);
+            if (categoryIds) query = query.in('category_id', categoryIds);
+            if (condition) query = query.or(condition);
+            (sort.length > 0 ? sort : DEFAULT_SORT).forEach(s => {
+                query = query.order(toQueryColumn(s.field, s.numeric), { ascending: s.direction === 'asc', nullsFirst: false });
+            });
+            // Ties keep the same order from one range to the next
+            return query.order('id');
+        };
+        // Display names have no SQL equivalent: the ids and sorted values of the matches are sorted here,
+        // then the records of the page are read
+        if (pageSize !== 0 && sort.some(s => s.labels || s.titleKey)) {
+            const { rows, total } = await fetchAllRows(() => select(['id', ...sort.map((s, i) => `s${i}:${toQueryColumn(s.field, true)}`)].join(',')));
+            const referenced = (i: number) => Array.from(new Set(rows.flatMap(row => Array.isArray(row[`s${i}`]) ? row[`s${i}`] : [row[`s${i}`]]).filter(id => typeof id === 'string')));
+            const titles: Record<string, Record<string, string>> = {};
+            for (const [i, s] of sort.entries()) {
+                if (!s.titleKey) continue;
+                const found: Record<string, string> = {};
+                for (const part of chunk(referenced(i), ID_CHUNK)) {
+                    const { data, error } = await supabase.from('resources').select(`id,title:data->>${s.titleKey}`).in('id', part);
+                    if (error) throw new Error(error.message);
+                    (data || []).forEach((r: any) => { if (r.title) found[r.id] = r.title; });
+                }
+                titles[s.titleKey] = { ...titles[s.titleKey], ...found };
+            }
+            const keyed = withTitleLabels(sort, titleKey => titles[titleKey]).map((s, i) => ({ ...s, field: `s${i}` }));
+            const ordered = runResourceQuery(rows.map(row => ({ id: row.id, categoryId: '', data: row, createdBy: '', createdAt: 0 })), { sort: keyed, page, pageSize });
+            const position = new Map(ordered.items.map((r, i) => [r.id, i]));
+            const items = (await fetchResourcesByIds(ordered.items.map(r => r.id))).sort((a, b) => position.get(a.id)! - position.get(b.id)!);
+            return { items, total };
+        }
+        if (pageSize === undefined) {
+            const { rows, total } = await fetchAllRows(select);
+            return { items: rows.map(toResource), total };
+        }
+        let query = select();
+        if (pageSize) {
+            const start = (Math.max(page, 1) - 1) * pageSize;
+            query = query.range(start, start + pageSize - 1);
+        }
+        const { data, count, error } = await query;
+        if (error) throw new Error(error.message);
+        return { items: (data || []).map(toResource), total: count || 0 };
+    },
+
+    upsertResource: async (resource, expectedVersion) => {
+        if (expectedVersion === undefined) {
+            const { error } = await supabase.from('resources').upsert(toResourceRow(resource));
+            if (error) throw new Error(error.message);
+            return;
+        }
+        // Conditional update: no row matches once another save bumped the version
+        let query: any = supabase.from('resources').update(toResourceRow(resource)).eq('id', resource.id);
+        query = expectedVersion > 0 ? query.eq('version', expectedVersion) : query.or('version.is.null,version.eq.0');
+        const { data, error } = await query.select('id');
+        if (error) throw new Error(error.message);
+        if (data && data.length > 0) return;
+        const { data: stored, error: readError } = await supabase.from('resources').select('*').eq('id', resource.id).maybeSingle();
+        if (readError) throw new Error(readError.message);
+        throw new ResourceConflictError(stored ? toResource(stored) : null);
+    },
+
+    deleteResource: async (id) => {
+        const { error } = await supabase.from('resources').delete().eq('id', id);
+        if (error) throw new Error(error.message);
+    },
+
+    // Single statements, so a failing batch is rolled back as a whole
+    upsertResources: async (resources) => {
+        const { error } = await supabase.from('resources').upsert(resources.map(toResourceRow));
+        if (error) throw new Error(error.message);
+    },
+
+    deleteResources: async (ids) => {
+        const { error } = await supabase.from('resources').delete().in('id', ids);
+        if (error) throw new Error(error.message);
+    },
+
+    markResourcesDeleted: async (ids, mark) => {
+        const { error } = await supabase.from('resources').update({
+            deleted_at: mark?.deletedAt ?? null,
+            deleted_by: mark?.deletedBy || null,
+            deleted_with: mark?.deletedWith || null
+        }).in('id', ids);
+        if (error) throw new Error(error.message);
+    },
+
+    // --- Resource revisions ---
+    listResourceRevisions: async (resourceId) => {
+        const { data, error } = await supabase
+            .from('resource_revisions')
+            .select('*')
+            .eq('resource_id', resourceId)
+            .order('created_at', { ascending: false });
+        if (error) throw new Error(error.message);
+        return data.map(toRevision);
+    },
+
+    insertResourceRevisions: async (revisions) => {
+        const { error } = await supabase.from('resource_revisions').insert(revisions.map(revision => ({
+            id: revision.id,
+            resource_id: revision.resourceId,
+            category_id: revision.categoryId,
+            data: revision.data,
+            created_at: revision.createdAt,
+            created_by: revision.createdBy,
+            note: revision.note || null
+        })));
+        if (error) throw new Error(error.message);
+    },
+
+    // --- Saved views ---
+    listSavedViews: async (categoryId) => {
+        let query = supabase.from('saved_views').select('*');
+        if (categoryId) query = query.eq('category_id', categoryId);
+        const { data, error } = await query.order('name', { ascending: true });
+        if (error) throw new Error(error.message);
+        return data.map(toSavedView);
+    },
+
+    upsertSavedView: async (view) => {
+        const { error } = await supabase.from('saved_views').upsert({
+            id: view.id,
+            category_id: view.categoryId,
+            name: view.name,
+            owner_id: view.ownerId,
+            owner_name: view.ownerName,
+            shared_role: view.sharedRole || null,
+            state: view.state,
+            created_at: view.createdAt
+        });
+        if (error) throw new Error(error.message);
+    },
+
+    deleteSavedView: async (id) => {
+        const { error } = await supabase.from('saved_views').delete().eq('id', id);
+        if (error) throw new Error(error.message);
+    },
+
+    // --- Projects ---
+    listProjects: async () => {
+        const { data, error } = await supabase.from('projects').select('*').order('code', { ascending: true });
+        if (error) throw new Error(error.message);
+        return data.map(toProject);
+    },
+
+    projectCodeExists: async (code, excludeId) => {
+        let query = supabase.from('projects').select('id').eq('code', code);
+        if (excludeId) query = query.neq('id', excludeId);
+        const { data, error } = await query;
+        if (error) return false;
+        return data && data.length > 0;
+    },
+
+    upsertProject: async (project) => {
+        const { error } = await supabase.from('projects').upsert({
+            id: project.id,
+            name: project.name,
+            code: project.code,
+            description: project.description,
+            status: project.status,
+            members: project.members || [],
+            deleted_at: project.deletedAt ?? null,
+            deleted_by: project.deletedBy || null
+        });
+        if (error) throw new Error(error.message);
+    },
+
+    deleteProject: async (id) => {
+        const { error } = await supabase.from('projects').delete().eq('id', id);
+        if (error) throw new Error(error.message);
+    },
+
+    // --- System Config ---
+    getSystemConfig: async () => {
+        const { data, error } = await supabase.from('system_config').select('config').limit(1).single();
+        if (error || !data) return null;
+        return data.config;
+    },
+
+    saveSystemConfig: async (config) => {
+        const { error } = await supabase.from('system_config').upsert({ id: 1, config: config });
+        if (error) throw new Error(error.message);
+    },
+
+    // --- Audit ---
+    insertAuditLog: async (entry) => {
+        const { error } = await supabase.from('audit_logs').insert(entry);
+        if (error) throw new Error(error.message);
+    },
+
+    listAuditLogs: async (limit) => {
+        const { data, error } = await supabase
+            .from('audit_logs')
+            .select('*')
+            .order('created_at', { ascending: false })
+            .limit(limit);
+        if (error) throw new Error(error.message);
+        return data as AuditLog[];
+    },
+
+    // --- Change feed ---
+    subscribeChanges: (listener) => {
+        listeners.add(listener);
+        if (!channel) channel = openChannel();
+        return () => {
+            listeners.delete(listener);
+            if (listeners.size === 0 && channel) {
+                supabase.removeChannel(channel);
+                channel = null;
+            }
+        };
+    },
+
+    // One Supabase presence channel per topic, keyed by tab
+    joinPresence: (topic, member, onSync) => {
+        const presenceChannel = supabase.channel(`presence:${topic}`, { config: { presence: { key: member.key } } });
+        presenceChannel.on('presence', { event: 'sync' }, () => {
+            const state = presenceChannel.presenceState<PresenceMember>();
+            onSync(Object.keys(state).map(key => state[key][0]).filter(m => !!m).map(m => ({ key: m.key, userId: m.userId, name: m.name, since: m.since })));
+        });
+        presenceChannel.subscribe(status => {
+            if (status === 'SUBSCRIBED') presenceChannel.track(member);
+        });
+        return () => {
+            presenceChannel.untrack();
+            supabase.removeChannel(presenceChannel);
+        };
+    }
+  };
+};
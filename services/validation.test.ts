@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Category, FieldDefinition, ResourceItem } from '../types';
+import { checkValidationRules, coerceNumberFields, validateFieldValue, validateResourceData } from './validation';
+
+const field = (key: string, type: FieldDefinition['type'], extra: Partial<FieldDefinition> = {}): FieldDefinition =>
+    ({ id: key, key, name: key, type, required: false, ...extra });
+
+const category = (fields: FieldDefinition[]): Category =>
+    ({ id: 'c1', name: 'Test', description: '', createdAt: 0, accessLevel: 'public', fields });
+
+describe('validateFieldValue', () => {
+    it('requires a value in required fields only', () => {
+        const name = field('name', 'text', { required: true });
+        expect(validateFieldValue(name, '')).toBe('Vui lòng nhập name');
+        expect(validateFieldValue(name, [])).toBe('Vui lòng nhập name');
+        expect(validateFieldValue({ ...name, required: false }, '')).toBeNull();
+    });
+
+    it('checks the bounds of numbers', () => {
+        const qty = field('qty', 'number', { validation: { min: 1, max: 10 } });
+        expect(validateFieldValue(qty, 'abc')).toBe('qty phải là số');
+        expect(validateFieldValue(qty, 0)).toContain('lớn hơn hoặc bằng 1');
+        expect(validateFieldValue(qty, '11')).toContain('nhỏ hơn hoặc bằng 10');
+        expect(validateFieldValue(qty, '10')).toBeNull();
+    });
+
+    it('checks the length and pattern of text', () => {
+        const code = field('code', 'text', { validation: { minLength: 2, maxLength: 4, pattern: '^[A-Z]+$' } });
+        expect(validateFieldValue(code, 'A')).toContain('ít nhất 2 ký tự');
+        expect(validateFieldValue(code, 'ABCDE')).toContain('vượt quá 4 ký tự');
+        expect(validateFieldValue(code, 'ab')).toBe('code không đúng định dạng');
+        expect(validateFieldValue({ ...code, validation: { pattern: '^[A-Z]+$', patternMessage: 'Chỉ chữ in hoa' } }, 'ab')).toBe('Chỉ chữ in hoa');
+        expect(validateFieldValue({ ...code, validation: { pattern: '(' } }, 'ab')).toBeNull();
+        expect(validateFieldValue(code, 'ABC')).toBeNull();
+    });
+
+    it('checks the date range', () => {
+        const day = field('day', 'date', { validation: { minDate: '2024-01-01', maxDate: '2024-12-31' } });
+        expect(validateFieldValue(day, 'not a date')).toContain('không phải ngày hợp lệ');
+        expect(validateFieldValue(day, '2023-12-31')).toContain('không được trước ngày');
+        expect(validateFieldValue(day, '2025-01-01')).toContain('không được sau ngày');
+        expect(validateFieldValue(day, '2024-06-15')).toBeNull();
+    });
+});
+
+describe('validateResourceData', () => {
+    const code = field('code', 'text', { validation: { unique: true } });
+    const total = field('total', 'formula', { formula: '1', required: true });
+    const existing: ResourceItem[] = [
+        { id: 'r1', categoryId: 'c1', data: { code: 'AB-1' }, createdBy: 'admin', createdAt: 1 },
+        { id: 'r2', categoryId: 'c2', data: { code: 'XY' }, createdBy: 'admin', createdAt: 2 }
+    ];
+
+    it('rejects values already used in the category, ignoring case and spaces', () => {
+        expect(validateResourceData(category([code]), { code: ' ab-1 ' }, existing)).toEqual({ code: 'code " ab-1 " đã tồn tại trong danh mục' });
+        expect(validateResourceData(category([code]), { code: 'XY' }, existing)).toEqual({});
+    });
+
+    it('lets a record keep its own value and skips formulas', () => {
+        expect(validateResourceData(category([code, total]), { code: 'AB-1' }, existing, 'r1')).toEqual({});
+    });
+});
+
+describe('checkValidationRules / coerceNumberFields', () => {
+    it('reports inconsistent rules', () => {
+        expect(checkValidationRules(field('qty', 'number', { validation: { min: 5, max: 1 } }))).toContain('tối thiểu lớn hơn tối đa');
+        expect(checkValidationRules(field('code', 'text', { validation: { pattern: '[' } }))).toContain('không hợp lệ');
+        expect(checkValidationRules(field('code', 'text', { validation: { minLength: 1, maxLength: 3 } }))).toBeNull();
+    });
+
+    it('stores numeric text of number fields as numbers', () => {
+        const fields = category([field('qty', 'number'), field('code', 'text')]);
+        expect(coerceNumberFields(fields, { qty: ' 12 ', code: '7' })).toEqual({ qty: 12, code: '7' });
+        expect(coerceNumberFields(fields, { qty: 'abc' })).toEqual({ qty: 'abc' });
+    });
+});
@@ -0,0 +1,142 @@
+import { Category, FieldDefinition, ResourceItem } from '../types';
+
+// Field-level validation shared by DataManager's form and the CSV importer.
+// Returns a map of field key -> error message (empty map = valid).
+export type ValidationErrors = Record<string, string>;
+
+export const isEmptyValue = (value: any) =>
+    value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Stored values compared loosely: blanks are equal, 5 equals '5'
+export const sameValue = (a: any, b: any) =>
+    (isEmptyValue(a) && isEmptyValue(b)) || JSON.stringify(a) === JSON.stringify(b) || (!Array.isArray(a) && !Array.isArray(b) && String(a) === String(b));
+
+// Number fields are stored as JSON numbers so backends can filter and sort them numerically.
+// Values that are not numbers are left untouched for validateFieldValue to report.
+export const coerceNumberFields = (category: Category, data: Record<string, any>): Record<string, any> => {
+    const result = { ...data };
+    category.fields.forEach(field => {
+        const value = result[field.key];
+        if (field.type === 'number' && typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+            result[field.key] = Number(value);
+        }
+    });
+    return result;
+};
+
+const normalizeForUnique = (value: any) => String(value).trim().toLowerCase();
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('vi-VN');
+
+// Checks the rules of a single field against a value (uniqueness is handled by validateResourceData)
+export const validateFieldValue = (field: FieldDefinition, value: any): string | null => {
+    if (isEmptyValue(value)) {
+        return field.required ? `Vui lòng nhập ${field.name}` : null;
+    }
+
+    const rules = field.validation;
+
+    switch (field.type) {
+        case 'number': {
+            const num = Number(value);
+            if (isNaN(num)) return `${field.name} phải là số`;
+            if (rules?.min !== undefined && num < rules.min) return `${field.name} phải lớn hơn hoặc bằng ${rules.min}`;
+            if (rules?.max !== undefined && num > rules.max) return `${field.name} phải nhỏ hơn hoặc bằng ${rules.max}`;
+            break;
+        }
+        case 'text':
+        case 'textarea': {
+            const text = String(value);
+            if (rules?.minLength !== undefined && text.length < rules.minLength) return `${field.name} phải có ít nhất ${rules.minLength} ký tự`;
+            if (rules?.maxLength !== undefined && text.length > rules.maxLength) return `${field.name} không được vượt quá ${rules.maxLength} ký tự`;
+            if (rules?.pattern) {
+                let regex: RegExp | null = null;
+                try { regex = new RegExp(rules.pattern); } catch (e) { regex = null; } // Invalid patterns are ignored
+                if (regex && !regex.test(text)) return rules.patternMessage || `${field.name} không đúng định dạng`;
+            }
+            break;
+        }
+        case 'date': {
+            const date = String(value);
+            if (isNaN(new Date(date).getTime())) return `${field.name} không phải ngày hợp lệ`;
+            if (rules?.minDate && date < rules.minDate) return `${field.name} không được trước ngày ${formatDate(rules.minDate)}`;
+            if (rules?.maxDate && date > rules.maxDate) return `${field.name} không được sau ngày ${formatDate(rules.maxDate)}`;
+            break;
+        }
+        case 'select':
+        case 'multiselect': {
+            const allowed = (field.options || []).map(o => o.value);
+            const selected = Array.isArray(value) ? value : [value];
+            if (field.type === 'select' && selected.length > 1) return `${field.name} chỉ được chọn một giá trị`;
+            const invalid = selected.find(v => !allowed.includes(v));
+            if (invalid !== undefined) return `${field.name}: "${invalid}" không nằm trong danh sách lựa chọn`;
+            break;
+        }
+        case 'reference': {
+            if (!field.reference?.multiple && Array.isArray(value) && value.length > 1) return `${field.name} chỉ được liên kết một bản ghi`;
+            break;
+        }
+    }
+    return null;
+};
+
+// Validates a whole record. `existing` are the other resources of the category, used for uniqueness checks.
+export const validateResourceData = (
+    category: Category,
+    data: Record<string, any>,
+    existing: ResourceItem[] = [],
+    resourceId?: string
+): ValidationErrors => {
+    const errors: ValidationErrors = {};
+    for (const field of category.fields) {
+        if (field.type === 'formula') continue; // computed, never entered by users
+        const value = data[field.key];
+        const error = validateFieldValue(field, value);
+        if (error) {
+            errors[field.key] = error;
+            continue;
+        }
+        if (field.validation?.unique && !isEmptyValue(value)) {
+            const normalized = normalizeForUnique(value);
+            const duplicate = existing.some(r =>
+                r.id !== resourceId &&
+                r.categoryId === category.id &&
+                !isEmptyValue(r.data?.[field.key]) &&
+                normalizeForUnique(r.data[field.key]) === normalized
+            );
+            if (duplicate) errors[field.key] = `${field.name} "${value}" đã tồn tại trong danh mục`;
+        }
+    }
+    return errors;
+};
+
+// Returns an error message when the rules themselves are inconsistent (used by SchemaBuilder before saving)
+export const checkValidationRules = (field: FieldDefinition): string | null => {
+    const rules = field.validation;
+    if (!rules) return null;
+    if (rules.min !== undefined && rules.max !== undefined && rules.min > rules.max) return `Trường "${field.name}": giá trị tối thiểu lớn hơn tối đa`;
+    if (rules.minLength !== undefined && rules.maxLength !== undefined && rules.minLength > rules.maxLength) return `Trường "${field.name}": độ dài tối thiểu lớn hơn tối đa`;
+    if (rules.minDate && rules.maxDate && rules.minDate > rules.maxDate) return `Trường "${field.name}": ngày bắt đầu sau ngày kết thúc`;
+    if (rules.pattern) {
+        try { new RegExp(rules.pattern); } catch (e) { return `Trường "${field.name}": biểu thức chính quy không hợp lệ`; }
+    }
+    return null;
+};
+
+// Select / multiselect fields need at least one option and distinct, non-empty labels
+export const checkFieldOptions = (field: FieldDefinition): string | null => {
+    if (field.type !== 'select' && field.type !== 'multiselect') return null;
+    const options = field.options || [];
+    if (options.length === 0) return `Trường "${field.name}": cần ít nhất một lựa chọn`;
+    if (options.some(o => !o.label.trim())) return `Trường "${field.name}": nhãn lựa chọn không được để trống`;
+    const labels = options.map(o => o.label.trim().toLowerCase());
+    if (new Set(labels).size !== labels.length) return `Trường "${field.name}": có nhãn lựa chọn bị trùng`;
+    return null;
+};
+
+// Reference fields must point at a category
+export const checkFieldReference = (field: FieldDefinition): string | null => {
+    if (field.type !== 'reference') return null;
+    if (!field.reference?.categoryId) return `Trường "${field.name}": chưa chọn danh mục liên kết`;
+    return null;
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { readXlsx, writeXlsx } from './xlsx';
+import { createZip, readZip } from './zip';
+
+describe('createZip / readZip', () => {
+    it('reads back the entries it wrote', async () => {
+        const encoder = new TextEncoder();
+        const zip = await createZip([
+            { name: 'a.txt', data: encoder.encode('xin chào '.repeat(100)) },
+            { name: 'thư mục/b.xml', data: encoder.encode('<b/>') },
+            { name: 'empty', data: new Uint8Array() }
+        ]);
+        const entries = await readZip(zip.slice().buffer);
+        const decoder = new TextDecoder();
+        expect(Object.keys(entries)).toEqual(['a.txt', 'thư mục/b.xml', 'empty']);
+        expect(decoder.decode(entries['a.txt'])).toBe('xin chào '.repeat(100));
+        expect(decoder.decode(entries['thư mục/b.xml'])).toBe('<b/>');
+        expect(entries.empty.length).toBe(0);
+    });
+
+    it('rejects data that is not an archive', async () => {
+        await expect(readZip(new TextEncoder().encode('not a zip file at all').buffer)).rejects.toThrow('không đúng định dạng');
+    });
+});
+
+describe('writeXlsx / readXlsx', () => {
+    it('reads back every sheet with its cells as text, trailing blanks dropped', async () => {
+        const blob = await writeXlsx([
+            { name: 'Thiết bị', rows: [['Tên', 'Số lượng', 'Còn hàng', 'Ngày nhập', 'Ghi chú'], ['Máy in <A4> & "B5"', 3, true, new Date(2024, 2, 5), null], ['', 1.5, false, new Date(2024, 2, 5, 8, 30), 'dòng 1\ndòng 2']] },
+            { name: 'a/b:c', rows: [['x'], [], ['y']] }
+        ]);
+        const tables = await readXlsx(await blob.arrayBuffer());
+        expect(tables).toEqual([
+            { name: 'Thiết bị', rows: [['Tên', 'Số lượng', 'Còn hàng', 'Ngày nhập', 'Ghi chú'], ['Máy in <A4> & "B5"', '3', 'true', '2024-03-05'], ['', '1.5', 'false', '2024-03-05 08:30', 'dòng 1\ndòng 2']] },
+            { name: 'a b c', rows: [['x'], ['y']] }
+        ]);
+    });
+
+    it('rejects archives without a workbook', async () => {
+        const zip = await createZip([{ name: 'a.txt', data: new Uint8Array([1]) }]);
+        await expect(readXlsx(zip.slice().buffer)).rejects.toThrow('không phải bảng tính Excel');
+    });
+});
@@ -0,0 +1,233 @@
+import { createZip, readZip, ZipEntry } from './zip';
+
+// Excel workbooks (.xlsx, Office Open XML) without a third-party library. Writing covers typed cells
+// (text, numbers, booleans, dates); reading returns every cell as text, dates as YYYY-MM-DD.
+
+export type XlsxCell = string | number | boolean | Date | null | undefined;
+
+export interface XlsxSheet {
+    name: string;
+    rows: XlsxCell[][]; // first row is written as a bold, frozen header
+}
+
+export interface XlsxTable {
+    name: string;
+    rows: string[][];
+}
+
+export const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const NS_MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const NS_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_PKG_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Style indexes of STYLES_XML
+const STYLE_DATE = 1;
+const STYLE_DATETIME = 2;
+const STYLE_HEADER = 3;
+
+const STYLES_XML = `${XML_HEADER}<styleSheet xmlns="${NS_MAIN}">`
+    + '<numFmts count="2"><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/><numFmt numFmtId="165" formatCode="dd/mm/yyyy hh:mm"/></numFmts>'
+    + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+    + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + '<cellXfs count="4">'
+    + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+    + '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+    + '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+    + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+    + '</cellXfs>'
+    + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+    + '</styleSheet>';
+
+const escapeXml = (text: string) => text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '') // not allowed in XML
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+        case 'lt': return '<';
+        case 'gt': return '>';
+        case 'amp': return '&';
+        case 'quot': return '"';
+        case 'apos': return "'";
+        default: return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+});
+
+const columnName = (index: number): string => {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    return name;
+};
+
+const columnIndex = (ref: string): number => {
+    const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+    return letters.split('').reduce((total, c) => total * 26 + c.charCodeAt(0) - 64, 0) - 1;
+};
+
+// Excel serial dates count days since 1899-12-30 and carry no time zone: local wall time is written as is
+const EXCEL_EPOCH_OFFSET = 25569; // days from 1899-12-30 to 1970-01-01
+const DAY_MS = 86400000;
+
+const toSerialDate = (date: Date) =>
+    Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds()) / DAY_MS + EXCEL_EPOCH_OFFSET;
+
+const fromSerialDate = (serial: number): string => {
+    const date = new Date(Math.round((serial - EXCEL_EPOCH_OFFSET) * DAY_MS));
+    const day = `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-${String(date.getUTCDate()).padStart(2, '0')}`;
+    if (serial % 1 === 0) return day;
+    return `${day} ${String(date.getUTCHours()).padStart(2, '0')}:${String(date.getUTCMinutes()).padStart(2, '0')}`;
+};
+
+// Sheet names: at most 31 characters, none of : \ / ? * [ ], unique within the workbook
+const toSheetNames = (names: string[]): string[] => {
+    const used: string[] = [];
+    return names.map(name => {
+        const base = (name.replace(/[:\\/?*[\]]/g, ' ').replace(/\s+/g, ' ').trim() || 'Sheet').slice(0, 31);
+        let candidate = base;
+        for (let n = 2; used.includes(candidate.toLowerCase()); n++) candidate = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+        used.push(candidate.toLowerCase());
+        return candidate;
+    });
+};
+
+const cellXml = (value: XlsxCell, ref: string, header: boolean): string => {
+    if (value === null || value === undefined || value === '') return '';
+    if (typeof value === 'number') return Number.isFinite(value) ? `<c r="${ref}"><v>${value}</v></c>` : '';
+    if (typeof value === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+    if (value instanceof Date) {
+        if (isNaN(value.getTime())) return '';
+        const midnight = value.getHours() === 0 && value.getMinutes() === 0 && value.getSeconds() === 0;
+        return `<c r="${ref}" s="${midnight ? STYLE_DATE : STYLE_DATETIME}"><v>${toSerialDate(value)}</v></c>`;
+    }
+    return `<c r="${ref}" t="inlineStr"${header ? ` s="${STYLE_HEADER}"` : ''}><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+const displayLength = (value: XlsxCell) =>
+    value instanceof Date ? 16 : String(value ?? '').split('\n').reduce((max, line) => Math.max(max, line.length), 0);
+
+const sheetXml = (sheet: XlsxSheet): string => {
+    const columnCount = sheet.rows.reduce((max, row) => Math.max(max, row.length), 0);
+    const widths = Array.from({ length: columnCount }, (_, i) =>
+        Math.min(60, Math.max(10, ...sheet.rows.slice(0, 200).map(row => displayLength(row[i]) + 2))));
+    const cols = widths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join('');
+    const rows = sheet.rows.map((row, r) =>
+        `<row r="${r + 1}">${row.map((value, c) => cellXml(value, `${columnName(c)}${r + 1}`, r === 0)).join('')}</row>`).join('');
+    return `${XML_HEADER}<worksheet xmlns="${NS_MAIN}">`
+        + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+        + (cols ? `<cols>${cols}</cols>` : '')
+        + `<sheetData>${rows}</sheetData></worksheet>`;
+};
+
+export const writeXlsx = async (sheets: XlsxSheet[]): Promise<Blob> => {
+    const encoder = new TextEncoder();
+    const names = toSheetNames(sheets.map(s => s.name));
+    const files: Record<string, string> = {
+        '[Content_Types].xml': `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+            + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+            + '<Default Extension="xml" ContentType="application/xml"/>'
+            + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+            + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+            + sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+            + '</Types>',
+        '_rels/.rels': `${XML_HEADER}<Relationships xmlns="${NS_PKG_REL}">`
+            + `<Relationship Id="rId1" Type="${NS_REL}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+        'xl/workbook.xml': `${XML_HEADER}<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}"><sheets>`
+            + names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')
+            + '</sheets></workbook>',
+        'xl/_rels/workbook.xml.rels': `${XML_HEADER}<Relationships xmlns="${NS_PKG_REL}">`
+            + sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${NS_REL}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+            + `<Relationship Id="rId${sheets.length + 1}" Type="${NS_REL}/styles" Target="styles.xml"/></Relationships>`,
+        'xl/styles.xml': STYLES_XML
+    };
+    sheets.forEach((sheet, i) => { files[`xl/worksheets/sheet${i + 1}.xml`] = sheetXml(sheet); });
+
+    const entries: ZipEntry[] = Object.entries(files).map(([name, xml]) => ({ name, data: encoder.encode(xml) }));
+    return new Blob([await createZip(entries)], { type: XLSX_MIME });
+};
+
+// --- Reading ---
+
+const attribute = (attrs: string, name: string): string | undefined =>
+    attrs.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`))?.[1];
+
+// Concatenated <t> runs of a shared / inline string (phonetic runs excluded)
+const readText = (xml: string) =>
+    unescapeXml((xml.replace(/<rPh\b[\s\S]*?<\/rPh>|<t\b[^>]*\/>/g, '').match(/<t\b[^>]*>[\s\S]*?<\/t>/g) || [])
+        .map(t => t.replace(/^<t\b[^>]*>|<\/t>$/g, '')).join(''));
+
+const BUILT_IN_DATE_FORMATS = [14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57];
+
+const isDateFormatCode = (code: string) => /[dy]/i.test(code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, ''));
+
+// Per cell style index: whether numbers are dates
+const readDateStyles = (xml: string): boolean[] => {
+    const custom: Record<number, string> = {};
+    (xml.match(/<numFmt\b[^>]*>/g) || []).forEach(tag => {
+        const id = Number(attribute(tag, 'numFmtId'));
+        custom[id] = unescapeXml(attribute(tag, 'formatCode') || '');
+    });
+    const cellXfs = xml.match(/<cellXfs\b[\s\S]*?<\/cellXfs>/)?.[0] || '';
+    return (cellXfs.match(/<xf\b[^>]*>/g) || []).map(tag => {
+        const id = Number(attribute(tag, 'numFmtId') || 0);
+        return BUILT_IN_DATE_FORMATS.includes(id) || (custom[id] !== undefined && isDateFormatCode(custom[id]));
+    });
+};
+
+const readSheetRows = (xml: string, sharedStrings: string[], dateStyles: boolean[]): string[][] => {
+    const rows: string[][] = [];
+    (xml.match(/<row\b[^>]*?(?:\/>|>[\s\S]*?<\/row>)/g) || []).forEach(rowXml => {
+        const rowNumber = Number(attribute(rowXml.match(/^<row\b[^>]*>/)?.[0] || '', 'r')) || rows.length + 1;
+        const cells: string[] = [];
+        const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+        let match: RegExpExecArray | null;
+        while ((match = cellPattern.exec(rowXml))) {
+            const attrs = match[1];
+            const body = match[2] || '';
+            const ref = attribute(attrs, 'r');
+            const index = ref ? columnIndex(ref) : cells.length;
+            const type = attribute(attrs, 't');
+            const raw = unescapeXml(body.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '');
+            let value: string;
+            if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+            else if (type === 'inlineStr') value = readText(body.match(/<is>[\s\S]*?<\/is>/)?.[0] || '');
+            else if (type === 'b') value = raw === '1' ? 'true' : raw === '0' ? 'false' : '';
+            else if (type === 'e') value = ''; // #N/A, #DIV/0!...
+            else if (type === 'str' || raw === '') value = raw;
+            else value = dateStyles[Number(attribute(attrs, 's') || 0)] ? fromSerialDate(Number(raw)) : raw;
+            while (cells.length < index) cells.push('');
+            cells[index] = value;
+        }
+        while (rows.length < rowNumber - 1) rows.push([]);
+        rows[rowNumber - 1] = cells;
+    });
+    return rows.filter(row => row.some(v => v.trim() !== '')); // blank rows are skipped, as for CSV
+};
+
+const resolveTarget = (target: string) => target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+
+// Every worksheet of the workbook, in tab order
+export const readXlsx = async (buffer: ArrayBuffer): Promise<XlsxTable[]> => {
+    const files = await readZip(buffer);
+    const decoder = new TextDecoder();
+    const text = (name: string) => files[name] ? decoder.decode(files[name]) : '';
+
+    const workbook = text('xl/workbook.xml');
+    if (!workbook) throw new Error('Tệp không phải bảng tính Excel (.xlsx)');
+    const relations: Record<string, string> = {};
+    (text('xl/_rels/workbook.xml.rels').match(/<Relationship\b[^>]*>/g) || []).forEach(tag => {
+        const id = attribute(tag, 'Id');
+        const target = attribute(tag, 'Target');
+        if (id && target) relations[id] = resolveTarget(target);
+    });
+    const sharedStrings = (text('xl/sharedStrings.xml').match(/<si>[\s\S]*?<\/si>/g) || []).map(readText);
+    const dateStyles = readDateStyles(text('xl/styles.xml'));
+
+    return (workbook.match(/<sheet\b[^>]*>/g) || []).map(tag => {
+        const path = relations[attribute(tag, 'r:id') || ''] || '';
+        return { name: unescapeXml(attribute(tag, 'name') || ''), rows: readSheetRows(text(path), sharedStrings, dateStyles) };
+    });
+};
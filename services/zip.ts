@@ -0,0 +1,124 @@
+// Minimal ZIP container support for .xlsx files: deflate through the browser's CompressionStream,
+// no ZIP64, no encryption.
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const transform = async (data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+    new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(stream)).arrayBuffer());
+
+const SIG_LOCAL = 0x04034b50;
+const SIG_CENTRAL = 0x02014b50;
+const SIG_END = 0x06054b50;
+const DOS_DATE_1980 = 0x21; // 1980-01-01, entries carry no meaningful timestamp
+const FLAG_UTF8 = 0x0800;
+
+export const createZip = async (entries: ZipEntry[]): Promise<Uint8Array> => {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const compressed = await transform(entry.data, new CompressionStream('deflate-raw'));
+        const crc = crc32(entry.data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, SIG_LOCAL, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(6, FLAG_UTF8, true);
+        local.setUint16(8, 8, true); // deflate
+        local.setUint16(12, DOS_DATE_1980, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, compressed.length, true);
+        local.setUint32(22, entry.data.length, true);
+        local.setUint16(26, name.length, true);
+        parts.push(new Uint8Array(local.buffer), name, compressed);
+
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, SIG_CENTRAL, true);
+        header.setUint16(4, 20, true);
+        header.setUint16(6, 20, true);
+        header.setUint16(8, FLAG_UTF8, true);
+        header.setUint16(10, 8, true);
+        header.setUint16(14, DOS_DATE_1980, true);
+        header.setUint32(16, crc, true);
+        header.setUint32(20, compressed.length, true);
+        header.setUint32(24, entry.data.length, true);
+        header.setUint16(28, name.length, true);
+        header.setUint32(42, offset, true);
+        central.push(new Uint8Array(header.buffer), name);
+
+        offset += 30 + name.length + compressed.length;
+    }
+
+    const centralSize = central.reduce((total, part) => total + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, SIG_END, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    const all = [...parts, ...central, new Uint8Array(end.buffer)];
+    const result = new Uint8Array(all.reduce((total, part) => total + part.length, 0));
+    let position = 0;
+    all.forEach(part => { result.set(part, position); position += part.length; });
+    return result;
+};
+
+// Entries by name. Throws when the data is not a ZIP archive.
+export const readZip = async (buffer: ArrayBuffer): Promise<Record<string, Uint8Array>> => {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    const decoder = new TextDecoder();
+
+    let endOffset = -1;
+    for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === SIG_END) { endOffset = i; break; }
+    }
+    if (endOffset < 0) throw new Error('Tệp không đúng định dạng ZIP/XLSX');
+
+    const count = view.getUint16(endOffset + 10, true);
+    let pointer = view.getUint32(endOffset + 16, true);
+    const entries: Record<string, Uint8Array> = {};
+
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(pointer, true) !== SIG_CENTRAL) throw new Error('Tệp ZIP bị hỏng');
+        const method = view.getUint16(pointer + 10, true);
+        const compressedSize = view.getUint32(pointer + 20, true);
+        const nameLength = view.getUint16(pointer + 28, true);
+        const extraLength = view.getUint16(pointer + 30, true);
+        const commentLength = view.getUint16(pointer + 32, true);
+        const localOffset = view.getUint32(pointer + 42, true);
+        const name = decoder.decode(bytes.subarray(pointer + 46, pointer + 46 + nameLength));
+
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = bytes.subarray(dataStart, dataStart + compressedSize);
+        if (method === 0) entries[name] = data;
+        else if (method === 8) entries[name] = await transform(data, new DecompressionStream('deflate-raw'));
+        // other methods are not used by spreadsheet applications, such entries are skipped
+
+        pointer += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+};
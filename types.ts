@@ -1,6 +1,20 @@
 
 
-export type Role = 'admin' | 'manager' | 'user';
+// Id of a RoleDefinition: one of the built-in roles or a custom role created by admins
+export type Role = 'admin' | 'manager' | 'user' | (string & {});
+
+// What a role allows, see PERMISSIONS
+export type Permission = 'manageSchema' | 'manageProjects' | 'createResource' | 'editResource' | 'deleteResource' | 'viewAuditLog' | 'manageUsers' | 'manageSettings';
+
+export const ALL_PERMISSIONS: Permission[] = ['manageSchema', 'manageProjects', 'createResource', 'editResource', 'deleteResource', 'viewAuditLog', 'manageUsers', 'manageSettings'];
+
+export interface RoleDefinition {
+  id: Role;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  builtIn?: boolean; // admin / manager / user: cannot be deleted, admin always has every permission
+}
 
 export interface User {
   id: string;
@@ -9,10 +23,42 @@ export interface User {
   password?: string; // Optional for security when passing user object to UI
   fullName?: string; // Full display name
   avatarUrl?: string; // URL to user avatar
-  role: Role;
+  role: Role; // Primary role, the first of `roles`
+  roles?: Role[]; // Every role of the user; absent on profiles with a single role
+  permissions?: Permission[]; // Granted by the roles, resolved by authService for the signed-in user
+  projectRoles?: Record<string, ProjectRole>; // Project id -> role of the user in it, resolved like `permissions`
+}
+
+export type FieldType = 'text' | 'number' | 'date' | 'boolean' | 'textarea' | 'project' | 'user' | 'image' | 'file' | 'select' | 'multiselect' | 'reference' | 'formula';
+
+export type OptionColor = 'slate' | 'blue' | 'emerald' | 'amber' | 'red' | 'purple' | 'pink' | 'cyan';
+
+// A choice of a select / multiselect field. `value` is what gets stored in ResourceItem.data
+export interface FieldOption {
+  value: string;
+  label: string;
+  color: OptionColor;
 }
 
-export type FieldType = 'text' | 'number' | 'date' | 'boolean' | 'textarea' | 'project' | 'user' | 'image' | 'file';
+// Optional validation rules attached to a field (only applied to non-empty values)
+export interface FieldValidation {
+  min?: number; // number: minimum value
+  max?: number; // number: maximum value
+  minLength?: number; // text/textarea: minimum length
+  maxLength?: number; // text/textarea: maximum length
+  pattern?: string; // text: regular expression the value must match
+  patternMessage?: string; // custom error message when pattern fails
+  minDate?: string; // date: earliest allowed date (YYYY-MM-DD)
+  maxDate?: string; // date: latest allowed date (YYYY-MM-DD)
+  unique?: boolean; // value must be unique within the category
+}
+
+// Target of a reference field. The stored value is the referenced resource id, or an array of ids when `multiple`
+export interface FieldReference {
+  categoryId: string;
+  multiple?: boolean;
+  displayFieldKey?: string; // field of the target category used as record title (default: first text field)
+}
 
 export interface FieldDefinition {
   id: string;
@@ -20,6 +66,17 @@ export interface FieldDefinition {
   key: string; // internal key for storage
   type: FieldType;
   required: boolean;
+  validation?: FieldValidation;
+  options?: FieldOption[]; // select / multiselect only
+  reference?: FieldReference; // reference only
+  formula?: string; // formula only, expression evaluated by services/formula.ts
+  access?: FieldAccess; // no rules: everyone who sees the record sees and edits the field
+}
+
+// Roles allowed to see / change one field. Schema managers always can.
+export interface FieldAccess {
+  readRoles?: Role[]; // unset: every role
+  writeRoles?: Role[]; // unset: every role that may read it
 }
 
 export interface Category {
@@ -28,8 +85,36 @@ export interface Category {
   description: string;
   fields: FieldDefinition[];
   createdAt: number;
-  accessLevel: 'public' | 'restricted'; // New: Control visibility
+  accessLevel: 'public' | 'restricted'; // Visibility when there is no `acl`: restricted = roles allowed to edit any record
+  acl?: CategoryAclEntry[]; // Per-category permissions, replace accessLevel and the role permissions on resources
+  membersOnly?: boolean; // Records are only visible to members of a project linked by their project fields
   icon?: string; // Icon for category
+  schemaVersion?: number; // Current SchemaVersion.version of `fields`
+  fieldKeyAliases?: Record<string, string>; // Renamed field keys: old key -> current key
+  deletedAt?: number; // In the recycle bin since (timestamp)
+  deletedBy?: string;
+}
+
+// What a category ACL entry allows. editOwn also covers deleting the records the user created.
+export type CategoryAction = 'view' | 'create' | 'editAny' | 'editOwn' | 'delete' | 'export';
+
+export const CATEGORY_ACTIONS: CategoryAction[] = ['view', 'create', 'editAny', 'editOwn', 'delete', 'export'];
+
+export interface CategoryAclEntry {
+  type: 'role' | 'user';
+  id: string; // Role id or user id
+  actions: CategoryAction[];
+}
+
+// Snapshot of a category's fields, recorded each time the schema is saved
+export interface SchemaVersion {
+  id: string;
+  categoryId: string;
+  version: number;
+  fields: FieldDefinition[];
+  createdAt: number;
+  createdBy: string;
+  note?: string;
 }
 
 export interface ResourceItem {
@@ -38,6 +123,121 @@ export interface ResourceItem {
   data: Record<string, any>; // Dynamic data based on fields
   createdBy: string;
   createdAt: number;
+  updatedBy?: string; // Set by every save; absent on records not saved since it was tracked
+  updatedAt?: number;
+  version?: number; // Incremented by every save, see services/conflicts.ts; absent counts as 0
+  deletedAt?: number; // In the recycle bin since (timestamp)
+  deletedBy?: string;
+  deletedWith?: string; // Id of the category whose deletion moved this resource to the recycle bin
+}
+
+// Recycle bin marker of a resource, null to restore
+export type ResourceTrashMark = Pick<ResourceItem, 'deletedAt' | 'deletedBy' | 'deletedWith'> | null;
+
+// Snapshot of a resource's data, recorded each time the resource is saved
+export interface ResourceRevision {
+  id: string;
+  resourceId: string;
+  categoryId: string;
+  data: Record<string, any>;
+  createdAt: number;
+  createdBy: string;
+  note?: string;
+}
+
+// --- Resource queries (filtered, sorted and paginated by the storage backend) ---
+
+// `field` is a ResourceItem.data key, or 'createdBy' / 'createdAt' / 'updatedBy' / 'updatedAt' for the built-in columns
+// ('categoryId' as well in filters, used by dataService to limit member-only categories)
+export interface ResourceFilter {
+  field: string;
+  // has: array value contains (or scalar value equals) one of `value`. Blank values only match 'empty'
+  op: 'eq' | 'neq' | 'contains' | 'startsWith' | 'has' | 'gt' | 'gte' | 'lt' | 'lte' | 'empty' | 'notEmpty';
+  value?: string | number | string[]; // unused by empty / notEmpty
+  numeric?: boolean; // compare as numbers (number fields)
+}
+
+// Nested AND/OR combination of filters
+export interface ResourceFilterGroup {
+  combinator: 'and' | 'or';
+  items: (ResourceFilter | ResourceFilterGroup)[];
+}
+
+export interface ResourceSort {
+  field: string;
+  direction: 'asc' | 'desc';
+  numeric?: boolean;
+  labels?: Record<string, string>; // sort stored ids and option values (users, projects, options) by their display name
+  titleKey?: string; // reference fields: sort the ids by this field of the referenced records
+}
+
+export interface ResourceQuery {
+  categoryId?: string;
+  categoryIds?: string[]; // only these categories (the ones the user may view)
+  filters?: ResourceFilter[]; // combined with AND
+  where?: ResourceFilterGroup; // combined with `filters` using AND
+  sort?: ResourceSort[]; // default: newest first
+  page?: number; // 1-based
+  pageSize?: number; // omit for every matching row, 0 to only count
+  trashed?: boolean; // only resources in the recycle bin; they are excluded otherwise
+}
+
+export interface ResourcePage {
+  items: ResourceItem[];
+  total: number; // matching rows across all pages
+}
+
+// Column of DataManager's list view: a field id or a built-in column ('createdBy', 'updatedAt'...)
+export interface ColumnPref {
+  id: string;
+  visible: boolean;
+  width?: number; // px, auto when absent
+}
+
+// --- Filter builder of DataManager (converted to a ResourceFilterGroup by services/filterBuilder.ts) ---
+
+// Relative operators (lastDays / nextDays) are resolved against the current date when the query runs
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'lt' | 'between' | 'contains' | 'startsWith' | 'in' | 'empty' | 'notEmpty' | 'lastDays' | 'nextDays';
+
+// `field` is a field key, or a built-in column ('createdBy' / 'createdAt' / 'updatedBy' / 'updatedAt')
+export interface FilterCondition {
+  id: string;
+  field: string;
+  op: FilterOperator;
+  value?: any; // string[] for 'in', number of days for lastDays / nextDays
+  value2?: any; // upper bound of 'between'
+}
+
+export interface FilterGroup {
+  id: string;
+  combinator: 'and' | 'or';
+  items: FilterNode[];
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
+// DataManager state restored by a saved view
+export interface SavedViewState {
+  filterCreator: string;
+  filterDateFrom: string;
+  filterDateTo: string;
+  fieldFilters: Record<string, any>;
+  advancedFilter?: FilterGroup;
+  sort: ResourceSort[]; // without `labels` and `titleKey`, they are rebuilt from current names
+  columns: ColumnPref[];
+  viewMode: 'list' | 'grid';
+}
+
+// Named filter/sort/column preset of a category. Private to its owner unless shared with a role
+export interface SavedView {
+  id: string;
+  categoryId: string;
+  name: string;
+  ownerId: string;
+  ownerName: string;
+  sharedRole?: Role;
+  state: SavedViewState;
+  createdAt: number;
 }
 
 export interface Project {
@@ -46,14 +246,28 @@ export interface Project {
   code: string;
   description: string;
   status: 'active' | 'completed' | 'paused';
+  members?: ProjectMember[];
   createdAt: string; // ISO string from DB
+  deletedAt?: number; // In the recycle bin since (timestamp)
+  deletedBy?: string;
+}
+
+// Role inside one project, used by the categories limited to project members:
+// leads edit every record of the project, members follow the category permissions, viewers only read
+export type ProjectRole = 'lead' | 'member' | 'viewer';
+
+export const PROJECT_ROLES: ProjectRole[] = ['lead', 'member', 'viewer']; // strongest first
+
+export interface ProjectMember {
+  userId: string;
+  role: ProjectRole;
 }
 
 export interface AuditLog {
     id: string;
     user_id: string;
     username: string;
-    action: 'LOGIN' | 'CREATE' | 'UPDATE' | 'DELETE';
+    action: 'LOGIN' | 'CREATE' | 'UPDATE' | 'DELETE' | 'EXPORT';
     target: string;
     details: string;
     created_at: string;
@@ -72,31 +286,129 @@ export interface SystemConfig {
   logoUrl?: string; // URL or Data URI for site logo
   faviconUrl?: string; // URL or Data URI for browser icon
   allowRegistration?: boolean; // Enable/Disable new user registration
+  trashRetentionDays?: number; // Recycle bin items older than this are purged, 0 keeps them
 }
 
+// Defaults of the built-in roles; admins can change manager / user in the permission matrix
+export const BUILT_IN_ROLES: RoleDefinition[] = [
+  { id: 'admin', name: 'Admin', description: 'Toàn quyền quản trị hệ thống', permissions: ALL_PERMISSIONS, builtIn: true },
+  { id: 'manager', name: 'Quản lý', description: 'Quản lý dự án và toàn bộ dữ liệu', permissions: ['manageProjects', 'createResource', 'editResource', 'deleteResource'], builtIn: true },
+  { id: 'user', name: 'Nhân viên', description: 'Xem dữ liệu công khai, sửa dữ liệu của mình', permissions: [], builtIn: true }
+];
+
+export const getUserRoles = (user: User): Role[] => user.roles && user.roles.length > 0 ? user.roles : [user.role];
+
+// Union of the permissions of the roles; unknown roles grant nothing
+export const resolvePermissions = (roles: Role[], definitions: RoleDefinition[]): Permission[] => {
+  if (roles.includes('admin')) return ALL_PERMISSIONS;
+  const granted = new Set<Permission>();
+  roles.forEach(id => definitions.find(d => d.id === id)?.permissions.forEach(p => granted.add(p)));
+  return ALL_PERMISSIONS.filter(p => granted.has(p));
+};
+
+// Users without resolved permissions (e.g. from the users list) get the defaults of the built-in roles
+export const hasPermission = (user: User, permission: Permission) =>
+  (user.permissions ?? resolvePermissions(getUserRoles(user), BUILT_IN_ROLES)).includes(permission);
+
+// Actions of the user in the category. Schema managers can do everything; without an ACL the role permissions
+// apply (restricted categories only for roles allowed to edit any record), with one the matching entries do.
+export const getCategoryActions = (user: User, category: Category): CategoryAction[] => {
+  if (hasPermission(user, 'manageSchema')) return CATEGORY_ACTIONS;
+  if (!category.acl) {
+    if (category.accessLevel !== 'public' && !hasPermission(user, 'editResource')) return [];
+    return CATEGORY_ACTIONS.filter(action =>
+      (action === 'create' && hasPermission(user, 'createResource'))
+      || (action === 'editAny' && hasPermission(user, 'editResource'))
+      || (action === 'delete' && hasPermission(user, 'deleteResource'))
+      || action === 'view' || action === 'editOwn' || action === 'export');
+  }
+  const roles = getUserRoles(user);
+  const granted = new Set<CategoryAction>();
+  category.acl
+    .filter(entry => entry.type === 'user' ? entry.id === user.id : roles.includes(entry.id))
+    .forEach(entry => entry.actions.forEach(action => granted.add(action)));
+  if (granted.size > 0) granted.add('view'); // every other action needs the records
+  return CATEGORY_ACTIONS.filter(action => granted.has(action));
+};
+
+export const canInCategory = (user: User, category: Category, action: CategoryAction) =>
+  getCategoryActions(user, category).includes(action);
+
+// Strongest role of the user in the projects linked by the record's project fields ('all' links every project),
+// undefined when they are not a member of any of them
+export const getResourceProjectRole = (user: User, resource: ResourceItem, category: Category): ProjectRole | undefined => {
+  const memberships = user.projectRoles || {};
+  const linked = category.fields
+    .filter(f => f.type === 'project')
+    .flatMap(f => { const value = resource.data?.[f.key]; return Array.isArray(value) ? value : value ? [value] : []; })
+    .map(String);
+  const roles = Object.keys(memberships).filter(id => linked.includes(id) || linked.includes('all')).map(id => memberships[id]);
+  return PROJECT_ROLES.find(role => roles.includes(role));
+};
+
+// Member-only categories limit the records of everyone but schema managers
+export const isMembersOnly = (user: User, category: Category) => !!category.membersOnly && !hasPermission(user, 'manageSchema');
+
+// Role list of a FieldAccess rule; unset lists allow everyone
+const fieldAllows = (user: User, roles?: Role[]) =>
+  !roles || hasPermission(user, 'manageSchema') || getUserRoles(user).some(r => roles.includes(r));
+
 // Permission Helpers
 export const PERMISSIONS = {
-  canManageSchema: (user: User) => user.role === 'admin',
-  
-  // Projects: Only Admin and Manager can create/edit/delete projects
-  canManageProjects: (user: User) => user.role === 'admin' || user.role === 'manager',
+  canManageSchema: (user: User) => hasPermission(user, 'manageSchema'),
+
+  canManageProjects: (user: User) => hasPermission(user, 'manageProjects'),
 
-  // Data: Who can add NEW resources? (User role is now restricted from adding)
-  canCreateResource: (user: User) => user.role === 'admin' || user.role === 'manager',
+  // With `resource`, member-only categories also require it to link a project the user works on (not as viewer)
+  canCreateResource: (user: User, category: Category, resource?: ResourceItem) => {
+    if (!canInCategory(user, category, 'create')) return false;
+    if (!isMembersOnly(user, category)) return true;
+    const roles = resource ? [getResourceProjectRole(user, resource, category)] : Object.values(user.projectRoles || {});
+    return roles.some(role => role && role !== 'viewer');
+  },
+
+  canViewAuditLog: (user: User) => hasPermission(user, 'viewAuditLog'),
+
+  canManageUsers: (user: User) => hasPermission(user, 'manageUsers'),
+
+  // Settings and the recycle bin
+  canManageSettings: (user: User) => hasPermission(user, 'manageSettings'),
+
+  // Member-only categories are hidden from users without projects
+  canViewCategory: (user: User, category: Category) => canInCategory(user, category, 'view')
+    && (!isMembersOnly(user, category) || Object.keys(user.projectRoles || {}).length > 0),
+
+  canViewResource: (user: User, resource: ResourceItem, category: Category) => PERMISSIONS.canViewCategory(user, category)
+    && (!isMembersOnly(user, category) || !!getResourceProjectRole(user, resource, category)),
 
-  canViewCategory: (user: User, category: Category) => {
-    if (user.role === 'admin' || user.role === 'manager') return true;
-    return category.accessLevel === 'public';
+  canExportCategory: (user: User, category: Category) => canInCategory(user, category, 'export'),
+
+  // `category` is the category of the resource
+  canEditResource: (user: User, resource: ResourceItem, category: Category) => {
+    const actions = getCategoryActions(user, category);
+    if (isMembersOnly(user, category)) {
+      const role = getResourceProjectRole(user, resource, category);
+      if (!role || role === 'viewer') return false;
+      if (role === 'lead') return actions.includes('editAny') || actions.includes('editOwn');
+    }
+    if (actions.includes('editAny')) return true;
+    return actions.includes('editOwn') && resource.createdBy === user.username;
   },
 
-  canEditResource: (user: User, resource: ResourceItem) => {
-    if (user.role === 'admin' || user.role === 'manager') return true;
-    return resource.createdBy === user.username;
+  canViewSavedView: (user: User, view: SavedView) => view.ownerId === user.id || (!!view.sharedRole && getUserRoles(user).includes(view.sharedRole)),
+
+  // Shared views can be cleaned up by schema managers
+  canEditSavedView: (user: User, view: SavedView) => view.ownerId === user.id || hasPermission(user, 'manageSchema'),
+
+  canDeleteResource: (user: User, resource: ResourceItem, category: Category) => {
+    const actions = getCategoryActions(user, category);
+    if (isMembersOnly(user, category) && [undefined, 'viewer'].includes(getResourceProjectRole(user, resource, category))) return false;
+    if (actions.includes('delete')) return true;
+    return actions.includes('editOwn') && resource.createdBy === user.username;
   },
 
-  canDeleteResource: (user: User, resource: ResourceItem) => {
-    if (user.role === 'admin') return true; // Admin can delete anything
-    if (user.role === 'manager') return true; // Manager can delete anything
-    return resource.createdBy === user.username; // Users can only delete their own
-  }
+  // Field rules only narrow what the category permissions allow on the record
+  canReadField: (user: User, field: FieldDefinition) => fieldAllows(user, field.access?.readRoles),
+
+  canWriteField: (user: User, field: FieldDefinition) => fieldAllows(user, field.access?.readRoles) && fieldAllows(user, field.access?.writeRoles)
 };
\ No newline at end of file
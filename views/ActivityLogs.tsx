@@ -2,7 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { AuditLog } from '../types';
 import { auditService } from '../services/storage';
-import { supabase } from '../services/supabase';
+import { subscribeTo } from '../services/realtime';
 
 export const ActivityLogs: React.FC = () => {
   const [logs, setLogs] = useState<AuditLog[]>([]);
@@ -14,13 +14,12 @@ export const ActivityLogs: React.FC = () => {
     loadLogs();
     
     // Realtime logs
-    const channel = supabase.channel('realtime_audit')
-        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'audit_logs' }, (payload) => {
-            setLogs(prev => [payload.new as AuditLog, ...prev]);
-        })
-        .subscribe();
+    const unsubscribe = subscribeTo('audit_logs', {}, (changes) => {
+        const inserted = changes.map(c => c.new as AuditLog).reverse(); // newest first
+        setLogs(prev => [...inserted, ...prev]);
+    }, { events: ['INSERT'] });
 
-    return () => { supabase.removeChannel(channel); };
+    return unsubscribe;
   }, []);
 
   const loadLogs = async () => {
@@ -40,6 +39,7 @@ export const ActivityLogs: React.FC = () => {
           case 'CREATE': return 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400';
           case 'UPDATE': return 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400';
           case 'DELETE': return 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400';
+          case 'EXPORT': return 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400';
           case 'LOGIN': return 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400';
           default: return 'bg-gray-100 text-gray-700';
       }
@@ -70,6 +70,7 @@ export const ActivityLogs: React.FC = () => {
                   <option value="CREATE">Tạo mới (Create)</option>
                   <option value="UPDATE">Cập nhật (Update)</option>
                   <option value="DELETE">Xóa (Delete)</option>
+                  <option value="EXPORT">Xuất dữ liệu (Export)</option>
                   <option value="LOGIN">Đăng nhập (Login)</option>
               </select>
           </div>
@@ -2,7 +2,7 @@
 import React, { useEffect, useState } from 'react';
 import { ResponsiveContainer, PieChart, Pie, Cell, Legend, Tooltip } from 'recharts';
 import { dataService, authService, projectService } from '../services/storage';
-import { supabase } from '../services/supabase';
+import { subscribeTo } from '../services/realtime';
 import { ResourceItem } from '../types';
 
 export const Dashboard: React.FC = () => {
@@ -28,18 +28,18 @@ export const Dashboard: React.FC = () => {
 
   const loadData = async () => {
     try {
-        const [cats, res, users, projects] = await Promise.all([
+        // Counts and the latest records come from backend queries, records are never loaded in bulk
+        const [cats, totals, recentPage, users, projects] = await Promise.all([
             dataService.getCategories(),
-            dataService.getResources(),
+            dataService.queryResources({ pageSize: 0 }),
+            dataService.queryResources({ sort: [{ field: 'updatedAt', direction: 'desc', numeric: true }], pageSize: 5 }),
             authService.getAllUsers(),
             projectService.getAll()
         ]);
         
         // 1. Resources by Category
-        const categoryCounts = cats.map(c => {
-            const count = res.filter(r => r.categoryId === c.id).length;
-            return { name: c.name, value: count };
-        }).filter(item => item.value > 0);
+        const counts = await Promise.all(cats.map(c => dataService.queryResources({ categoryId: c.id, pageSize: 0 })));
+        const categoryCounts = cats.map((c, i) => ({ name: c.name, value: counts[i].total })).filter(item => item.value > 0);
 
         // 2. Projects by Status
         const activeProjects = projects.filter(p => p.status === 'active').length;
@@ -53,11 +53,11 @@ export const Dashboard: React.FC = () => {
         ].filter(item => item.value > 0);
 
         // 3. Recent activity
-        const recent = [...res].sort((a, b) => b.createdAt - a.createdAt).slice(0, 5);
+        const recent = recentPage.items;
 
         setStats({
             totalCategories: cats.length,
-            totalResources: res.length,
+            totalResources: totals.total,
             totalUsers: users.length,
             totalProjects: projects.length,
             resourcesByCategory: categoryCounts,
@@ -79,17 +79,12 @@ export const Dashboard: React.FC = () => {
   useEffect(() => {
     loadData();
 
-    // Realtime Subscription
-    const channel = supabase.channel('dashboard_realtime')
-        .on('postgres_changes', { event: '*', schema: 'public' }, () => {
-            // Reload data when any table changes
-            loadData();
-        })
-        .subscribe();
+    // Realtime Subscription: only the tables the dashboard aggregates (bursts are debounced)
+    const unsubscribe = subscribeTo(['categories', 'resources', 'profiles', 'projects'], {}, () => {
+        loadData();
+    });
 
-    return () => {
-        supabase.removeChannel(channel);
-    };
+    return unsubscribe;
   }, []);
 
   const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#6366f1', '#14b8a6'];
@@ -343,22 +338,28 @@ export const Dashboard: React.FC = () => {
 
                     {stats.recentActivity.length === 0 && <p className="text-slate-400 text-sm text-center py-4">Chưa có hoạt động nào</p>}
                     
-                    {stats.recentActivity.map((item) => (
+                    {stats.recentActivity.map((item) => {
+                        // Saved after its creation: an edit
+                        const edited = !!item.updatedAt && item.updatedAt > item.createdAt;
+                        return (
                         <div key={item.id} className="flex items-start relative group">
                             <div className="w-8 h-8 rounded-full bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 flex items-center justify-center text-xs font-bold mr-4 z-10 border-4 border-white dark:border-slate-800 shadow-sm transition-transform group-hover:scale-110 shrink-0">
-                                ⚡
+                                {edited ? '✏️' : '⚡'}
                             </div>
                             <div className="flex-1 bg-slate-50 dark:bg-slate-700/30 p-3 rounded-2xl hover:bg-blue-50/50 dark:hover:bg-slate-700/50 transition-colors">
                                 <div className="flex justify-between items-start">
-                                    <p className="text-sm text-slate-800 dark:text-slate-200 font-bold">Dữ liệu mới</p>
-                                    <span className="text-[10px] text-slate-400 whitespace-nowrap ml-2">{new Date(item.createdAt).toLocaleDateString()}</span>
+                                    <p className="text-sm text-slate-800 dark:text-slate-200 font-bold">{edited ? 'Cập nhật dữ liệu' : 'Dữ liệu mới'}</p>
+                                    <span className="text-[10px] text-slate-400 whitespace-nowrap ml-2">{new Date(item.updatedAt ?? item.createdAt).toLocaleDateString()}</span>
                                 </div>
                                 <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 line-clamp-2">
-                                    <span className="font-semibold text-blue-600 dark:text-blue-400">{item.createdBy}</span> đã thêm bản ghi mới.
+                                    {edited
+                                        ? <><span className="font-semibold text-blue-600 dark:text-blue-400">{item.updatedBy}</span> đã cập nhật một bản ghi.</>
+                                        : <><span className="font-semibold text-blue-600 dark:text-blue-400">{item.createdBy}</span> đã thêm bản ghi mới.</>}
                                 </p>
                             </div>
                         </div>
-                    ))}
+                        );
+                    })}
                 </div>
             </div>
         </div>
@@ -1,15 +1,18 @@
 
 import React, { useState, useEffect } from 'react';
 import { Project, User, PERMISSIONS } from '../types';
-import { projectService } from '../services/storage';
-import { supabase } from '../services/supabase';
+import { projectService, authService } from '../services/storage';
+import { subscribeTo } from '../services/realtime';
+import { PROJECT_ROLE_LABELS } from '../services/roles';
+import { ProjectMembersEditor } from '../components/ProjectMembersEditor';
 
 interface ProjectManagerProps {
   currentUser: User;
   showToast: (msg: string, type: 'success' | 'error') => void;
+  initialSearch?: string; // set when opened from the global search
 }
 
-export const ProjectManager: React.FC<ProjectManagerProps> = ({ currentUser, showToast }) => {
+export const ProjectManager: React.FC<ProjectManagerProps> = ({ currentUser, showToast, initialSearch }) => {
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -20,14 +23,19 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ currentUser, sho
     status: 'active'
   });
   const [projectToDelete, setProjectToDelete] = useState<Project | null>(null);
+  const [users, setUsers] = useState<User[]>([]); // candidates of the members editor
 
   // View Mode State
   const [viewMode, setViewMode] = useState<'list' | 'board'>('list');
 
   // Search & Filter State
-  const [searchTerm, setSearchTerm] = useState('');
+  const [searchTerm, setSearchTerm] = useState(initialSearch || '');
   const [filterStatus, setFilterStatus] = useState<string>('all');
 
+  useEffect(() => {
+    if (initialSearch) setSearchTerm(initialSearch);
+  }, [initialSearch]);
+
   // Pagination State
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(10);
@@ -35,17 +43,18 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ currentUser, sho
   useEffect(() => {
     loadProjects();
 
-    const channel = supabase.channel('realtime_projects')
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'projects' }, () => {
-            loadProjects();
-        })
-        .subscribe();
+    const unsubscribe = subscribeTo('projects', {}, () => {
+        loadProjects();
+    });
 
-    return () => {
-        supabase.removeChannel(channel);
-    };
+    return unsubscribe;
   }, []);
 
+  useEffect(() => {
+    if (!PERMISSIONS.canManageProjects(currentUser)) return;
+    authService.getAllUsers().then(setUsers).catch(e => console.error(e));
+  }, [currentUser]);
+
   // Reset pagination when filters change
   useEffect(() => {
     setCurrentPage(1);
@@ -67,7 +76,7 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ currentUser, sho
     if (project) {
       setCurrentProject(project);
     } else {
-      setCurrentProject({ name: '', code: '', description: '', status: 'active' });
+      setCurrentProject({ name: '', code: '', description: '', status: 'active', members: [] });
     }
     setIsModalOpen(true);
   };
@@ -103,9 +112,9 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ currentUser, sho
   const confirmDelete = async () => {
     if (projectToDelete) {
       try {
-        await projectService.delete(projectToDelete.id);
+        await projectService.delete(projectToDelete, currentUser.username);
         setProjectToDelete(null);
-        showToast('Đã xóa dự án', 'success');
+        showToast('Đã chuyển dự án vào thùng rác', 'success');
         // loadProjects handled by realtime
       } catch (e) {
         showToast('Lỗi xóa dự án', 'error');
@@ -150,6 +159,20 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ currentUser, sho
   const totalPages = Math.ceil(filteredProjects.length / itemsPerPage);
   const paginate = (pageNumber: number) => setCurrentPage(pageNumber);
 
+  // Member count and the role of the current user in the project
+  const renderMembership = (project: Project) => {
+      const myRole = currentUser.projectRoles?.[project.id];
+      if (!project.members?.length) return null;
+      return (
+          <div className="flex items-center gap-2 mt-1 text-[11px] text-gray-400">
+              <span>👥 {project.members.length} thành viên</span>
+              {myRole && (
+                  <span className="px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600 dark:bg-indigo-900/30 dark:text-indigo-300 font-bold">{PROJECT_ROLE_LABELS[myRole].label}</span>
+              )}
+          </div>
+      );
+  };
+
   // Kanban Columns
   const kanbanColumns = [
       { id: 'active', title: 'Đang chạy', color: 'bg-emerald-500', bg: 'bg-emerald-50 dark:bg-emerald-900/10', border: 'border-emerald-200 dark:border-emerald-800' },
@@ -266,6 +289,7 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ currentUser, sho
                                 ) : project.name}
                             </div>
                             <div className="text-gray-500 text-xs truncate max-w-xs mt-0.5">{project.description}</div>
+                            {renderMembership(project)}
                         </td>
                         <td className="px-6 py-4 text-sm">{getStatusBadge(project.status)}</td>
                         <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400 font-medium">
@@ -377,6 +401,7 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ currentUser, sho
                                          </div>
                                          <h4 className="font-bold text-gray-900 dark:text-white mb-1 line-clamp-2">{project.name}</h4>
                                          <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-3 mb-3">{project.description || 'Không có mô tả'}</p>
+                                         {renderMembership(project)}
                                          
                                          <div className="flex items-center justify-between pt-3 border-t border-gray-50 dark:border-gray-700">
                                              <div className="flex items-center gap-1 text-[10px] text-gray-400 uppercase font-bold">
@@ -398,7 +423,7 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ currentUser, sho
       {isModalOpen && PERMISSIONS.canManageProjects(currentUser) && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
           <div className="absolute inset-0 bg-gray-900/60 backdrop-blur-sm" onClick={() => setIsModalOpen(false)}></div>
-          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl w-full max-w-lg relative z-10 p-6 animate-scale-in">
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto relative z-10 p-6 animate-scale-in">
             <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4">{currentProject.id ? 'Cập nhật Dự Án' : 'Thêm Dự Án Mới'}</h3>
             <form onSubmit={handleSave} className="space-y-4">
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -446,6 +471,15 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ currentUser, sho
                   placeholder="Mô tả chi tiết về dự án..."
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Thành viên</label>
+                <ProjectMembersEditor
+                  members={currentProject.members || []}
+                  users={users}
+                  onChange={(members) => setCurrentProject({ ...currentProject, members })}
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Danh mục chỉ dành cho thành viên dự án chỉ hiện bản ghi của dự án với các thành viên này.</p>
+              </div>
               <div className="flex justify-end gap-3 pt-4">
                 <button type="button" onClick={() => setIsModalOpen(false)} className="px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600">Hủy</button>
                 <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">Lưu thông tin</button>
@@ -461,7 +495,7 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ currentUser, sho
             <div className="absolute inset-0 bg-gray-900/60 backdrop-blur-sm" onClick={() => setProjectToDelete(null)}></div>
             <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl w-full max-w-sm relative z-10 p-6">
                 <h3 className="text-xl font-bold text-gray-900 dark:text-white text-center">Xóa Dự Án?</h3>
-                <p className="text-gray-500 dark:text-gray-400 text-center mt-2">Bạn có chắc muốn xóa dự án <b>{projectToDelete.name}</b>? Dữ liệu liên quan có thể bị ảnh hưởng.</p>
+                <p className="text-gray-500 dark:text-gray-400 text-center mt-2">Bạn có chắc muốn xóa dự án <b>{projectToDelete.name}</b>? Dự án sẽ được chuyển vào thùng rác và có thể khôi phục trong thời gian lưu giữ.</p>
                 <div className="flex gap-3 mt-6">
                     <button onClick={() => setProjectToDelete(null)} className="flex-1 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg">Hủy</button>
                     <button onClick={confirmDelete} className="flex-1 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700">Xóa</button>
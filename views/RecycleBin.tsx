@@ -0,0 +1,252 @@
+import React, { useState, useEffect } from 'react';
+import { Category, Project, ResourceItem } from '../types';
+import { dataService, trashService, TrashContents } from '../services/storage';
+import { subscribeTo } from '../services/realtime';
+import { getResourceTitle } from '../services/references';
+
+interface RecycleBinProps {
+  showToast: (msg: string, type: 'success' | 'error') => void;
+}
+
+type TrashTab = 'resources' | 'categories' | 'projects';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EMPTY: TrashContents = { categories: [], projects: [], resources: [], allCategories: [] };
+
+export const RecycleBin: React.FC<RecycleBinProps> = ({ showToast }) => {
+  const [contents, setContents] = useState<TrashContents>(EMPTY);
+  const [retentionDays, setRetentionDays] = useState<number | undefined>(undefined);
+  const [tab, setTab] = useState<TrashTab>('resources');
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadContents();
+    dataService.getSystemConfig().then(config => setRetentionDays(config.trashRetentionDays)).catch(e => console.error(e));
+
+    const unsubscribe = subscribeTo(['categories', 'resources', 'projects'], {}, () => {
+        loadContents();
+    });
+    return unsubscribe;
+  }, []);
+
+  const loadContents = async () => {
+    setLoading(true);
+    try {
+        setContents(await trashService.getContents());
+    } catch (e) {
+        console.error(e);
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  const categoryById = (id: string) => contents.allCategories.find(c => c.id === id);
+  const trashedCategoryIds = contents.categories.map(c => c.id);
+  // Resources deleted with a category are listed (and restored) with it
+  const deletedWith = (category: Category) => contents.resources.filter(r => r.deletedWith === category.id);
+  const looseResources = contents.resources.filter(r => !r.deletedWith || !trashedCategoryIds.includes(r.deletedWith));
+
+  const run = async (id: string, action: () => Promise<void>, message: string) => {
+    setBusyId(id);
+    try {
+        await action();
+        showToast(message, 'success');
+        await loadContents();
+    } catch (e: any) {
+        showToast('Lỗi: ' + e.message, 'error');
+    } finally {
+        setBusyId(null);
+    }
+  };
+
+  const handleRestoreResource = (resource: ResourceItem) =>
+    run(resource.id, () => trashService.restoreResources([resource.id]), 'Đã khôi phục bản ghi');
+
+  const handlePurgeResource = (resource: ResourceItem) => {
+    if (!window.confirm('Xóa vĩnh viễn bản ghi này? Hành động này không thể hoàn tác.')) return;
+    run(resource.id, () => trashService.purgeResources([resource.id]), 'Đã xóa vĩnh viễn bản ghi');
+  };
+
+  const handleRestoreCategory = (category: Category) =>
+    run(category.id, () => trashService.restoreCategory(category), `Đã khôi phục danh mục ${category.name}`);
+
+  const handlePurgeCategory = (category: Category) => {
+    if (!window.confirm(`Xóa vĩnh viễn danh mục "${category.name}" cùng toàn bộ bản ghi của nó? Hành động này không thể hoàn tác.`)) return;
+    run(category.id, () => trashService.purgeCategory(category), `Đã xóa vĩnh viễn danh mục ${category.name}`);
+  };
+
+  const handleRestoreProject = (project: Project) =>
+    run(project.id, () => trashService.restoreProject(project), `Đã khôi phục dự án ${project.code}`);
+
+  const handlePurgeProject = (project: Project) => {
+    if (!window.confirm(`Xóa vĩnh viễn dự án "${project.name}"? Hành động này không thể hoàn tác.`)) return;
+    run(project.id, () => trashService.purgeProject(project), `Đã xóa vĩnh viễn dự án ${project.code}`);
+  };
+
+  const renderDeleted = (item: { deletedAt?: number; deletedBy?: string }) => {
+    const deletedAt = item.deletedAt || 0;
+    const daysLeft = retentionDays ? Math.max(0, Math.ceil((deletedAt + retentionDays * DAY_MS - Date.now()) / DAY_MS)) : null;
+    return (
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+            <div>{new Date(deletedAt).toLocaleString('vi-VN')} · {item.deletedBy || 'Unknown'}</div>
+            {daysLeft !== null && <div className="text-amber-600 dark:text-amber-400">Tự động xóa sau {daysLeft} ngày</div>}
+        </div>
+    );
+  };
+
+  const renderActions = (id: string, onRestore: () => void, onPurge: () => void, restoreBlocked?: string) => (
+    <div className="flex justify-end gap-2">
+        <button
+            onClick={onRestore}
+            disabled={busyId !== null || !!restoreBlocked}
+            title={restoreBlocked}
+            className="px-3 py-1.5 rounded-lg text-xs font-semibold text-emerald-700 bg-emerald-50 border border-emerald-200 hover:bg-emerald-100 dark:text-emerald-300 dark:bg-emerald-900/20 dark:border-emerald-800 transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+            {busyId === id ? 'Đang xử lý...' : 'Khôi phục'}
+        </button>
+        <button
+            onClick={onPurge}
+            disabled={busyId !== null}
+            className="px-3 py-1.5 rounded-lg text-xs font-semibold text-red-700 bg-red-50 border border-red-200 hover:bg-red-100 dark:text-red-300 dark:bg-red-900/20 dark:border-red-800 transition disabled:opacity-50"
+        >
+            Xóa vĩnh viễn
+        </button>
+    </div>
+  );
+
+  const tabs: { id: TrashTab; label: string; count: number }[] = [
+    { id: 'resources', label: 'Bản ghi', count: looseResources.length },
+    { id: 'categories', label: 'Danh mục', count: contents.categories.length },
+    { id: 'projects', label: 'Dự án', count: contents.projects.length }
+  ];
+
+  const headerClass = "px-6 py-4 text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider";
+  const emptyRow = (colSpan: number) => (
+    <tr><td colSpan={colSpan} className="text-center py-10 text-gray-500">{loading ? 'Đang tải...' : 'Thùng rác trống'}</td></tr>
+  );
+
+  return (
+    <div className="space-y-6 animate-fade-in h-full flex flex-col pb-10">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+          <div>
+              <h2 className="text-3xl font-bold text-gray-900 dark:text-white">Thùng rác</h2>
+              <p className="text-gray-500 dark:text-gray-400 mt-1">
+                  Khôi phục hoặc xóa vĩnh viễn dữ liệu đã xóa.
+                  {retentionDays ? ` Mục quá ${retentionDays} ngày được xóa vĩnh viễn tự động.` : ' Các mục được giữ lại cho đến khi xóa thủ công.'}
+              </p>
+          </div>
+          <button onClick={loadContents} className="px-4 py-2.5 bg-blue-50 text-blue-600 dark:bg-blue-900/20 dark:text-blue-400 rounded-xl hover:bg-blue-100 dark:hover:bg-blue-900/40 transition">
+              Làm mới
+          </button>
+      </div>
+
+      <div className="flex gap-2 bg-white dark:bg-gray-800 p-2 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 w-fit">
+          {tabs.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTab(t.id)}
+                className={`px-4 py-2 rounded-lg text-sm font-semibold transition ${tab === t.id ? 'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400' : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'}`}
+              >
+                  {t.label} <span className="ml-1 text-xs opacity-70">({t.count})</span>
+              </button>
+          ))}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden flex-1 relative">
+          <div className="overflow-x-auto h-full">
+              <table className="w-full text-left border-collapse">
+                  {tab === 'resources' && (
+                      <>
+                          <thead className="sticky top-0 z-10 bg-gray-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600">
+                              <tr>
+                                  <th className={headerClass}>Bản ghi</th>
+                                  <th className={headerClass}>Danh mục</th>
+                                  <th className={headerClass}>Đã xóa</th>
+                                  <th className={headerClass}></th>
+                              </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                              {looseResources.length === 0 && emptyRow(4)}
+                              {looseResources.map(resource => {
+                                  const category = categoryById(resource.categoryId);
+                                  const categoryTrashed = trashedCategoryIds.includes(resource.categoryId);
+                                  return (
+                                      <tr key={resource.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/30 transition text-sm">
+                                          <td className="px-6 py-4 font-semibold text-gray-900 dark:text-white">{getResourceTitle(resource, category)}</td>
+                                          <td className="px-6 py-4 text-gray-600 dark:text-gray-300">
+                                              {category?.name || 'Danh mục đã bị xóa'}
+                                              {categoryTrashed && <span className="ml-2 text-xs text-red-500">(trong thùng rác)</span>}
+                                          </td>
+                                          <td className="px-6 py-4">{renderDeleted(resource)}</td>
+                                          <td className="px-6 py-4">
+                                              {renderActions(resource.id, () => handleRestoreResource(resource), () => handlePurgeResource(resource),
+                                                  categoryTrashed ? 'Khôi phục danh mục trước' : undefined)}
+                                          </td>
+                                      </tr>
+                                  );
+                              })}
+                          </tbody>
+                      </>
+                  )}
+
+                  {tab === 'categories' && (
+                      <>
+                          <thead className="sticky top-0 z-10 bg-gray-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600">
+                              <tr>
+                                  <th className={headerClass}>Danh mục</th>
+                                  <th className={headerClass}>Bản ghi kèm theo</th>
+                                  <th className={headerClass}>Đã xóa</th>
+                                  <th className={headerClass}></th>
+                              </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                              {contents.categories.length === 0 && emptyRow(4)}
+                              {contents.categories.map(category => (
+                                  <tr key={category.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/30 transition text-sm">
+                                      <td className="px-6 py-4">
+                                          <div className="font-semibold text-gray-900 dark:text-white">{category.name}</div>
+                                          {category.description && <div className="text-xs text-gray-500 dark:text-gray-400 truncate max-w-xs">{category.description}</div>}
+                                      </td>
+                                      <td className="px-6 py-4 text-gray-600 dark:text-gray-300">{deletedWith(category).length}</td>
+                                      <td className="px-6 py-4">{renderDeleted(category)}</td>
+                                      <td className="px-6 py-4">
+                                          {renderActions(category.id, () => handleRestoreCategory(category), () => handlePurgeCategory(category))}
+                                      </td>
+                                  </tr>
+                              ))}
+                          </tbody>
+                      </>
+                  )}
+
+                  {tab === 'projects' && (
+                      <>
+                          <thead className="sticky top-0 z-10 bg-gray-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600">
+                              <tr>
+                                  <th className={headerClass}>Mã</th>
+                                  <th className={headerClass}>Tên dự án</th>
+                                  <th className={headerClass}>Đã xóa</th>
+                                  <th className={headerClass}></th>
+                              </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                              {contents.projects.length === 0 && emptyRow(4)}
+                              {contents.projects.map(project => (
+                                  <tr key={project.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/30 transition text-sm">
+                                      <td className="px-6 py-4 font-mono text-gray-700 dark:text-gray-300">{project.code}</td>
+                                      <td className="px-6 py-4 font-semibold text-gray-900 dark:text-white">{project.name}</td>
+                                      <td className="px-6 py-4">{renderDeleted(project)}</td>
+                                      <td className="px-6 py-4">
+                                          {renderActions(project.id, () => handleRestoreProject(project), () => handlePurgeProject(project))}
+                                      </td>
+                                  </tr>
+                              ))}
+                          </tbody>
+                      </>
+                  )}
+              </table>
+          </div>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Category, FieldDefinition, FieldType } from '../types';
-import { dataService, generateUUID } from '../services/storage';
-import { supabase } from '../services/supabase';
+import { Category, FieldDefinition, FieldType, FieldValidation, FieldAccess, FieldOption, OptionColor, SchemaVersion, User, RoleDefinition, BUILT_IN_ROLES } from '../types';
+import { dataService, generateUUID, authService, roleService, SaveCategoryOptions } from '../services/storage';
+import { subscribeTo } from '../services/realtime';
+import { checkValidationRules, checkFieldOptions, checkFieldReference } from '../services/validation';
+import { checkFormula } from '../services/formula';
+import { slugifyFieldKey, uniqueFieldKey, takenFieldKeys, checkFieldKeys, updateKeyAliases } from '../services/fieldKeys';
+import { SchemaChange, MigrationPlan } from '../services/schemaMigration';
+import { OPTION_COLORS } from '../components/OptionBadge';
+import { SchemaMigrationDialog } from '../components/SchemaMigrationDialog';
+import { CategoryAclEditor } from '../components/CategoryAclEditor';
+import { defaultCategoryAcl } from '../services/roles';
 
 interface SchemaBuilderProps {
+  currentUser: User;
   showToast: (msg: string, type: 'success' | 'error') => void;
 }
 
@@ -16,7 +25,18 @@ const PRESET_ICONS = [
     '🖥️', '📱', '📧', '🌐', '🚀', '💡'
 ];
 
-export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
+const OPTION_COLOR_KEYS = Object.keys(OPTION_COLORS) as OptionColor[];
+
+const isChoiceType = (type: FieldType) => type === 'select' || type === 'multiselect';
+
+// Schema edit waiting for the admin to confirm how existing data is migrated
+interface PendingMigration {
+  category: Category;
+  previous: Category;
+  changes: SchemaChange[];
+}
+
+export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ currentUser, showToast }) => {
   const [categories, setCategories] = useState<Category[]>([]);
   const [isEditing, setIsEditing] = useState(false);
   const [currentCategory, setCurrentCategory] = useState<Partial<Category>>({
@@ -34,18 +54,33 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
   // Delete Modal State
   const [categoryToDelete, setCategoryToDelete] = useState<Category | null>(null);
   
+  // Validation Rules Panel State
+  const [expandedFieldId, setExpandedFieldId] = useState<string | null>(null);
+
+  // Schema Versioning State
+  const [versions, setVersions] = useState<SchemaVersion[]>([]);
+  const [pendingMigration, setPendingMigration] = useState<PendingMigration | null>(null);
+  const [savingMigration, setSavingMigration] = useState(false);
+
+  // Keys of new fields follow their name until edited by hand
+  const [manualKeyIds, setManualKeyIds] = useState<string[]>([]);
+
+  // Roles and users offered by the category permissions editor
+  const [roles, setRoles] = useState<RoleDefinition[]>(BUILT_IN_ROLES);
+  const [users, setUsers] = useState<User[]>([]);
+
   // Icon Picker State
   const [showIconPicker, setShowIconPicker] = useState(false);
   const iconPickerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     loadCategories();
+    roleService.getAll().then(setRoles).catch(e => console.error(e));
+    authService.getAllUsers().then(setUsers).catch(e => console.error(e));
     
-    const channel = supabase.channel('realtime_categories')
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'categories' }, () => {
-            loadCategories();
-        })
-        .subscribe();
+    const unsubscribe = subscribeTo('categories', {}, () => {
+        loadCategories();
+    });
 
     // Click outside to close icon picker
     const handleClickOutside = (event: MouseEvent) => {
@@ -57,10 +92,20 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
     
     return () => {
         document.removeEventListener('mousedown', handleClickOutside);
-        supabase.removeChannel(channel);
+        unsubscribe();
     };
   }, []);
 
+  useEffect(() => {
+    if (!isEditing || !currentCategory.id) {
+        setVersions([]);
+        return;
+    }
+    dataService.getSchemaVersions(currentCategory.id)
+        .then(setVersions)
+        .catch(() => setVersions([]));
+  }, [isEditing, currentCategory.id]);
+
   const loadCategories = async () => {
     setLoading(true);
     try {
@@ -73,11 +118,14 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
     }
   };
 
+  const savedCategory = categories.find(c => c.id === currentCategory.id);
+  const getSavedKey = (fieldId: string) => savedCategory?.fields.find(f => f.id === fieldId)?.key;
+
   const handleAddField = () => {
     const newField: FieldDefinition = {
       id: generateUUID(),
       name: '',
-      key: `field_${Date.now()}`,
+      key: uniqueFieldKey('field', takenFieldKeys(currentCategory.fields || [], currentCategory.fieldKeyAliases)),
       type: 'text',
       required: false
     };
@@ -94,6 +142,80 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
     }));
   };
 
+  const handleChangeFieldName = (field: FieldDefinition, name: string) => {
+    const updates: Partial<FieldDefinition> = { name };
+    // Saved keys are stable, they only change through an explicit rename
+    if (!getSavedKey(field.id) && !manualKeyIds.includes(field.id)) {
+        const taken = takenFieldKeys(currentCategory.fields || [], currentCategory.fieldKeyAliases, field.id);
+        updates.key = uniqueFieldKey(slugifyFieldKey(name), taken);
+    }
+    handleUpdateField(field.id, updates);
+  };
+
+  const handleChangeFieldKey = (field: FieldDefinition, value: string) => {
+    const key = value.toLowerCase().replace(/[^a-z0-9_]/g, '_');
+    if (!manualKeyIds.includes(field.id)) setManualKeyIds(prev => [...prev, field.id]);
+    handleUpdateField(field.id, { key });
+  };
+
+  const handleChangeFieldType = (field: FieldDefinition, type: FieldType) => {
+    // Rules are type specific, only uniqueness survives a type change
+    const validation: FieldValidation | undefined = field.validation?.unique ? { unique: true } : undefined;
+    const options = isChoiceType(type) ? (field.options && field.options.length > 0 ? field.options : [createOption(0)]) : undefined;
+    const reference = type === 'reference' ? (field.reference || { categoryId: '' }) : undefined;
+    const formula = type === 'formula' ? (field.formula || '') : undefined;
+    // Formula values are computed, they can never be required
+    const required = type === 'formula' ? false : field.required;
+    handleUpdateField(field.id, { type, validation, options, reference, formula, required });
+  };
+
+  // --- Select / multiselect options ---
+  const createOption = (index: number): FieldOption => ({
+    value: `opt_${generateUUID().slice(0, 8)}`,
+    label: '',
+    color: OPTION_COLOR_KEYS[index % OPTION_COLOR_KEYS.length]
+  });
+
+  const handleAddOption = (field: FieldDefinition) => {
+    const options = field.options || [];
+    handleUpdateField(field.id, { options: [...options, createOption(options.length)] });
+  };
+
+  const handleUpdateOption = (field: FieldDefinition, value: string, updates: Partial<FieldOption>) => {
+    handleUpdateField(field.id, { options: (field.options || []).map(o => o.value === value ? { ...o, ...updates } : o) });
+  };
+
+  const handleRemoveOption = (field: FieldDefinition, value: string) => {
+    handleUpdateField(field.id, { options: (field.options || []).filter(o => o.value !== value) });
+  };
+
+  const handleMoveOption = (field: FieldDefinition, index: number, direction: -1 | 1) => {
+    const options = [...(field.options || [])];
+    const target = index + direction;
+    if (target < 0 || target >= options.length) return;
+    [options[index], options[target]] = [options[target], options[index]];
+    handleUpdateField(field.id, { options });
+  };
+
+  // Empty role lists are dropped: no list means every role
+  const handleToggleFieldRole = (field: FieldDefinition, list: keyof FieldAccess, roleId: string) => {
+    const current = field.access?.[list] || [];
+    const next = current.includes(roleId) ? current.filter(r => r !== roleId) : [...current, roleId];
+    const access: FieldAccess = { ...(field.access || {}), [list]: next.length > 0 ? next : undefined };
+    if (!access.readRoles) delete access.readRoles;
+    if (!access.writeRoles) delete access.writeRoles;
+    handleUpdateField(field.id, { access: Object.keys(access).length > 0 ? access : undefined });
+  };
+
+  const handleUpdateValidation = (field: FieldDefinition, updates: Partial<FieldValidation>) => {
+    const merged: FieldValidation = { ...(field.validation || {}), ...updates };
+    // Drop cleared rules so they are not persisted as empty values
+    (Object.keys(merged) as (keyof FieldValidation)[]).forEach(key => {
+        if (merged[key] === undefined || merged[key] === '' || merged[key] === false) delete merged[key];
+    });
+    handleUpdateField(field.id, { validation: Object.keys(merged).length > 0 ? merged : undefined });
+  };
+
   const handleRemoveField = (id: string) => {
     setCurrentCategory(prev => ({
       ...prev,
@@ -117,6 +239,21 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
         showToast('Tên trường dữ liệu không được để trống', 'error');
         return;
     }
+
+    const keyError = checkFieldKeys(currentCategory.fields, currentCategory.fieldKeyAliases);
+    if (keyError) {
+        showToast(keyError, 'error');
+        return;
+    }
+
+    for (const field of currentCategory.fields) {
+        const ruleError = checkValidationRules(field) || checkFieldOptions(field) || checkFieldReference(field) || checkFormula(field, currentCategory.fields, currentCategory.fieldKeyAliases);
+        if (ruleError) {
+            setExpandedFieldId(field.id);
+            showToast(ruleError, 'error');
+            return;
+        }
+    }
     
     const categoryToSave: Category = {
       id: currentCategory.id || generateUUID(),
@@ -125,20 +262,62 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
       fields: currentCategory.fields || [],
       createdAt: currentCategory.createdAt || Date.now(),
       accessLevel: currentCategory.accessLevel || 'public',
-      icon: currentCategory.icon || '📁'
+      acl: currentCategory.acl,
+      membersOnly: currentCategory.membersOnly || undefined,
+      icon: currentCategory.icon || '📁',
+      fieldKeyAliases: savedCategory
+        ? updateKeyAliases(savedCategory.fieldKeyAliases, savedCategory.fields, currentCategory.fields)
+        : undefined
     };
-    
+
+    // Removed / retyped fields with stored values need a migration decision first
+    const previous = savedCategory;
+    if (previous) {
+        try {
+            const changes = await dataService.previewMigration(previous, categoryToSave.fields);
+            if (changes.length > 0) {
+                setPendingMigration({ category: categoryToSave, previous, changes });
+                return;
+            }
+        } catch(e) {
+            showToast('Lỗi kiểm tra dữ liệu hiện có', 'error');
+            return;
+        }
+    }
+    await persistCategory(categoryToSave, previous);
+  };
+
+  const persistCategory = async (category: Category, previous: Category | undefined, migration?: SaveCategoryOptions['migration'], note?: string) => {
     try {
-        await dataService.saveCategory(categoryToSave);
+        const { version, migrated } = await dataService.saveCategory(category, { createdBy: currentUser.username, previous, migration, note });
         setIsEditing(false);
+        setPendingMigration(null);
         setCurrentCategory({ name: '', description: '', fields: [], accessLevel: 'public', icon: '📁' });
-        showToast('Lưu cấu trúc thành công!', 'success');
+        showToast(migrated > 0 ? `Đã lưu phiên bản ${version}, chuyển đổi ${migrated} bản ghi` : 'Lưu cấu trúc thành công!', 'success');
         // loadCategories handled by realtime
     } catch(e) {
         showToast('Lỗi lưu cấu trúc', 'error');
     }
   };
 
+  const handleConfirmMigration = async (plan: MigrationPlan, note: string) => {
+    if (!pendingMigration) return;
+    const { category, previous, changes } = pendingMigration;
+    setSavingMigration(true);
+    try {
+        await persistCategory(category, previous, { changes, plan }, note || undefined);
+    } finally {
+        setSavingMigration(false);
+    }
+  };
+
+  // Loads the fields of an older version into the editor; saving goes through the usual migration preview
+  const handleRestoreVersion = (version: SchemaVersion) => {
+    setCurrentCategory(prev => ({ ...prev, fields: JSON.parse(JSON.stringify(version.fields)) }));
+    setExpandedFieldId(null);
+    showToast(`Đã nạp cấu trúc phiên bản ${version.version}. Nhấn Lưu để áp dụng.`, 'success');
+  };
+
   const handleDeleteClick = (category: Category) => {
     setCategoryToDelete(category);
   };
@@ -146,8 +325,8 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
   const confirmDelete = async () => {
       if (categoryToDelete) {
           try {
-            await dataService.deleteCategory(categoryToDelete.id);
-            showToast('Đã xóa danh mục', 'success');
+            await dataService.deleteCategory(categoryToDelete, currentUser.username);
+            showToast('Đã chuyển danh mục vào thùng rác', 'success');
             setCategoryToDelete(null);
             // loadCategories handled by realtime
           } catch(e) {
@@ -172,10 +351,228 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
         case 'user': return '👤';
         case 'image': return '🖼️';
         case 'file': return '📎';
+        case 'select': return '◉';
+        case 'multiselect': return '☰';
+        case 'reference': return '🔗';
+        case 'formula': return 'ƒx';
         default: return '?';
     }
   };
 
+  const renderOptionsEditor = (field: FieldDefinition) => (
+    <div className={`px-4 py-3 bg-gray-50 dark:bg-gray-800 border border-t-0 border-gray-200 dark:border-gray-600 space-y-2 ${expandedFieldId === field.id ? '' : 'rounded-b-xl'}`}>
+        <div className="text-[10px] text-gray-400 dark:text-gray-500 font-bold uppercase tracking-wider">Các lựa chọn</div>
+        {(field.options || []).map((option, index) => (
+            <div key={option.value} className="flex items-center gap-2">
+                <div className="flex gap-1">
+                    {OPTION_COLOR_KEYS.map(color => (
+                        <button
+                            key={color}
+                            type="button"
+                            onClick={() => handleUpdateOption(field, option.value, { color })}
+                            className={`w-4 h-4 rounded-full ${OPTION_COLORS[color].dot} ${option.color === color ? 'ring-2 ring-offset-1 ring-blue-500 dark:ring-offset-gray-800' : 'opacity-40 hover:opacity-100'} transition`}
+                            title={color}
+                        />
+                    ))}
+                </div>
+                <input
+                    type="text"
+                    value={option.label}
+                    onChange={(e) => handleUpdateOption(field, option.value, { label: e.target.value })}
+                    className="flex-1 border-b border-gray-300 dark:border-gray-500 py-1 text-sm focus:border-blue-500 outline-none bg-transparent text-gray-900 dark:text-white placeholder-gray-400"
+                    placeholder={`Lựa chọn ${index + 1}`}
+                />
+                <button type="button" onClick={() => handleMoveOption(field, index, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-blue-600 disabled:opacity-30" title="Lên">↑</button>
+                <button type="button" onClick={() => handleMoveOption(field, index, 1)} disabled={index === (field.options || []).length - 1} className="p-1 text-gray-400 hover:text-blue-600 disabled:opacity-30" title="Xuống">↓</button>
+                <button type="button" onClick={() => handleRemoveOption(field, option.value)} className="p-1 text-gray-400 hover:text-red-500" title="Xóa lựa chọn">&times;</button>
+            </div>
+        ))}
+        <button type="button" onClick={() => handleAddOption(field)} className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline">+ Thêm lựa chọn</button>
+    </div>
+  );
+
+  const renderReferenceEditor = (field: FieldDefinition) => {
+    const reference = field.reference || { categoryId: '' };
+    const target = categories.find(c => c.id === reference.categoryId);
+    const selectClass = "w-full border border-gray-200 dark:border-gray-500 rounded-lg py-1.5 px-2 text-sm bg-white dark:bg-gray-600 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none";
+    const labelClass = "text-[10px] text-gray-400 dark:text-gray-500 font-bold uppercase tracking-wider";
+
+    return (
+        <div className={`px-4 py-3 bg-gray-50 dark:bg-gray-800 border border-t-0 border-gray-200 dark:border-gray-600 grid grid-cols-1 sm:grid-cols-3 gap-3 items-end ${expandedFieldId === field.id ? '' : 'rounded-b-xl'}`}>
+            <div className="space-y-1">
+                <label className={labelClass}>Danh mục liên kết</label>
+                <select
+                    value={reference.categoryId}
+                    onChange={(e) => handleUpdateField(field.id, { reference: { ...reference, categoryId: e.target.value, displayFieldKey: undefined } })}
+                    className={selectClass}
+                >
+                    <option value="">-- Chọn danh mục --</option>
+                    {categories.map(c => <option key={c.id} value={c.id}>{c.icon || '📁'} {c.name}</option>)}
+                </select>
+            </div>
+            <div className="space-y-1">
+                <label className={labelClass}>Trường hiển thị</label>
+                <select
+                    value={reference.displayFieldKey || ''}
+                    onChange={(e) => handleUpdateField(field.id, { reference: { ...reference, displayFieldKey: e.target.value || undefined } })}
+                    className={selectClass}
+                    disabled={!target}
+                >
+                    <option value="">Tự động (trường văn bản đầu tiên)</option>
+                    {target?.fields.map(f => <option key={f.key} value={f.key}>{f.name}</option>)}
+                </select>
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer select-none pb-1.5">
+                <input
+                    type="checkbox"
+                    checked={!!reference.multiple}
+                    onChange={(e) => handleUpdateField(field.id, { reference: { ...reference, multiple: e.target.checked || undefined } })}
+                    className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Cho phép liên kết nhiều bản ghi</span>
+            </label>
+        </div>
+    );
+  };
+
+  const renderFormulaEditor = (field: FieldDefinition) => {
+    const otherFields = (currentCategory.fields || []).filter(f => f.id !== field.id && f.name.trim());
+    const error = field.formula?.trim() ? checkFormula(field, currentCategory.fields || []) : null;
+    const insertField = (name: string) => handleUpdateField(field.id, { formula: `${field.formula || ''}{${name}}` });
+
+    return (
+        <div className={`px-4 py-3 bg-gray-50 dark:bg-gray-800 border border-t-0 border-gray-200 dark:border-gray-600 space-y-2 ${expandedFieldId === field.id ? '' : 'rounded-b-xl'}`}>
+            <div className="text-[10px] text-gray-400 dark:text-gray-500 font-bold uppercase tracking-wider">Công thức</div>
+            <input
+                type="text"
+                value={field.formula || ''}
+                onChange={(e) => handleUpdateField(field.id, { formula: e.target.value })}
+                className={`w-full border rounded-lg py-1.5 px-2 text-sm font-mono bg-white dark:bg-gray-600 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none ${error ? 'border-red-400' : 'border-gray-200 dark:border-gray-500'}`}
+                placeholder="Ví dụ: {Số lượng} * {Đơn giá}"
+            />
+            {error && <p className="text-xs text-red-500">{error}</p>}
+            {otherFields.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {otherFields.map(f => (
+                        <button
+                            key={f.id}
+                            type="button"
+                            onClick={() => insertField(f.name)}
+                            className="px-2 py-0.5 text-xs rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:border-blue-400 hover:text-blue-600 transition"
+                            title="Chèn vào công thức"
+                        >
+                            {getTypeIcon(f.type)} {f.name}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <p className="text-[11px] text-gray-400 dark:text-gray-500 leading-relaxed">
+                Phép tính: + - * / % &nbsp;·&nbsp; Nối chuỗi: & &nbsp;·&nbsp; So sánh: = != &lt; &gt; &lt;= &gt;= &nbsp;·&nbsp;
+                Hàm: IF, AND, OR, NOT, ROUND, ABS, MIN, MAX, SUM, CONCAT, LEN, UPPER, LOWER, ISBLANK, TODAY(), DAYS(ngày kết thúc, ngày bắt đầu)
+            </p>
+        </div>
+    );
+  };
+
+  const hasValidationRules = (type: FieldType) => ['text', 'textarea', 'number', 'date'].includes(type);
+
+  const renderValidationRules = (field: FieldDefinition) => {
+    const rules = field.validation || {};
+    const inputClass = "w-full border border-gray-200 dark:border-gray-500 rounded-lg py-1.5 px-2 text-sm bg-white dark:bg-gray-600 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none";
+    const labelClass = "text-[10px] text-gray-400 dark:text-gray-500 font-bold uppercase tracking-wider";
+    const toNumber = (val: string) => val === '' ? undefined : Number(val);
+
+    // Roles managing the schema always see and edit every field
+    const restrictable = roles.filter(r => !r.permissions.includes('manageSchema'));
+    const renderRoleList = (list: keyof FieldAccess, label: string, hint: string) => (
+        <div className="space-y-1">
+            <label className={labelClass}>{label}</label>
+            <div className="flex flex-wrap gap-x-4 gap-y-1.5">
+                {restrictable.map(role => (
+                    <label key={role.id} className="flex items-center space-x-1.5 text-sm text-gray-600 dark:text-gray-300 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={!!field.access?.[list]?.includes(role.id)}
+                            onChange={() => handleToggleFieldRole(field, list, role.id)}
+                            className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span>{role.name}</span>
+                    </label>
+                ))}
+            </div>
+            <p className="text-xs text-gray-400 dark:text-gray-500">{hint}</p>
+        </div>
+    );
+
+    return (
+        <div className="p-4 bg-blue-50/50 dark:bg-gray-800 border border-t-0 border-gray-200 dark:border-gray-600 rounded-b-xl grid grid-cols-1 sm:grid-cols-2 gap-4 animate-fade-in">
+            {hasValidationRules(field.type) && (
+                <>
+                    {field.type === 'number' && (
+                        <>
+                            <div className="space-y-1">
+                                <label className={labelClass}>Giá trị tối thiểu</label>
+                                <input type="number" value={rules.min ?? ''} onChange={(e) => handleUpdateValidation(field, { min: toNumber(e.target.value) })} className={inputClass} placeholder="Không giới hạn" />
+                            </div>
+                            <div className="space-y-1">
+                                <label className={labelClass}>Giá trị tối đa</label>
+                                <input type="number" value={rules.max ?? ''} onChange={(e) => handleUpdateValidation(field, { max: toNumber(e.target.value) })} className={inputClass} placeholder="Không giới hạn" />
+                            </div>
+                        </>
+                    )}
+                    {(field.type === 'text' || field.type === 'textarea') && (
+                        <>
+                            <div className="space-y-1">
+                                <label className={labelClass}>Độ dài tối thiểu</label>
+                                <input type="number" min={0} value={rules.minLength ?? ''} onChange={(e) => handleUpdateValidation(field, { minLength: toNumber(e.target.value) })} className={inputClass} placeholder="Không giới hạn" />
+                            </div>
+                            <div className="space-y-1">
+                                <label className={labelClass}>Độ dài tối đa</label>
+                                <input type="number" min={0} value={rules.maxLength ?? ''} onChange={(e) => handleUpdateValidation(field, { maxLength: toNumber(e.target.value) })} className={inputClass} placeholder="Không giới hạn" />
+                            </div>
+                        </>
+                    )}
+                    {field.type === 'text' && (
+                        <>
+                            <div className="space-y-1">
+                                <label className={labelClass}>Biểu thức chính quy (Regex)</label>
+                                <input type="text" value={rules.pattern || ''} onChange={(e) => handleUpdateValidation(field, { pattern: e.target.value })} className={`${inputClass} font-mono`} placeholder="Ví dụ: ^TS-[0-9]{4}$" />
+                            </div>
+                            <div className="space-y-1">
+                                <label className={labelClass}>Thông báo khi sai định dạng</label>
+                                <input type="text" value={rules.patternMessage || ''} onChange={(e) => handleUpdateValidation(field, { patternMessage: e.target.value })} className={inputClass} placeholder="Ví dụ: Mã tài sản có dạng TS-0001" disabled={!rules.pattern} />
+                            </div>
+                        </>
+                    )}
+                    {field.type === 'date' && (
+                        <>
+                            <div className="space-y-1">
+                                <label className={labelClass}>Từ ngày</label>
+                                <input type="date" value={rules.minDate || ''} onChange={(e) => handleUpdateValidation(field, { minDate: e.target.value })} className={`${inputClass} dark:[color-scheme:dark]`} />
+                            </div>
+                            <div className="space-y-1">
+                                <label className={labelClass}>Đến ngày</label>
+                                <input type="date" value={rules.maxDate || ''} onChange={(e) => handleUpdateValidation(field, { maxDate: e.target.value })} className={`${inputClass} dark:[color-scheme:dark]`} />
+                            </div>
+                        </>
+                    )}
+                    <label className="sm:col-span-2 flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={!!rules.unique}
+                            onChange={(e) => handleUpdateValidation(field, { unique: e.target.checked })}
+                            className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span>Giá trị không được trùng lặp trong danh mục</span>
+                    </label>
+                </>
+            )}
+            {renderRoleList('readRoles', 'Vai trò được xem trường', field.access?.readRoles ? 'Các vai trò khác không thấy trường này trong danh sách, chi tiết, bộ lọc và tệp xuất.' : 'Không chọn: mọi vai trò đều xem được.')}
+            {renderRoleList('writeRoles', 'Vai trò được sửa trường', field.access?.writeRoles ? 'Các vai trò khác chỉ xem được giá trị, không sửa được.' : 'Không chọn: mọi vai trò xem được trường đều sửa được.')}
+        </div>
+    );
+  };
+
   if (isEditing) {
     return (
       <div className="space-y-6 max-w-5xl mx-auto animate-fade-in-up pb-10">
@@ -247,23 +644,52 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
                             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Quyền truy cập</label>
                             <div className="flex bg-gray-100 dark:bg-gray-700 p-1 rounded-lg">
                                 <button
-                                    onClick={() => setCurrentCategory(prev => ({...prev, accessLevel: 'public'}))}
-                                    className={`flex-1 py-1.5 text-sm font-medium rounded-md transition ${currentCategory.accessLevel === 'public' ? 'bg-white dark:bg-gray-600 shadow-sm text-blue-600 dark:text-blue-300' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+                                    onClick={() => setCurrentCategory(prev => ({...prev, accessLevel: 'public', acl: undefined}))}
+                                    className={`flex-1 py-1.5 text-sm font-medium rounded-md transition ${!currentCategory.acl && currentCategory.accessLevel === 'public' ? 'bg-white dark:bg-gray-600 shadow-sm text-blue-600 dark:text-blue-300' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
                                 >
                                     Công khai
                                 </button>
                                 <button
-                                    onClick={() => setCurrentCategory(prev => ({...prev, accessLevel: 'restricted'}))}
-                                    className={`flex-1 py-1.5 text-sm font-medium rounded-md transition ${currentCategory.accessLevel === 'restricted' ? 'bg-white dark:bg-gray-600 shadow-sm text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+                                    onClick={() => setCurrentCategory(prev => ({...prev, accessLevel: 'restricted', acl: undefined}))}
+                                    className={`flex-1 py-1.5 text-sm font-medium rounded-md transition ${!currentCategory.acl && currentCategory.accessLevel === 'restricted' ? 'bg-white dark:bg-gray-600 shadow-sm text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
                                 >
                                     Hạn chế
                                 </button>
+                                <button
+                                    onClick={() => setCurrentCategory(prev => prev.acl ? prev : ({...prev, acl: defaultCategoryAcl(prev as Category, roles)}))}
+                                    className={`flex-1 py-1.5 text-sm font-medium rounded-md transition ${currentCategory.acl ? 'bg-white dark:bg-gray-600 shadow-sm text-indigo-600 dark:text-indigo-300' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+                                >
+                                    Tùy chỉnh
+                                </button>
                             </div>
+                            {currentCategory.acl ? (
+                                <div className="mt-3">
+                                    <CategoryAclEditor acl={currentCategory.acl} roles={roles} users={users} onChange={(acl) => setCurrentCategory(prev => ({ ...prev, acl }))} />
+                                </div>
+                            ) : (
                             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                                 {currentCategory.accessLevel === 'public' 
                                     ? 'Mọi nhân viên đều có thể xem dữ liệu này.' 
-                                    : 'Chỉ Admin và Quản lý mới có thể xem dữ liệu này.'}
+                                    : 'Chỉ các vai trò được sửa mọi dữ liệu (Admin, Quản lý) mới có thể xem dữ liệu này.'}
                             </p>
+                            )}
+                            <label className="mt-3 flex items-start space-x-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer select-none">
+                                <input
+                                    type="checkbox"
+                                    checked={!!currentCategory.membersOnly}
+                                    onChange={(e) => setCurrentCategory(prev => ({ ...prev, membersOnly: e.target.checked || undefined }))}
+                                    disabled={!currentCategory.membersOnly && !currentCategory.fields?.some(f => f.type === 'project')}
+                                    className="mt-0.5 w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-50"
+                                />
+                                <span>
+                                    Chỉ thành viên của dự án liên kết mới thấy bản ghi
+                                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                                        {currentCategory.fields?.some(f => f.type === 'project')
+                                            ? 'Mỗi người chỉ thấy các bản ghi có trường Dự án chứa dự án họ tham gia. Người quản lý cấu trúc dữ liệu thấy tất cả.'
+                                            : 'Cần ít nhất một trường kiểu Dự án.'}
+                                    </span>
+                                </span>
+                            </label>
                         </div>
                         <div>
                         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Mô tả</label>
@@ -276,6 +702,41 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
                         </div>
                     </div>
                 </div>
+
+                {currentCategory.id && (
+                    <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+                        <h3 className="text-lg font-bold text-gray-800 dark:text-white mb-4 flex items-center gap-2">
+                            <span className="w-8 h-8 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 flex items-center justify-center text-sm">🕒</span>
+                            Lịch sử phiên bản
+                        </h3>
+                        {versions.length === 0 ? (
+                            <p className="text-sm text-gray-400 dark:text-gray-500">Chưa có phiên bản nào được ghi lại. Phiên bản đầu tiên sẽ được tạo khi lưu.</p>
+                        ) : (
+                            <div className="space-y-2 max-h-72 overflow-y-auto">
+                                {versions.map(v => {
+                                    const isCurrent = v.version === currentCategory.schemaVersion;
+                                    return (
+                                        <div key={v.id} className="flex items-start justify-between gap-2 p-3 rounded-lg border border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/40">
+                                            <div className="min-w-0">
+                                                <div className="text-sm font-bold text-gray-800 dark:text-white flex items-center gap-2">
+                                                    Phiên bản {v.version}
+                                                    {isCurrent && <span className="px-1.5 py-0.5 text-[10px] rounded bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300">Hiện tại</span>}
+                                                </div>
+                                                <div className="text-xs text-gray-500 dark:text-gray-400">{new Date(v.createdAt).toLocaleString('vi-VN')} · {v.createdBy} · {v.fields.length} trường</div>
+                                                {v.note && <div className="text-xs text-gray-600 dark:text-gray-300 mt-0.5 truncate" title={v.note}>{v.note}</div>}
+                                            </div>
+                                            {!isCurrent && (
+                                                <button onClick={() => handleRestoreVersion(v)} className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap">
+                                                    Khôi phục
+                                                </button>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                )}
             </div>
 
             {/* Right Column: Fields */}
@@ -301,7 +762,8 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
                             </div>
                         )}
                         {currentCategory.fields?.map((field, index) => (
-                        <div key={field.id} className="group flex flex-col md:flex-row gap-4 p-4 bg-white dark:bg-gray-700 rounded-xl border border-gray-200 dark:border-gray-600 shadow-sm items-start md:items-center hover:border-blue-300 dark:hover:border-blue-500 transition-colors">
+                        <div key={field.id} className="space-y-0">
+                        <div className={`group flex flex-col md:flex-row gap-4 p-4 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 shadow-sm items-start md:items-center hover:border-blue-300 dark:hover:border-blue-500 transition-colors ${expandedFieldId === field.id || isChoiceType(field.type) || field.type === 'reference' || field.type === 'formula' ? 'rounded-t-xl' : 'rounded-xl'}`}>
                             <div className="flex items-center justify-between w-full md:w-auto md:justify-center">
                                 <div className="flex items-center justify-center w-8 h-8 rounded-lg bg-gray-100 dark:bg-gray-600 text-gray-500 dark:text-gray-300 font-bold text-xs shrink-0 cursor-move">
                                     {index + 1}
@@ -320,10 +782,25 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
                                 <input
                                     type="text"
                                     value={field.name}
-                                    onChange={(e) => handleUpdateField(field.id, { name: e.target.value })}
+                                    onChange={(e) => handleChangeFieldName(field, e.target.value)}
                                     className="w-full border-b border-gray-300 dark:border-gray-500 py-1 text-sm font-medium focus:border-blue-500 outline-none bg-transparent text-gray-900 dark:text-white placeholder-gray-400"
                                     placeholder="Nhập tên trường..."
                                 />
+                                <div className="flex items-center gap-1 text-[11px] text-gray-400 dark:text-gray-500">
+                                    <span>Khóa:</span>
+                                    <input
+                                        type="text"
+                                        value={field.key}
+                                        onChange={(e) => handleChangeFieldKey(field, e.target.value)}
+                                        className="flex-1 min-w-0 font-mono bg-transparent border-b border-dashed border-transparent hover:border-gray-300 focus:border-blue-500 outline-none text-gray-500 dark:text-gray-400"
+                                        title="Khóa dùng khi lưu dữ liệu, xuất CSV và trong công thức"
+                                    />
+                                    {getSavedKey(field.id) && getSavedKey(field.id) !== field.key && (
+                                        <span className="text-amber-600 dark:text-amber-400 whitespace-nowrap" title="Dữ liệu hiện có sẽ được chuyển sang khóa mới khi lưu, khóa cũ vẫn được nhận diện">
+                                            (đổi từ {getSavedKey(field.id)})
+                                        </span>
+                                    )}
+                                </div>
                             </div>
 
                             <div className="w-full md:w-40 space-y-1">
@@ -332,7 +809,7 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
                                     <span className="absolute left-2 top-1/2 -translate-y-1/2 text-xs font-bold text-gray-500 dark:text-gray-400">{getTypeIcon(field.type)}</span>
                                     <select
                                         value={field.type}
-                                        onChange={(e) => handleUpdateField(field.id, { type: e.target.value as FieldType })}
+                                        onChange={(e) => handleChangeFieldType(field, e.target.value as FieldType)}
                                         className="w-full border border-gray-200 dark:border-gray-500 rounded-lg py-1.5 pl-7 pr-2 text-sm bg-gray-50 dark:bg-gray-600 text-gray-900 dark:text-white focus:bg-white dark:focus:bg-gray-600 focus:ring-2 focus:ring-blue-500 outline-none"
                                     >
                                         <option value="text">Văn bản ngắn</option>
@@ -344,11 +821,15 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
                                         <option value="user">Liên kết Người dùng</option>
                                         <option value="image">Hình ảnh</option>
                                         <option value="file">Tệp đính kèm</option>
+                                        <option value="select">Danh sách chọn (1 giá trị)</option>
+                                        <option value="multiselect">Danh sách chọn (nhiều giá trị)</option>
+                                        <option value="reference">Liên kết Danh mục khác</option>
+                                        <option value="formula">Công thức (tự tính)</option>
                                     </select>
                                 </div>
                             </div>
 
-                            <div className="flex items-center pt-2 md:pt-0">
+                            <div className={`flex items-center pt-2 md:pt-0 ${field.type === 'formula' ? 'invisible' : ''}`}>
                                 <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer select-none hover:text-blue-600 dark:hover:text-blue-400 transition">
                                     <div className={`w-5 h-5 rounded border flex items-center justify-center transition ${field.required ? 'bg-blue-600 border-blue-600' : 'border-gray-300 dark:border-gray-500 bg-white dark:bg-gray-600'}`}>
                                         {field.required && <svg className="w-3.5 h-3.5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" /></svg>}
@@ -363,6 +844,14 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
                                 </label>
                             </div>
 
+                            <button
+                                onClick={() => setExpandedFieldId(expandedFieldId === field.id ? null : field.id)}
+                                className={`px-2.5 py-1.5 text-xs font-medium rounded-lg border transition whitespace-nowrap ${field.validation || field.access ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-700 text-blue-600 dark:text-blue-300' : 'border-gray-200 dark:border-gray-500 text-gray-500 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400'}`}
+                                title={hasValidationRules(field.type) ? 'Ràng buộc dữ liệu và quyền truy cập trường' : 'Quyền truy cập trường'}
+                            >
+                                {hasValidationRules(field.type) ? '⚙️ Ràng buộc' : '⚙️ Quyền'}{field.validation ? ` (${Object.keys(field.validation).length})` : ''}{field.access ? ' 🔒' : ''}
+                            </button>
+
                             {/* Desktop delete button */}
                             <button
                             onClick={() => handleRemoveField(field.id)}
@@ -372,11 +861,26 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
                             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
                             </button>
                         </div>
+                        {isChoiceType(field.type) && renderOptionsEditor(field)}
+                        {field.type === 'reference' && renderReferenceEditor(field)}
+                        {field.type === 'formula' && renderFormulaEditor(field)}
+                        {expandedFieldId === field.id && renderValidationRules(field)}
+                        </div>
                         ))}
                     </div>
                 </div>
             </div>
         </div>
+
+        {pendingMigration && (
+            <SchemaMigrationDialog
+                changes={pendingMigration.changes}
+                nextFields={pendingMigration.category.fields}
+                saving={savingMigration}
+                onConfirm={handleConfirmMigration}
+                onCancel={() => setPendingMigration(null)}
+            />
+        )}
       </div>
     );
   }
@@ -432,11 +936,20 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
                                 <div className="w-12 h-12 rounded-xl bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 flex items-center justify-center text-2xl">
                                 {cat.icon || '📁'}
                                 </div>
-                                {cat.accessLevel === 'restricted' && (
+                                {cat.acl ? (
+                                    <span className="px-2 py-1 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-400 text-[10px] font-bold uppercase tracking-wide rounded-md">
+                                        Tùy chỉnh
+                                    </span>
+                                ) : cat.accessLevel === 'restricted' && (
                                     <span className="px-2 py-1 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 text-[10px] font-bold uppercase tracking-wide rounded-md">
                                         Hạn chế
                                     </span>
                                 )}
+                                {cat.membersOnly && (
+                                    <span className="px-2 py-1 bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 text-[10px] font-bold uppercase tracking-wide rounded-md" title="Chỉ thành viên dự án liên kết">
+                                        Thành viên DA
+                                    </span>
+                                )}
                             </div>
                             <div className="flex gap-1 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
                                 <button onClick={() => handleEditCategory(cat)} className="p-2 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg transition">
@@ -498,7 +1011,11 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
                                             </span>
                                         </td>
                                         <td className="px-6 py-4">
-                                            {cat.accessLevel === 'restricted' ? (
+                                            {cat.acl ? (
+                                                <span className="px-2.5 py-1 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-400 text-xs font-bold rounded-full">
+                                                    Tùy chỉnh
+                                                </span>
+                                            ) : cat.accessLevel === 'restricted' ? (
                                                 <span className="px-2.5 py-1 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 text-xs font-bold rounded-full">
                                                     Hạn chế
                                                 </span>
@@ -507,6 +1024,11 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
                                                     Công khai
                                                 </span>
                                             )}
+                                            {cat.membersOnly && (
+                                                <span className="ml-1.5 px-2.5 py-1 bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 text-xs font-bold rounded-full" title="Chỉ thành viên dự án liên kết">
+                                                    Thành viên DA
+                                                </span>
+                                            )}
                                         </td>
                                         <td className="px-6 py-4 text-right">
                                             <div className="flex justify-end gap-2">
@@ -556,7 +1078,7 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
                     <div>
                         <h3 className="text-xl font-bold text-gray-900 dark:text-white">Xóa Danh Mục?</h3>
                         <p className="text-gray-500 dark:text-gray-400 mt-2 text-sm">
-                            Bạn sắp xóa danh mục <b>{categoryToDelete.name}</b>. Toàn bộ dữ liệu thuộc về danh mục này cũng sẽ bị xóa vĩnh viễn và không thể khôi phục.
+                            Bạn sắp xóa danh mục <b>{categoryToDelete.name}</b>. Danh mục cùng toàn bộ dữ liệu thuộc về nó sẽ được chuyển vào thùng rác và có thể khôi phục trong thời gian lưu giữ.
                         </p>
                     </div>
                     <div className="flex flex-col sm:flex-row gap-3 w-full pt-2">
@@ -570,7 +1092,7 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ showToast }) => {
                             onClick={confirmDelete}
                             className="flex-1 px-4 py-2.5 bg-red-600 text-white rounded-xl font-medium hover:bg-red-700 shadow-lg shadow-red-500/30 transition transform active:scale-95"
                         >
-                            Xóa vĩnh viễn
+                            Xóa
                         </button>
                     </div>
                 </div>
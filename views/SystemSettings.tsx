@@ -18,7 +18,8 @@ export const SystemSettings: React.FC<SystemSettingsProps> = ({ currentUser, sho
       footerText: '',
       logoUrl: '',
       faviconUrl: '',
-      allowRegistration: true
+      allowRegistration: true,
+      trashRetentionDays: 30
   });
   const [loading, setLoading] = useState(false);
 
@@ -197,6 +198,20 @@ export const SystemSettings: React.FC<SystemSettingsProps> = ({ currentUser, sho
                                 placeholder="© 2024 Your Company"
                             />
                         </div>
+
+                        <div>
+                            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                                Thời gian lưu trong thùng rác (ngày)
+                            </label>
+                            <input
+                                type="number"
+                                min={0}
+                                value={config.trashRetentionDays ?? 30}
+                                onChange={(e) => setConfig(prev => ({...prev, trashRetentionDays: Math.max(0, Math.floor(Number(e.target.value) || 0))}))}
+                                className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                            />
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Mục đã xóa quá thời hạn này sẽ bị xóa vĩnh viễn. Nhập 0 để giữ lại cho đến khi xóa thủ công.</p>
+                        </div>
                     </div>
                 </div>
             </div>
@@ -1,29 +1,38 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { User, Role } from '../types';
-import { authService } from '../services/storage';
-import { supabase } from '../services/supabase';
+import { User, Role, RoleDefinition, BUILT_IN_ROLES, getUserRoles } from '../types';
+import { authService, roleService } from '../services/storage';
+import { subscribeTo } from '../services/realtime';
+import { PERMISSION_LABELS, getRoleName, losesUserManagement } from '../services/roles';
+import { RoleMatrix } from '../components/RoleMatrix';
 
 interface UserManagerProps {
   currentUser: User;
   showToast: (msg: string, type: 'success' | 'error') => void;
+  initialSearch?: string; // set when opened from the global search
 }
 
-export const UserManager: React.FC<UserManagerProps> = ({ currentUser, showToast }) => {
+export const UserManager: React.FC<UserManagerProps> = ({ currentUser, showToast, initialSearch }) => {
   const [users, setUsers] = useState<User[]>([]);
+  const [roles, setRoles] = useState<RoleDefinition[]>(BUILT_IN_ROLES);
   const [loading, setLoading] = useState(false);
+  const [activeTab, setActiveTab] = useState<'users' | 'roles'>('users');
   
   // Search & Filter State
-  const [searchTerm, setSearchTerm] = useState('');
+  const [searchTerm, setSearchTerm] = useState(initialSearch || '');
   const [filterRole, setFilterRole] = useState<string>('all');
 
+  useEffect(() => {
+    if (initialSearch) setSearchTerm(initialSearch);
+  }, [initialSearch]);
+
   // Pagination State
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(10);
   
   // Role Editing State
   const [editingUser, setEditingUser] = useState<User | null>(null);
-  const [selectedRole, setSelectedRole] = useState<Role>('user');
+  const [selectedRoles, setSelectedRoles] = useState<Role[]>([]);
   
   // Deletion State
   const [userToDelete, setUserToDelete] = useState<User | null>(null);
@@ -40,12 +49,14 @@ export const UserManager: React.FC<UserManagerProps> = ({ currentUser, showToast
 
   useEffect(() => {
     loadUsers();
+    loadRoles();
     
-    const channel = supabase.channel('realtime_users')
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'profiles' }, () => {
-            loadUsers();
-        })
-        .subscribe();
+    const unsubscribe = subscribeTo('profiles', {}, () => {
+        loadUsers();
+    });
+    const unsubscribeRoles = subscribeTo('roles', {}, () => {
+        loadRoles();
+    });
 
     const handleClickOutside = (event: MouseEvent) => {
         if (columnMenuRef.current && !columnMenuRef.current.contains(event.target as Node)) {
@@ -56,7 +67,8 @@ export const UserManager: React.FC<UserManagerProps> = ({ currentUser, showToast
     
     return () => {
         document.removeEventListener('mousedown', handleClickOutside);
-        supabase.removeChannel(channel);
+        unsubscribe();
+        unsubscribeRoles();
     };
   }, []);
 
@@ -77,9 +89,21 @@ export const UserManager: React.FC<UserManagerProps> = ({ currentUser, showToast
     }
   };
 
+  const loadRoles = async () => {
+    try {
+        setRoles(await roleService.getAll());
+    } catch(e) {
+        showToast('Lỗi tải danh sách vai trò', 'error');
+    }
+  };
+
   const handleEditClick = (user: User) => {
     setEditingUser(user);
-    setSelectedRole(user.role);
+    setSelectedRoles(getUserRoles(user));
+  };
+
+  const toggleSelectedRole = (role: Role) => {
+    setSelectedRoles(prev => prev.includes(role) ? prev.filter(r => r !== role) : [...prev, role]);
   };
 
   const handleDeleteClick = (user: User) => {
@@ -106,14 +130,23 @@ export const UserManager: React.FC<UserManagerProps> = ({ currentUser, showToast
   const handleSaveRole = async () => {
     if (!editingUser) return;
     
-    if (editingUser.id === currentUser.id && selectedRole !== 'admin') {
+    if (selectedRoles.length === 0) {
+        showToast('Vui lòng chọn ít nhất một vai trò', 'error');
+        return;
+    }
+
+    if (editingUser.id === currentUser.id && losesUserManagement(currentUser, selectedRoles, roles)) {
         if (!window.confirm('CẢNH BÁO: Bạn đang tự hạ quyền của chính mình. Sau khi lưu, bạn có thể mất quyền truy cập trang quản lý này. Bạn có chắc chắn?')) {
             return;
         }
     }
 
+    // Keep the current primary role first when it is still selected
+    const ordered = roles.map(r => r.id).filter(id => selectedRoles.includes(id))
+        .sort((a, b) => (b === editingUser.role ? 1 : 0) - (a === editingUser.role ? 1 : 0));
+
     try {
-        await authService.updateUserRole(editingUser.id, selectedRole);
+        await authService.updateUserRoles(editingUser.id, ordered);
         showToast(`Đã cập nhật quyền cho ${editingUser.username}`, 'success');
         setEditingUser(null);
         // loadUsers triggered by realtime
@@ -138,13 +171,20 @@ export const UserManager: React.FC<UserManagerProps> = ({ currentUser, showToast
                     QUẢN LÝ
                 </span>
               );
-          default:
+          case 'user':
               return (
                 <span className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold bg-emerald-100 text-emerald-700 border border-emerald-200 dark:bg-emerald-900/30 dark:text-emerald-400 dark:border-emerald-800 shadow-sm">
                      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" /></svg>
                     NHÂN VIÊN
                 </span>
               );
+          default:
+              return (
+                <span className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold uppercase bg-sky-100 text-sky-700 border border-sky-200 dark:bg-sky-900/30 dark:text-sky-400 dark:border-sky-800 shadow-sm">
+                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" /></svg>
+                    {getRoleName(roles, role)}
+                </span>
+              );
       }
   };
 
@@ -167,7 +207,7 @@ export const UserManager: React.FC<UserManagerProps> = ({ currentUser, showToast
         (user.email || '').toLowerCase().includes(term) ||
         (user.fullName || '').toLowerCase().includes(term);
       
-      const matchesRole = filterRole === 'all' || user.role === filterRole;
+      const matchesRole = filterRole === 'all' || getUserRoles(user).includes(filterRole);
 
       return matchesSearch && matchesRole;
   });
@@ -189,9 +229,9 @@ export const UserManager: React.FC<UserManagerProps> = ({ currentUser, showToast
 
   const stats = {
     total: users.length,
-    admin: users.filter(u => u.role === 'admin').length,
-    manager: users.filter(u => u.role === 'manager').length,
-    user: users.filter(u => u.role === 'user').length
+    admin: users.filter(u => getUserRoles(u).includes('admin')).length,
+    manager: users.filter(u => getUserRoles(u).includes('manager')).length,
+    user: users.filter(u => getUserRoles(u).includes('user')).length
   };
 
   if (loading) return <div className="text-center py-20 text-gray-500">Đang tải danh sách thành viên...</div>;
@@ -205,7 +245,7 @@ export const UserManager: React.FC<UserManagerProps> = ({ currentUser, showToast
         </div>
         
         {/* Column Config Dropdown */}
-        <div className="relative" ref={columnMenuRef}>
+        <div className={`relative ${activeTab === 'users' ? '' : 'hidden'}`} ref={columnMenuRef}>
             <button 
                 onClick={() => setShowColumnMenu(!showColumnMenu)}
                 className="w-full lg:w-auto px-4 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl text-gray-700 dark:text-gray-300 font-medium hover:bg-gray-50 dark:hover:bg-gray-700 shadow-sm flex items-center justify-center gap-2 transition"
@@ -259,6 +299,22 @@ export const UserManager: React.FC<UserManagerProps> = ({ currentUser, showToast
         </div>
       </div>
 
+      {/* Tabs */}
+      <div className="flex gap-2 border-b border-gray-200 dark:border-gray-700">
+        {([['users', 'Thành viên'], ['roles', 'Vai trò & quyền']] as const).map(([tab, label]) => (
+            <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`px-4 py-2.5 text-sm font-semibold border-b-2 -mb-px transition ${activeTab === tab ? 'border-blue-600 text-blue-600 dark:text-blue-400' : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+            >
+                {label}
+            </button>
+        ))}
+      </div>
+
+      {activeTab === 'roles' ? (
+        <RoleMatrix roles={roles} users={users} currentUser={currentUser} showToast={showToast} />
+      ) : (<>
       {/* Stats Cards */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6">
         <div className="bg-white dark:bg-gray-800 rounded-2xl p-5 shadow-[0_4px_20px_rgb(0,0,0,0.03)] dark:shadow-none border border-gray-100 dark:border-gray-700 flex items-center space-x-4 transition hover:-translate-y-1">
@@ -321,9 +377,7 @@ export const UserManager: React.FC<UserManagerProps> = ({ currentUser, showToast
                 className="w-full px-4 py-2.5 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-xl text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none cursor-pointer"
              >
                  <option value="all">Tất cả vai trò</option>
-                 <option value="admin">Admin</option>
-                 <option value="manager">Quản lý</option>
-                 <option value="user">Nhân viên</option>
+                 {roles.map(role => <option key={role.id} value={role.id}>{role.name}</option>)}
              </select>
         </div>
       </div>
@@ -379,7 +433,9 @@ export const UserManager: React.FC<UserManagerProps> = ({ currentUser, showToast
                   )}
                   {visibleColumns.role && (
                     <td className="px-6 py-4">
-                        {renderRoleBadge(user.role)}
+                        <div className="flex flex-wrap gap-1.5">
+                            {getUserRoles(user).map(role => <React.Fragment key={role}>{renderRoleBadge(role)}</React.Fragment>)}
+                        </div>
                     </td>
                   )}
                   <td className="px-6 py-4 text-right sticky right-0 bg-white dark:bg-gray-800 group-hover:bg-gray-50/80 dark:group-hover:bg-gray-700/30 transition-colors z-10">
@@ -468,6 +524,8 @@ export const UserManager: React.FC<UserManagerProps> = ({ currentUser, showToast
         )}
       </div>
 
+      </>)}
+
       {/* Role Edit Modal */}
       {editingUser && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
@@ -488,46 +546,24 @@ export const UserManager: React.FC<UserManagerProps> = ({ currentUser, showToast
                 </div>
 
                 <div className="space-y-4">
-                    <p className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Chọn vai trò mới</p>
-                    <div className="grid gap-3">
-                        <label className={`flex items-start p-4 border rounded-xl cursor-pointer transition-all ${selectedRole === 'admin' ? 'border-amber-500 bg-amber-50 dark:bg-amber-900/20 ring-1 ring-amber-500/50' : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}>
-                            <div className="flex items-center h-5 mt-0.5">
-                                <input type="radio" name="role" value="admin" checked={selectedRole === 'admin'} onChange={() => setSelectedRole('admin')} className="w-4 h-4 text-amber-600 border-gray-300 focus:ring-amber-500" />
-                            </div>
-                            <div className="ml-3">
-                                <span className="block font-bold text-gray-900 dark:text-white flex items-center gap-2">
-                                    <span className="w-6 h-6 rounded-md bg-amber-100 text-amber-600 flex items-center justify-center text-xs">🛡️</span>
-                                    Quản trị viên (Admin)
-                                </span>
-                                <span className="text-sm text-gray-500 dark:text-gray-400 mt-1 block">Toàn quyền hệ thống, quản lý cấu trúc dữ liệu và phân quyền người dùng.</span>
-                            </div>
-                        </label>
-
-                        <label className={`flex items-start p-4 border rounded-xl cursor-pointer transition-all ${selectedRole === 'manager' ? 'border-purple-500 bg-purple-50 dark:bg-purple-900/20 ring-1 ring-purple-500/50' : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}>
-                            <div className="flex items-center h-5 mt-0.5">
-                                <input type="radio" name="role" value="manager" checked={selectedRole === 'manager'} onChange={() => setSelectedRole('manager')} className="w-4 h-4 text-purple-600 border-gray-300 focus:ring-purple-500" />
-                            </div>
-                            <div className="ml-3">
-                                <span className="block font-bold text-gray-900 dark:text-white flex items-center gap-2">
-                                    <span className="w-6 h-6 rounded-md bg-purple-100 text-purple-600 flex items-center justify-center text-xs">💼</span>
-                                    Quản lý (Manager)
-                                </span>
-                                <span className="text-sm text-gray-500 dark:text-gray-400 mt-1 block">Quản lý toàn bộ dữ liệu, xem tất cả danh mục (kể cả Hạn chế), không sửa cấu trúc.</span>
-                            </div>
-                        </label>
-
-                        <label className={`flex items-start p-4 border rounded-xl cursor-pointer transition-all ${selectedRole === 'user' ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20 ring-1 ring-emerald-500/50' : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}>
-                            <div className="flex items-center h-5 mt-0.5">
-                                <input type="radio" name="role" value="user" checked={selectedRole === 'user'} onChange={() => setSelectedRole('user')} className="w-4 h-4 text-emerald-600 border-gray-300 focus:ring-emerald-500" />
-                            </div>
-                            <div className="ml-3">
-                                <span className="block font-bold text-gray-900 dark:text-white flex items-center gap-2">
-                                    <span className="w-6 h-6 rounded-md bg-emerald-100 text-emerald-600 flex items-center justify-center text-xs">👤</span>
-                                    Nhân viên (User)
-                                </span>
-                                <span className="text-sm text-gray-500 dark:text-gray-400 mt-1 block">Chỉ xem danh mục Công khai. Chỉ được sửa/xóa dữ liệu do chính mình tạo ra.</span>
-                            </div>
-                        </label>
+                    <p className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Chọn vai trò (có thể chọn nhiều)</p>
+                    <div className="grid gap-3 max-h-[45vh] overflow-y-auto">
+                        {roles.map(role => {
+                            const checked = selectedRoles.includes(role.id);
+                            return (
+                                <label key={role.id} className={`flex items-start p-4 border rounded-xl cursor-pointer transition-all ${checked ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 ring-1 ring-blue-500/50' : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}>
+                                    <div className="flex items-center h-5 mt-0.5">
+                                        <input type="checkbox" checked={checked} onChange={() => toggleSelectedRole(role.id)} className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500" />
+                                    </div>
+                                    <div className="ml-3">
+                                        <span className="block">{renderRoleBadge(role.id)}</span>
+                                        <span className="text-sm text-gray-500 dark:text-gray-400 mt-1.5 block">
+                                            {role.description || (role.permissions.length > 0 ? role.permissions.map(p => PERMISSION_LABELS[p].label).join(', ') : 'Chỉ xem danh mục Công khai, sửa/xóa dữ liệu của mình.')}
+                                        </span>
+                                    </div>
+                                </label>
+                            );
+                        })}
                     </div>
                 </div>
 